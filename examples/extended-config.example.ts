@@ -7,27 +7,36 @@
 
 import chalk from "chalk";
 import inquirer from "inquirer";
-import { configManager } from "../src/utils/configManager";
+import { z } from "zod";
+import { AppConfigSchema, createConfigManager } from "../src/utils/configManager";
 import { Logger } from "../src/utils/Logger";
 
 /**
- * Extended configuration with custom fields
+ * Extended configuration schema with custom fields
  */
-export interface ExtendedAppConfig {
-	name: string;
-	description?: string;
+export const ExtendedAppConfigSchema = AppConfigSchema.extend({
 	// Custom fields for your application
-	apiUrl: string;
-	apiKey: string;
-	timeout: number;
-	retryAttempts: number;
-	environment: "development" | "staging" | "production";
-	features: {
-		enableCache: boolean;
-		enableMetrics: boolean;
-		enableDebugMode: boolean;
-	};
-}
+	apiUrl: z.url(),
+	apiKey: z.string().min(10),
+	timeout: z.number().positive(),
+	retryAttempts: z.number().int().min(0),
+	environment: z.enum(["development", "staging", "production"]),
+	features: z.object({
+		enableCache: z.boolean(),
+		enableMetrics: z.boolean(),
+		enableDebugMode: z.boolean(),
+	}),
+});
+
+/**
+ * Extended configuration with custom fields
+ */
+export type ExtendedAppConfig = z.infer<typeof ExtendedAppConfigSchema>;
+
+/**
+ * Configuration manager validating the extended fields
+ */
+const configManager = createConfigManager({ schema: ExtendedAppConfigSchema });
 
 /**
  * Validates API URL format
@@ -209,8 +218,7 @@ export async function createExtendedConfig(): Promise<void> {
  * Gets the current extended configuration
  */
 export function getCurrentExtendedConfig(): ExtendedAppConfig | null {
-	const config = configManager.getCurrentConfigData();
-	return config as ExtendedAppConfig | null;
+	return configManager.getCurrentConfigData();
 }
 
 // Usage example:
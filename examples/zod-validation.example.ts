@@ -8,7 +8,8 @@
 import type { Command } from "commander";
 import inquirer from "inquirer";
 import { z } from "zod";
-import { AppConfigSchema, configManager } from "../src/utils/configManager";
+import { AppConfigSchema, createConfigManager } from "../src/utils/configManager";
+import { ConfigValidationError } from "../src/utils/errors";
 import { Logger } from "../src/utils/Logger";
 
 /**
@@ -31,6 +32,11 @@ const ExtendedConfigSchema = AppConfigSchema.extend({
 
 type ExtendedConfig = z.infer<typeof ExtendedConfigSchema>;
 
+/**
+ * Configuration manager validating every read and write against the extended schema
+ */
+const configManager = createConfigManager({ schema: ExtendedConfigSchema });
+
 /**
  * Prompts user for extended configuration details
  */
@@ -131,18 +137,8 @@ async function createExtendedConfig(): Promise<void> {
 	try {
 		const config = await promptExtendedConfig();
 
-		// Validate with Zod schema
-		const validationResult = ExtendedConfigSchema.safeParse(config);
-
-		if (!validationResult.success) {
-			Logger.error("Configuration validation failed:");
-			for (const issue of validationResult.error.issues) {
-				console.log(`  • ${issue.path.join(".")}: ${issue.message}`);
-			}
-			return;
-		}
-
-		const validatedConfig = validationResult.data;
+		// Validate with the manager's schema (throws ConfigValidationError)
+		const validatedConfig = configManager.validateConfig(config, config.name);
 
 		// Save the config
 		const saved = configManager.saveConfig(validatedConfig);
@@ -167,6 +163,14 @@ async function createExtendedConfig(): Promise<void> {
 			Logger.error("Failed to save configuration");
 		}
 	} catch (error) {
+		if (error instanceof ConfigValidationError) {
+			Logger.error("Configuration validation failed:");
+			for (const issue of error.issues) {
+				console.log(`  • ${issue.path}: ${issue.message}`);
+			}
+			return;
+		}
+
 		const errorMsg = error instanceof Error ? error.message : String(error);
 		Logger.error(`Error creating configuration: ${errorMsg}`);
 		Logger.debug("Full error:", error);
@@ -0,0 +1,216 @@
+import { spawn, spawnSync } from "node:child_process";
+import {
+	existsSync,
+	mkdtempSync,
+	readdirSync,
+	readFileSync,
+	rmSync,
+	utimesSync,
+	writeFileSync,
+} from "node:fs";
+import { hostname, tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { withFileLock, withFileLockAsync, writeFileAtomic } from "../utils/atomicFile";
+import { ConfigLockError } from "../utils/errors";
+
+const WORKER = join(process.cwd(), "src", "__tests__", "fixtures", "configWorker.ts");
+
+// Helper to run the config worker in a separate Node process
+const runWorker = (configDir: string, workerId: number, iterations: number): Promise<number> => {
+	return new Promise((resolve, reject) => {
+		const child = spawn(
+			process.execPath,
+			["--import", "tsx", WORKER, configDir, String(workerId), String(iterations)],
+			{ stdio: "ignore" },
+		);
+		child.on("error", reject);
+		child.on("exit", (code) => resolve(code ?? 1));
+	});
+};
+
+describe("atomicFile", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "atomic-file-test-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	describe("writeFileAtomic", () => {
+		it("should replace the file without leaving temporary files", () => {
+			const filePath = join(dir, "config.json");
+			writeFileSync(filePath, "old");
+
+			writeFileAtomic(filePath, '{"name":"dev"}');
+
+			expect(readFileSync(filePath, "utf-8")).toBe('{"name":"dev"}');
+			expect(readdirSync(dir)).toEqual(["config.json"]);
+		});
+
+		it("should leave the original untouched when the write fails", () => {
+			const filePath = join(dir, "missing-dir", "config.json");
+
+			expect(() => writeFileAtomic(filePath, "data")).toThrow();
+			expect(readdirSync(dir)).toEqual([]);
+		});
+	});
+
+	describe("withFileLock", () => {
+		it("should hold the lock only while the function runs", () => {
+			const lockPath = join(dir, ".lock");
+
+			const result = withFileLock(lockPath, () => {
+				expect(existsSync(lockPath)).toBe(true);
+				return 42;
+			});
+
+			expect(result).toBe(42);
+			expect(existsSync(lockPath)).toBe(false);
+		});
+
+		it("should be re-entrant within a process", () => {
+			const lockPath = join(dir, ".lock");
+
+			const result = withFileLock(lockPath, () => withFileLock(lockPath, () => "nested"));
+
+			expect(result).toBe("nested");
+			expect(existsSync(lockPath)).toBe(false);
+		});
+
+		it("should release the lock when the function throws", () => {
+			const lockPath = join(dir, ".lock");
+
+			expect(() =>
+				withFileLock(lockPath, () => {
+					throw new Error("boom");
+				}),
+			).toThrow("boom");
+			expect(existsSync(lockPath)).toBe(false);
+		});
+
+		it("should take over a lock left by a dead process", () => {
+			const lockPath = join(dir, ".lock");
+			const deadPid = spawnSync(process.execPath, ["-e", ""]).pid;
+			writeFileSync(
+				lockPath,
+				JSON.stringify({ pid: deadPid, hostname: hostname(), token: "stale", createdAt: 0 }),
+			);
+
+			expect(withFileLock(lockPath, () => "acquired", { timeout: 200 })).toBe("acquired");
+		});
+
+		it("should time out while a live process holds the lock", () => {
+			const lockPath = join(dir, ".lock");
+			writeFileSync(
+				lockPath,
+				JSON.stringify({ pid: process.pid, hostname: hostname(), token: "live", createdAt: 0 }),
+			);
+
+			expect(() => withFileLock(lockPath, () => "acquired", { timeout: 100 })).toThrow(
+				ConfigLockError,
+			);
+			expect(existsSync(lockPath)).toBe(true);
+		});
+
+		it("should not take over a lock a live process has held for long", () => {
+			const lockPath = join(dir, ".lock");
+			writeFileSync(
+				lockPath,
+				JSON.stringify({ pid: process.pid, hostname: hostname(), token: "live", createdAt: 0 }),
+			);
+			const longAgo = new Date(Date.now() - 60_000);
+			utimesSync(lockPath, longAgo, longAgo);
+
+			expect(() =>
+				withFileLock(lockPath, () => "acquired", { timeout: 100, staleAfter: 10 }),
+			).toThrow(ConfigLockError);
+			expect(JSON.parse(readFileSync(lockPath, "utf-8")).token).toBe("live");
+		});
+
+		it("should take over an old lock held on another host", () => {
+			const lockPath = join(dir, ".lock");
+			writeFileSync(
+				lockPath,
+				JSON.stringify({ pid: process.pid, hostname: "elsewhere", token: "foreign", createdAt: 0 }),
+			);
+			const longAgo = new Date(Date.now() - 60_000);
+			utimesSync(lockPath, longAgo, longAgo);
+
+			expect(withFileLock(lockPath, () => "acquired", { timeout: 200, staleAfter: 10 })).toBe(
+				"acquired",
+			);
+		});
+	});
+
+	describe("withFileLockAsync", () => {
+		it("should wait for the lock without blocking the event loop", async () => {
+			const lockPath = join(dir, ".lock");
+			writeFileSync(
+				lockPath,
+				JSON.stringify({ pid: process.pid, hostname: hostname(), token: "other", createdAt: 0 }),
+			);
+			let ticks = 0;
+			const ticker = setInterval(() => ticks++, 5);
+			setTimeout(() => rmSync(lockPath), 100);
+
+			const result = await withFileLockAsync(lockPath, () => existsSync(lockPath), {
+				timeout: 2000,
+			});
+			clearInterval(ticker);
+
+			expect(result).toBe(true);
+			expect(ticks).toBeGreaterThan(5);
+			expect(existsSync(lockPath)).toBe(false);
+		});
+
+		it("should time out while a live process holds the lock", async () => {
+			const lockPath = join(dir, ".lock");
+			writeFileSync(
+				lockPath,
+				JSON.stringify({ pid: process.pid, hostname: hostname(), token: "live", createdAt: 0 }),
+			);
+
+			await expect(withFileLockAsync(lockPath, () => "acquired", { timeout: 100 })).rejects.toThrow(
+				"Timed out after 100ms",
+			);
+		});
+	});
+
+	describe("concurrent config managers", () => {
+		it("should keep the config directory consistent across processes", async () => {
+			const workers = 4;
+			const iterations = 15;
+
+			const exitCodes = await Promise.all(
+				Array.from({ length: workers }, (_, workerId) => runWorker(dir, workerId, iterations)),
+			);
+			expect(exitCodes).toEqual(Array(workers).fill(0));
+
+			const files = readdirSync(dir);
+			expect(files.filter((file) => file.endsWith(".tmp"))).toEqual([]);
+			expect(files).not.toContain(".lock");
+
+			// Each worker leaves exactly its last config behind, plus the shared one
+			const configs = files.filter(
+				(file) => file.endsWith(".json") && file !== "current.json" && !file.startsWith("."),
+			);
+			expect(configs.sort()).toEqual(
+				[
+					"shared.json",
+					...Array.from({ length: workers }, (_, id) => `worker-${id}-${iterations - 1}.json`),
+				].sort(),
+			);
+
+			for (const file of files.filter((name) => name.endsWith(".json"))) {
+				expect(() => JSON.parse(readFileSync(join(dir, file), "utf-8"))).not.toThrow();
+			}
+
+			const current = JSON.parse(readFileSync(join(dir, "current.json"), "utf-8"));
+			expect(current.name === "" || configs.includes(`${current.name}.json`)).toBe(true);
+		}, 60000);
+	});
+});
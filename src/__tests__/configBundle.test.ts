@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import {
+	createConfigBundle,
+	getBundleFormat,
+	keepExistingSecrets,
+	openConfigBundle,
+	parseConfigBundle,
+	planConfigImport,
+	serializeConfigBundle,
+} from "../utils/configBundle";
+import type { AppConfig } from "../utils/configManager";
+import { ConfigBundleError } from "../utils/errors";
+import { isEncryptedValue, SecretCipher } from "../utils/secrets";
+
+const SECRET_PATHS = ["auth.token"];
+
+const CONFIGS = [
+	{ name: "base", auth: { token: "s3cret", user: "me" } },
+	{ name: "Dev Box", extends: "base", tags: ["eu"] },
+] as AppConfig[];
+
+describe("configBundle", () => {
+	describe("serializeConfigBundle and parseConfigBundle", () => {
+		it("should read back JSON and YAML bundles", () => {
+			const bundle = createConfigBundle(CONFIGS, {
+				active: "dev-box",
+				secretPaths: SECRET_PATHS,
+				secrets: "plain",
+			});
+
+			for (const format of ["json", "yaml"] as const) {
+				expect(parseConfigBundle(serializeConfigBundle(bundle, format), format)).toEqual(bundle);
+			}
+			expect(bundle).toMatchObject({ bundleVersion: 1, active: "dev-box", secrets: "plain" });
+		});
+
+		it("should reject files that are not bundles", () => {
+			expect(() => parseConfigBundle("{", "json")).toThrow(ConfigBundleError);
+			expect(() => parseConfigBundle('{"configs":[]}', "json")).toThrow(
+				/^Invalid configuration bundle: bundleVersion/,
+			);
+			expect(() =>
+				parseConfigBundle("bundleVersion: 1\nsecrets: plain\nconfigs: [{}]", "yaml"),
+			).toThrow(/configs\.0\.name/);
+		});
+
+		it("should pick the format from the file extension", () => {
+			expect(getBundleFormat("bundle.YML")).toBe("yaml");
+			expect(getBundleFormat("bundle.yaml")).toBe("yaml");
+			expect(getBundleFormat("bundle.json")).toBe("json");
+			expect(getBundleFormat("bundle")).toBe("json");
+		});
+	});
+
+	describe("secrets", () => {
+		it("should strip secrets", () => {
+			const bundle = createConfigBundle(CONFIGS, {
+				secretPaths: SECRET_PATHS,
+				secrets: "stripped",
+			});
+
+			expect(bundle.configs[0]).toEqual({ name: "base", auth: { user: "me" } });
+			expect(openConfigBundle(bundle, { secretPaths: SECRET_PATHS })[0]).toEqual(bundle.configs[0]);
+		});
+
+		it("should encrypt secrets with the bundle passphrase", () => {
+			const bundle = createConfigBundle(CONFIGS, {
+				secretPaths: SECRET_PATHS,
+				secrets: "encrypted",
+				cipher: new SecretCipher({ passphrase: "correct horse" }),
+			});
+
+			expect(isEncryptedValue((bundle.configs[0]?.auth as { token: unknown }).token)).toBe(true);
+			expect(() => openConfigBundle(bundle, { secretPaths: SECRET_PATHS })).toThrow(
+				ConfigBundleError,
+			);
+			expect(() =>
+				openConfigBundle(bundle, {
+					secretPaths: SECRET_PATHS,
+					cipher: new SecretCipher({ passphrase: "wrong" }),
+				}),
+			).toThrow(/auth\.token/);
+			expect(
+				openConfigBundle(bundle, {
+					secretPaths: SECRET_PATHS,
+					cipher: new SecretCipher({ passphrase: "correct horse" }),
+				}),
+			).toEqual(CONFIGS);
+		});
+
+		it("should keep the secrets of the configuration being replaced", () => {
+			const incoming = { name: "base", auth: { user: "you" } } as AppConfig;
+
+			expect(keepExistingSecrets(incoming, CONFIGS[0] as AppConfig, SECRET_PATHS)).toEqual({
+				name: "base",
+				auth: { user: "you", token: "s3cret" },
+			});
+		});
+	});
+
+	describe("planConfigImport", () => {
+		const children = [
+			{ name: "Dev Box", extends: "Base" },
+			{ name: "Base" },
+			{ name: "qa" },
+		] as AppConfig[];
+
+		it("should import the configurations extended first", () => {
+			const plan = planConfigImport(children, [], "error");
+
+			expect(plan.map(({ name, action }) => [name, action])).toEqual([
+				["Base", "create"],
+				["Dev Box", "create"],
+				["qa", "create"],
+			]);
+		});
+
+		it("should report conflicts unless told what to do", () => {
+			const actions = (strategy: Parameters<typeof planConfigImport>[2]) =>
+				planConfigImport(children, ["base", "qa"], strategy).map(({ action }) => action);
+
+			expect(actions("error")).toEqual(["conflict", "create", "conflict"]);
+			expect(actions("overwrite")).toEqual(["overwrite", "create", "overwrite"]);
+			expect(actions("skip")).toEqual(["skip", "create", "skip"]);
+		});
+
+		it("should rename to a free name and follow the rename in extends", () => {
+			const plan = planConfigImport(children, ["base", "base-2", "qa"], "rename");
+
+			expect(plan.map(({ targetName, config }) => config.extends ?? targetName)).toEqual([
+				"Base-3",
+				"Base-3",
+				"qa-2",
+			]);
+			expect(plan[1]).toMatchObject({ action: "create", targetName: "Dev Box" });
+		});
+	});
+});
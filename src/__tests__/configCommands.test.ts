@@ -0,0 +1,580 @@
+import { readdirSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { Readable } from "node:stream";
+import inquirer from "inquirer";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { copyConfig } from "../commands/config/copy";
+import { type CreateConfigOptions, createConfig } from "../commands/config/create";
+import { showCurrentConfig } from "../commands/config/current";
+import { deleteConfig } from "../commands/config/delete";
+import { diffConfigFiles } from "../commands/config/diff";
+import { editConfig } from "../commands/config/edit";
+import { exportConfigs } from "../commands/config/export";
+import { getConfigValue } from "../commands/config/get";
+import { showConfigHistory } from "../commands/config/history";
+import { importConfigs } from "../commands/config/import";
+import { renameConfig } from "../commands/config/rename";
+import { resolveEffectiveConfig } from "../commands/config/resolve";
+import { rollbackConfig } from "../commands/config/rollback";
+import { setConfigValue } from "../commands/config/set";
+import { unsetConfigValue } from "../commands/config/unset";
+import { useConfig } from "../commands/config/use";
+import { type AppConfig, configManager } from "../utils/configManager";
+
+vi.mock("../utils/configManager", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../utils/configManager")>();
+	const { mkdtempSync } = await import("node:fs");
+	const { tmpdir } = await import("node:os");
+	const { z } = await import("zod");
+	const rootDir = mkdtempSync(join(tmpdir(), "config-commands-test-"));
+	// Optional fields of other types, to check how values given as strings are converted
+	const schema = actual.AppConfigSchema.extend({
+		timeout: z.number().positive().optional(),
+		features: z.object({ enableCache: z.boolean() }).optional(),
+	});
+	return {
+		...actual,
+		configManager: actual.createConfigManager({
+			schema,
+			configDir: join(rootDir, "nested", "configs"),
+		}),
+	};
+});
+
+const configDir = configManager.getConfigDir();
+const rootDir = dirname(dirname(configDir));
+
+/**
+ * Maps every file below the temporary root to its contents
+ */
+function snapshot(dir: string = rootDir): Record<string, string> {
+	const files: Record<string, string> = {};
+	for (const entry of readdirSync(dir)) {
+		const path = join(dir, entry);
+		if (statSync(path).isDirectory()) {
+			Object.assign(files, snapshot(path));
+		} else {
+			files[path] = readFileSync(path, "utf-8");
+		}
+	}
+	return files;
+}
+
+const HOSTILE_NAMES = [
+	"../../.bashrc",
+	"..",
+	"a/b",
+	"a\\b",
+	"current",
+	"CON",
+	"dev\u0000",
+	"   ",
+	"x".repeat(51),
+];
+
+const NAMED_COMMANDS: [string, (name: string) => Promise<void>][] = [
+	["create", (name) => createConfig({ name, activate: true })],
+	["create (template)", (name) => createConfig({ name: "staging", template: name })],
+	["use", (name) => useConfig(name)],
+	["delete", (name) => deleteConfig(name)],
+	["rename (source)", (name) => renameConfig(name, "renamed")],
+	["rename (target)", (name) => renameConfig("dev", name)],
+	["copy (source)", (name) => copyConfig(name, "copied")],
+	["copy (target)", (name) => copyConfig("dev", name)],
+	["history", (name) => showConfigHistory(name)],
+	["export", (name) => exportConfigs([name], { output: join(rootDir, "bundle.json") })],
+	["rollback", (name) => rollbackConfig(name)],
+];
+
+/** Commands acting on the active configuration, which receive the name through --config */
+const ACTIVE_CONFIG_COMMANDS: [string, () => Promise<void>][] = [
+	["current", () => showCurrentConfig()],
+	["resolve", () => resolveEffectiveConfig()],
+	["get", () => getConfigValue("name")],
+	["set", () => setConfigValue("description", "pwned")],
+	["unset", () => unsetConfigValue("description")],
+	["edit", () => editConfig()],
+];
+
+beforeEach(() => {
+	for (const entry of readdirSync(configDir)) {
+		rmSync(join(configDir, entry), { recursive: true, force: true });
+	}
+	configManager.setConfigOverride(null);
+	process.exitCode = undefined;
+	vi.spyOn(console, "log").mockImplementation(() => undefined);
+	vi.spyOn(console, "info").mockImplementation(() => undefined);
+	vi.spyOn(console, "error").mockImplementation(() => undefined);
+	vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+	vi.restoreAllMocks();
+	vi.unstubAllEnvs();
+	process.exitCode = undefined;
+});
+
+afterAll(() => {
+	rmSync(rootDir, { recursive: true, force: true });
+});
+
+describe("config commands with hostile names", () => {
+	beforeEach(() => {
+		configManager.saveConfig({ name: "dev", description: "Development" });
+		configManager.setCurrentConfig("dev");
+	});
+
+	describe.each(NAMED_COMMANDS)("%s", (_command, run) => {
+		it.each(HOSTILE_NAMES)("should reject %j without writing anything", async (name) => {
+			const before = snapshot();
+
+			await run(name);
+
+			expect(process.exitCode).toBe(1);
+			expect(snapshot()).toEqual(before);
+		});
+	});
+
+	// A blank --config means no override, so it is left out here
+	describe.each(ACTIVE_CONFIG_COMMANDS)("%s --config", (_command, run) => {
+		it.each(HOSTILE_NAMES.filter((name) => name.trim()))(
+			"should reject %j without writing anything",
+			async (name) => {
+				configManager.setConfigOverride(name);
+				const before = snapshot();
+
+				await run();
+
+				expect(process.exitCode).toBe(1);
+				expect(snapshot()).toEqual(before);
+			},
+		);
+	});
+
+	it("should accept friendly display names", async () => {
+		await createConfig({ name: "My Staging (EU)", activate: true });
+		await renameConfig("my staging eu", "My Staging EU");
+
+		expect(process.exitCode).toBeUndefined();
+		expect(configManager.getCurrentConfig()).toBe("my-staging-eu");
+		expect(configManager.getConfig("my-staging-eu")?.name).toBe("My Staging EU");
+	});
+
+	it("should say that pin files are not updated on rename and delete", async () => {
+		const info = vi.mocked(console.info);
+		vi.spyOn(inquirer, "prompt").mockResolvedValue({ confirm: true });
+
+		await renameConfig("dev", "prod");
+		await deleteConfig("prod");
+
+		const lines = info.mock.calls.map((call) => call.join(" "));
+		expect(lines).toContainEqual(expect.stringContaining("naming 'dev' are not updated"));
+		expect(lines).toContainEqual(expect.stringContaining("naming 'prod' are not updated"));
+		expect(configManager.listConfigs()).toEqual([]);
+	});
+});
+
+describe("config edit", () => {
+	const editorScript = join(rootDir, "editor.cjs");
+	const editsFile = join(rootDir, "edits.json");
+
+	/**
+	 * Makes the editor apply the given replacements, one list per time it is opened,
+	 * and records what it was shown; it also writes `files` each time, as another process would
+	 */
+	function scriptEdits(edits: [string, string][][], files: Record<string, string> = {}): void {
+		writeFileSync(editsFile, JSON.stringify({ edits, files, shown: [] }));
+	}
+
+	/**
+	 * Reads what the editor was shown each time it was opened
+	 */
+	function readShown(): string[] {
+		return JSON.parse(readFileSync(editsFile, "utf-8")).shown;
+	}
+
+	beforeEach(() => {
+		configManager.saveConfig({ name: "dev", description: "Development", tags: ["eu"] });
+		configManager.setCurrentConfig("dev");
+		writeFileSync(
+			editorScript,
+			[
+				'const fs = require("node:fs");',
+				`const state = JSON.parse(fs.readFileSync(${JSON.stringify(editsFile)}, "utf-8"));`,
+				'let content = fs.readFileSync(process.argv[2], "utf-8");',
+				"const edits = state.edits[state.shown.length] ?? [];",
+				"state.shown.push(content);",
+				"for (const [from, to] of edits) content = content.replace(from, to);",
+				"fs.writeFileSync(process.argv[2], content);",
+				"for (const [path, data] of Object.entries(state.files)) fs.writeFileSync(path, data);",
+				`fs.writeFileSync(${JSON.stringify(editsFile)}, JSON.stringify(state));`,
+			].join("\n"),
+		);
+		vi.stubEnv("VISUAL", "");
+		vi.stubEnv("EDITOR", `node ${JSON.stringify(editorScript)}`);
+	});
+
+	it("should save the edited configuration", async () => {
+		scriptEdits([[['"Development"', '"Edited"']]]);
+
+		await editConfig();
+
+		expect(process.exitCode).toBeUndefined();
+		expect(configManager.getConfig("dev")?.description).toBe("Edited");
+		expect(readShown()[0]).toContain('"$schema": "file://');
+	});
+
+	it("should reopen the editor with the problems until the file is valid", async () => {
+		scriptEdits([[['"eu"', '""']], [['""', '"prod"']]]);
+
+		await editConfig("dev");
+
+		const shown = readShown();
+		expect(shown).toHaveLength(2);
+		expect(shown[1]).toContain("//   tags.0: Tags cannot be empty");
+		expect(configManager.getConfig("dev")?.tags).toEqual(["prod"]);
+	});
+
+	it("should reject renames and unknown keys", async () => {
+		scriptEdits([
+			[['"name": "dev"', '"name": "prod"']],
+			[
+				['"name": "prod"', '"name": "dev"'],
+				['"tags"', '"colour": "red",\n  "tags"'],
+			],
+		]);
+
+		await editConfig();
+
+		const shown = readShown();
+		expect(shown[1]).toContain("config rename' to change the configuration name");
+		expect(shown[2]).toContain("//   colour: Not part of the configuration schema");
+		expect(process.exitCode).toBe(1);
+		expect(configManager.getConfig("dev")?.description).toBe("Development");
+	});
+
+	it("should keep the edits instead of overwriting changes made meanwhile", async () => {
+		const changed = JSON.stringify({ schemaVersion: 1, name: "dev", description: "Elsewhere" });
+		scriptEdits([[['"Development"', '"Edited"']]], { [join(configDir, "dev.json")]: changed });
+		const info = vi.mocked(console.info);
+
+		await editConfig();
+
+		expect(process.exitCode).toBe(1);
+		expect(configManager.getConfig("dev")?.description).toBe("Elsewhere");
+		const keptFile = info.mock.calls
+			.map((call) => call.join(" "))
+			.find((line) => line.includes("Your version is kept in "))
+			?.split("Your version is kept in ")[1];
+		expect(readFileSync(String(keptFile), "utf-8")).toContain('"description": "Edited"');
+		rmSync(dirname(String(keptFile)), { recursive: true, force: true });
+	});
+
+	it("should not overwrite a change made after the editor closed", async () => {
+		scriptEdits([[['"Development"', '"Edited"']]]);
+		const changed = JSON.stringify({ schemaVersion: 1, name: "dev", description: "Elsewhere" });
+		const save = configManager.promises.saveConfig;
+		// Another process writes the file just before the save takes the lock
+		vi.spyOn(configManager.promises, "saveConfig").mockImplementationOnce((config, options) => {
+			writeFileSync(join(configDir, "dev.json"), changed);
+			return save(config, options);
+		});
+		const info = vi.mocked(console.info);
+
+		await editConfig();
+
+		expect(process.exitCode).toBe(1);
+		expect(configManager.getConfig("dev")?.description).toBe("Elsewhere");
+		const keptLine = info.mock.calls
+			.map((call) => call.join(" "))
+			.find((line) => line.includes("Your version is kept in "));
+		rmSync(dirname(String(keptLine?.split("Your version is kept in ")[1])), {
+			recursive: true,
+			force: true,
+		});
+	});
+
+	it("should cancel when the file is left unchanged", async () => {
+		scriptEdits([]);
+		const before = snapshot(configDir);
+
+		await editConfig();
+
+		expect(process.exitCode).toBeUndefined();
+		expect(snapshot(configDir)).toEqual(before);
+	});
+});
+
+describe("config export and import", () => {
+	const bundleFile = join(rootDir, "bundle.yaml");
+
+	beforeEach(() => {
+		configManager.saveConfig({ name: "base", description: "Base" });
+		configManager.saveConfig({ name: "Dev Box", extends: "base", tags: ["eu"] });
+		configManager.setCurrentConfig("dev-box");
+	});
+
+	it("should restore the configurations and the active one", async () => {
+		await exportConfigs([], { output: bundleFile });
+		configManager.deleteConfig("dev-box");
+		configManager.deleteConfig("base");
+
+		await importConfigs(bundleFile);
+
+		expect(process.exitCode).toBeUndefined();
+		expect(configManager.listConfigs().sort()).toEqual(["base", "dev-box"]);
+		expect(configManager.getConfig("dev-box")).toMatchObject({ description: "Base", tags: ["eu"] });
+		expect(configManager.getCurrentConfig()).toBe("dev-box");
+	});
+
+	it("should report conflicts without changing anything", async () => {
+		await exportConfigs(["base"], { output: bundleFile });
+		configManager.saveConfig({ name: "base", description: "Changed" });
+		const before = snapshot(configDir);
+
+		await importConfigs(bundleFile);
+
+		expect(process.exitCode).toBe(1);
+		expect(snapshot(configDir)).toEqual(before);
+
+		process.exitCode = undefined;
+		await importConfigs(bundleFile, { overwrite: true });
+
+		expect(process.exitCode).toBeUndefined();
+		expect(configManager.getConfig("base")?.description).toBe("Base");
+	});
+
+	it("should import nothing when a later configuration conflicts", async () => {
+		await exportConfigs([], { output: bundleFile });
+		configManager.deleteConfig("base", { force: true });
+		const before = snapshot(configDir);
+
+		await importConfigs(bundleFile);
+
+		expect(process.exitCode).toBe(1);
+		expect(snapshot(configDir)).toEqual(before);
+		expect(configManager.listConfigs()).toEqual(["dev-box"]);
+	});
+
+	it("should refuse conflicting flags", async () => {
+		await importConfigs(bundleFile, { skip: true, rename: true });
+		expect(process.exitCode).toBe(1);
+
+		process.exitCode = undefined;
+		await exportConfigs([], { stripSecrets: true, encryptSecrets: true });
+		expect(process.exitCode).toBe(1);
+	});
+});
+
+describe("config diff", () => {
+	it("should compare the values inherited through extends, keeping placeholders", async () => {
+		configManager.saveConfig({ name: "base", description: "${env:DIFF_TEST_UNSET}" });
+		configManager.saveConfig({ name: "eu", extends: "base", tags: ["eu"] });
+		configManager.saveConfig({ name: "staging", extends: "eu" });
+		configManager.saveConfig({ name: "prod", extends: "base", tags: ["eu", "prod"] });
+		const log = vi.mocked(console.log);
+
+		await diffConfigFiles("staging", "prod", { output: "json" });
+
+		expect(process.exitCode).toBe(1);
+		expect(JSON.parse(String(log.mock.calls[0]?.[0])).changes).toEqual([
+			{ path: "extends", kind: "changed", before: "eu", after: "base" },
+			{ path: "tags", kind: "changed", before: ["eu"], after: ["eu", "prod"] },
+		]);
+	});
+});
+
+describe("config create", () => {
+	beforeEach(() => {
+		configManager.saveConfig({ name: "dev" });
+		configManager.setCurrentConfig("dev");
+		// Without a TTY nothing is prompted for
+		vi.spyOn(process, "stdin", "get").mockReturnValue(Readable.from([]) as typeof process.stdin);
+	});
+
+	/**
+	 * Makes the given text the contents of stdin
+	 */
+	function pipeStdin(content: string): void {
+		vi.spyOn(process, "stdin", "get").mockReturnValue(
+			Readable.from([Buffer.from(content)]) as typeof process.stdin,
+		);
+	}
+
+	it("should create a configuration from flags, converting --set values", async () => {
+		await createConfig({
+			name: " staging ",
+			description: "Staging",
+			set: ["timeout=3000", "features.enableCache=true", 'tags=["eu"]'],
+			activate: false,
+		});
+
+		expect(process.exitCode).toBeUndefined();
+		expect(configManager.getConfig("staging")).toEqual({
+			name: "staging",
+			description: "Staging",
+			timeout: 3000,
+			features: { enableCache: true },
+			tags: ["eu"],
+		});
+		expect(configManager.getCurrentConfig()).toBe("dev");
+	});
+
+	it("should read values from a file, letting flags override them", async () => {
+		const file = join(rootDir, "staging.json");
+		writeFileSync(
+			file,
+			JSON.stringify({ name: "staging", description: "From file", timeout: 1000 }),
+		);
+
+		await createConfig({ fromFile: file, description: "From flag", set: ["timeout=2000"] });
+		rmSync(file);
+
+		expect(process.exitCode).toBeUndefined();
+		expect(configManager.getConfig("staging")).toEqual({
+			name: "staging",
+			description: "From flag",
+			timeout: 2000,
+		});
+		expect(configManager.getCurrentConfig()).toBe("staging");
+	});
+
+	it("should read values from stdin", async () => {
+		pipeStdin(JSON.stringify({ name: "staging", features: { enableCache: false } }));
+
+		await createConfig({ fromStdin: true, activate: false });
+
+		expect(process.exitCode).toBeUndefined();
+		expect(configManager.getConfig("staging")).toEqual({
+			name: "staging",
+			features: { enableCache: false },
+		});
+	});
+
+	it("should drop unknown keys from a configuration that extends another", async () => {
+		await createConfig({ name: "staging", set: ["extends=dev", "bogus=1"], activate: false });
+
+		expect(process.exitCode).toBeUndefined();
+		expect(configManager.getConfig("staging", { raw: true })).toEqual({
+			name: "staging",
+			extends: "dev",
+		});
+	});
+
+	it.each<[string, CreateConfigOptions, string?]>([
+		["a missing name", { description: "No name" }],
+		["a name that is taken", { name: "DEV" }],
+		["a value that is not a number", { name: "staging", set: ["timeout=soon"] }],
+		["a value that is not a boolean", { name: "staging", set: ["features.enableCache=maybe"] }],
+		["a value the schema rejects", { name: "staging", set: ["timeout=-1"] }],
+		["an assignment without a value", { name: "staging", set: ["timeout"] }],
+		["a file that does not exist", { fromFile: join(rootDir, "missing.json") }],
+		["invalid JSON in a file", { fromFile: join(rootDir, "input.json") }, "{ name: staging"],
+		["a file that is not an object", { fromFile: join(rootDir, "input.json") }, '["staging"]'],
+		["invalid JSON on stdin", { fromStdin: true }, "staging"],
+		["stdin that is not an object", { fromStdin: true }, '"staging"'],
+	])("should fail without writing anything given %s", async (_case, options, input) => {
+		if (input !== undefined && options.fromFile) {
+			writeFileSync(options.fromFile, input);
+		} else if (input !== undefined) {
+			pipeStdin(input);
+		}
+		const before = snapshot();
+
+		await createConfig(options);
+
+		expect(process.exitCode).toBe(1);
+		expect(snapshot()).toEqual(before);
+		rmSync(join(rootDir, "input.json"), { force: true });
+	});
+});
+
+describe("config set and unset", () => {
+	beforeEach(() => {
+		configManager.saveConfig({
+			name: "dev",
+			description: "Development",
+			timeout: 1000,
+			features: { enableCache: true },
+		} as AppConfig);
+		configManager.setCurrentConfig("dev");
+	});
+
+	it("should convert values to the type the schema expects", async () => {
+		await setConfigValue("timeout", "2500");
+		await setConfigValue("features.enableCache", "false");
+		await setConfigValue("tags", '["eu", "prod"]');
+		await setConfigValue("description", "42");
+
+		expect(process.exitCode).toBeUndefined();
+		expect(configManager.getConfig("dev")).toEqual({
+			name: "dev",
+			description: "42",
+			timeout: 2500,
+			features: { enableCache: false },
+			tags: ["eu", "prod"],
+		});
+	});
+
+	it.each([
+		["a value that is not a number", "timeout", "soon"],
+		["a number the schema rejects", "timeout", "0"],
+		["a value that is not a boolean", "features.enableCache", "maybe"],
+		["invalid JSON", "features", "{ enableCache: true"],
+		["JSON of the wrong type", "features", "[true]"],
+		["an array where a string is expected", "description.first", "x"],
+		["a string where an array is expected", "tags", '"eu"'],
+		["an unknown key", "region", "eu"],
+		["an unknown nested key", "features.region", "eu"],
+		["the name", "name", "prod"],
+	])("should reject %s without writing anything", async (_case, key, value) => {
+		const before = snapshot();
+
+		await setConfigValue(key, value);
+
+		expect(process.exitCode).toBe(1);
+		expect(snapshot()).toEqual(before);
+	});
+
+	it("should reject an unknown key in a configuration that extends another", async () => {
+		configManager.saveConfig({ name: "staging", extends: "dev" });
+		configManager.setCurrentConfig("staging");
+		const before = snapshot();
+
+		await setConfigValue("region", "eu");
+
+		expect(process.exitCode).toBe(1);
+		expect(snapshot()).toEqual(before);
+	});
+
+	it("should remove optional values", async () => {
+		await unsetConfigValue("features");
+
+		expect(process.exitCode).toBeUndefined();
+		expect(configManager.getConfig("dev")).toEqual({
+			name: "dev",
+			description: "Development",
+			timeout: 1000,
+		});
+	});
+
+	it("should refuse to unset a required field without writing anything", async () => {
+		const before = snapshot();
+
+		await unsetConfigValue("name");
+
+		expect(process.exitCode).toBe(1);
+		expect(snapshot()).toEqual(before);
+	});
+
+	it("should warn about a key that is not set without failing", async () => {
+		const warn = vi.mocked(console.warn);
+		const before = snapshot();
+
+		await unsetConfigValue("tags");
+
+		expect(process.exitCode).toBeUndefined();
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("Key 'tags' is not set"));
+		expect(snapshot()).toEqual(before);
+	});
+});
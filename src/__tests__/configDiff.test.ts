@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { diffConfigs, maskChanges, summarizeChanges } from "../utils/configDiff";
+import { SECRET_MASK } from "../utils/secrets";
+
+describe("configDiff", () => {
+	describe("diffConfigs", () => {
+		it("should report added, removed and changed leaf fields", () => {
+			const changes = diffConfigs(
+				{ name: "dev", description: "old", features: { enableCache: true } },
+				{ name: "dev", timeout: 1000, features: { enableCache: false } },
+			);
+
+			expect(changes).toEqual([
+				{ path: "description", kind: "removed", before: "old" },
+				{ path: "features.enableCache", kind: "changed", before: true, after: false },
+				{ path: "timeout", kind: "added", after: 1000 },
+			]);
+		});
+
+		it("should compare arrays as whole values", () => {
+			expect(diffConfigs({ tags: ["a", "b"] }, { tags: ["a", "b"] })).toEqual([]);
+			expect(diffConfigs({ tags: ["a"] }, { tags: ["a", "b"] })).toHaveLength(1);
+		});
+	});
+
+	describe("maskChanges", () => {
+		it("should mask schema secrets, credential-like names and encrypted values", () => {
+			const changes = maskChanges(
+				diffConfigs(
+					{ apiKey: "a", db: { password: "b" }, stored: "enc:v1:x", url: "https://a.test" },
+					{ apiKey: "c", db: { password: "d" }, stored: "enc:v1:y", url: "https://b.test" },
+				),
+				["stored"],
+			);
+
+			expect(changes).toEqual([
+				{ path: "apiKey", kind: "changed", before: SECRET_MASK, after: SECRET_MASK },
+				{ path: "db.password", kind: "changed", before: SECRET_MASK, after: SECRET_MASK },
+				{ path: "stored", kind: "changed", before: SECRET_MASK, after: SECRET_MASK },
+				{ path: "url", kind: "changed", before: "https://a.test", after: "https://b.test" },
+			]);
+		});
+
+		it("should not add values to one-sided changes", () => {
+			expect(maskChanges(diffConfigs({}, { token: "t" }))).toEqual([
+				{ path: "token", kind: "added", after: SECRET_MASK },
+			]);
+		});
+	});
+
+	describe("summarizeChanges", () => {
+		it("should list field names without values", () => {
+			const summary = summarizeChanges(diffConfigs({ apiKey: "one" }, { apiKey: "two", x: 1 }));
+
+			expect(summary).toBe("~apiKey, +x");
+			expect(summarizeChanges([])).toBe("no changes");
+		});
+	});
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { formatConfigDetails } from "../utils/configDisplay";
+
+const DisplaySchema = z.object({
+	name: z.string(),
+	description: z.string().optional(),
+	apiUrl: z.string().meta({ title: "API URL" }).optional(),
+	tags: z.array(z.string()).optional(),
+	retry: z
+		.object({
+			attempts: z.number(),
+			backoff: z.boolean().optional(),
+		})
+		.meta({ title: "Retries" })
+		.optional(),
+	headers: z.record(z.string(), z.string()).optional(),
+});
+
+describe("configDisplay", () => {
+	describe("formatConfigDetails", () => {
+		it("should label fields in schema order and indent nested objects", () => {
+			const config = {
+				headers: { "x-team": "core" },
+				retry: { attempts: 3 },
+				tags: ["eu", "prod"],
+				apiUrl: "https://example.com",
+				name: "dev",
+			};
+
+			expect(formatConfigDetails(config, DisplaySchema, ["name"])).toEqual([
+				"API URL: https://example.com",
+				"Tags: eu, prod",
+				"Retries:",
+				"  Attempts: 3",
+				'Headers: {"x-team":"core"}',
+			]);
+		});
+
+		it("should leave out excluded paths and keys the schema does not describe", () => {
+			const config = { name: "dev", retry: { attempts: 1, backoff: false }, extra: true };
+
+			expect(formatConfigDetails(config, DisplaySchema, ["retry.backoff"])).toEqual([
+				"Name: dev",
+				"Retries:",
+				"  Attempts: 1",
+			]);
+		});
+	});
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import {
+	addEditComments,
+	getEditorCommand,
+	splitEditorCommand,
+	stripEditComments,
+} from "../utils/configEditor";
+
+describe("configEditor", () => {
+	describe("getEditorCommand", () => {
+		it("should prefer $VISUAL over $EDITOR", () => {
+			expect(getEditorCommand({ VISUAL: "code --wait", EDITOR: "nano" })).toBe("code --wait");
+			expect(getEditorCommand({ VISUAL: " ", EDITOR: "nano" })).toBe("nano");
+			expect(getEditorCommand({})).toBe(process.platform === "win32" ? "notepad" : "vi");
+		});
+	});
+
+	describe("splitEditorCommand", () => {
+		it("should split on whitespace and keep quoted words together", () => {
+			expect(splitEditorCommand("code --wait")).toEqual(["code", "--wait"]);
+			expect(splitEditorCommand(`  "/opt/My Editor/bin/edit" -w  '' `)).toEqual([
+				"/opt/My Editor/bin/edit",
+				"-w",
+				"",
+			]);
+			expect(splitEditorCommand("vim -c 'set ft=json'")).toEqual(["vim", "-c", "set ft=json"]);
+		});
+
+		it("should reject unclosed quotes and empty commands", () => {
+			expect(() => splitEditorCommand('"code --wait')).toThrow("Unclosed quote");
+			expect(() => splitEditorCommand("   ")).toThrow("empty");
+		});
+	});
+
+	describe("addEditComments and stripEditComments", () => {
+		it("should give back the document without its comments", () => {
+			const body = '{\n  "url": "https://example.com//path"\n}\n';
+			const content = addEditComments(body, ["Editing 'dev'", "", "  apiUrl: Invalid URL"]);
+
+			expect(content).toBe(`// Editing 'dev'\n//\n//   apiUrl: Invalid URL\n${body}`);
+			expect(stripEditComments(content)).toBe(body);
+		});
+
+		it("should ignore comments the user adds anywhere", () => {
+			expect(stripEditComments('{\n  // note\n  "a": 1\n}')).toBe('{\n  "a": 1\n}');
+		});
+	});
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+	type ConfigListEntry,
+	filterConfigEntries,
+	matchesGlob,
+	sortConfigEntries,
+} from "../utils/configFilters";
+
+const ENTRIES: ConfigListEntry[] = [
+	{
+		name: "eu-prod",
+		config: { name: "EU Prod", tags: ["EU", "prod"] },
+		metadata: { updatedAt: "2026-01-03T00:00:00.000Z", lastUsedAt: "2026-01-04T00:00:00.000Z" },
+	},
+	{
+		name: "us-prod",
+		config: { name: "us-prod", tags: ["us", "prod"] },
+		metadata: { updatedAt: "2026-01-05T00:00:00.000Z" },
+	},
+	{
+		name: "dev",
+		config: { name: "dev" },
+		metadata: { updatedAt: "2026-01-01T00:00:00.000Z", lastUsedAt: "2026-01-06T00:00:00.000Z" },
+	},
+	{ name: "broken", config: null, metadata: null },
+];
+
+/**
+ * Lists the slugs of entries, in order
+ */
+function names(entries: ConfigListEntry[]): string[] {
+	return entries.map(({ name }) => name);
+}
+
+describe("configFilters", () => {
+	describe("matchesGlob", () => {
+		it("should match the whole value with * and ?, ignoring case", () => {
+			expect(matchesGlob("eu-prod", "*-prod")).toBe(true);
+			expect(matchesGlob("EU Prod", "eu*")).toBe(true);
+			expect(matchesGlob("dev2", "dev?")).toBe(true);
+			expect(matchesGlob("dev", "dev?")).toBe(false);
+			expect(matchesGlob("eu-prod", "prod")).toBe(false);
+			expect(matchesGlob("a.b", "a.b")).toBe(true);
+			expect(matchesGlob("axb", "a.b")).toBe(false);
+		});
+	});
+
+	describe("filterConfigEntries", () => {
+		it("should require every tag", () => {
+			expect(names(filterConfigEntries(ENTRIES, { tags: ["prod"] }))).toEqual([
+				"eu-prod",
+				"us-prod",
+			]);
+			expect(names(filterConfigEntries(ENTRIES, { tags: ["prod", "eu"] }))).toEqual(["eu-prod"]);
+		});
+
+		it("should match the pattern against the slug or the display name", () => {
+			expect(names(filterConfigEntries(ENTRIES, { pattern: "EU P*" }))).toEqual(["eu-prod"]);
+			expect(names(filterConfigEntries(ENTRIES, { pattern: "b*" }))).toEqual(["broken"]);
+			expect(names(filterConfigEntries(ENTRIES, {}))).toEqual(names(ENTRIES));
+		});
+	});
+
+	describe("sortConfigEntries", () => {
+		it("should sort by name, or most recent first with unknown times last", () => {
+			expect(names(sortConfigEntries(ENTRIES, "name"))).toEqual([
+				"broken",
+				"dev",
+				"eu-prod",
+				"us-prod",
+			]);
+			expect(names(sortConfigEntries(ENTRIES, "updated"))).toEqual([
+				"us-prod",
+				"eu-prod",
+				"dev",
+				"broken",
+			]);
+			expect(names(sortConfigEntries(ENTRIES, "used"))).toEqual([
+				"dev",
+				"eu-prod",
+				"broken",
+				"us-prod",
+			]);
+		});
+	});
+});
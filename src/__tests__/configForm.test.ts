@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+	buildFormQuestion,
+	collectFormAnswers,
+	type FormField,
+	getFormFields,
+	selectFormFields,
+	toFieldValue,
+} from "../utils/configForm";
+import { secret } from "../utils/secrets";
+
+const FormSchema = z.object({
+	name: z.string().min(1),
+	description: z.string().optional(),
+	apiUrl: z.url("Invalid URL").meta({ title: "API URL" }),
+	apiKey: secret(z.string().min(1)).optional(),
+	timeout: z.number().positive().default(5000),
+	environment: z.enum(["development", "staging", "production"]).optional(),
+	tags: z.array(z.string()).optional(),
+	retry: z
+		.object({
+			attempts: z.number().int(),
+			backoff: z.boolean(),
+		})
+		.optional(),
+	headers: z.record(z.string(), z.string()).optional(),
+});
+
+/**
+ * Finds a field of the test schema by path
+ */
+function getField(path: string): FormField {
+	const field = getFormFields(FormSchema).find((candidate) => candidate.path === path);
+	if (!field) {
+		throw new Error(`No field ${path}`);
+	}
+	return field;
+}
+
+/**
+ * Runs the validation of a question
+ */
+function validate(field: FormField, answer: unknown, allowMissing = false): unknown {
+	const question = buildFormQuestion(field, { allowMissing }) as {
+		validate: (input: unknown) => unknown;
+	};
+	return question.validate(answer);
+}
+
+describe("configForm", () => {
+	describe("getFormFields", () => {
+		it("should pick a prompt for every field", () => {
+			const fields = getFormFields(FormSchema, ["name"]);
+
+			expect(
+				fields.map(({ path, label, kind, required, section }) => ({
+					path,
+					label,
+					kind,
+					required,
+					section,
+				})),
+			).toEqual([
+				{ path: "description", label: "Description", kind: "text", required: false, section: [] },
+				{ path: "apiUrl", label: "API URL", kind: "text", required: true, section: [] },
+				{ path: "apiKey", label: "Api key", kind: "password", required: false, section: [] },
+				{ path: "timeout", label: "Timeout", kind: "number", required: false, section: [] },
+				{
+					path: "environment",
+					label: "Environment",
+					kind: "select",
+					required: false,
+					section: [],
+				},
+				{ path: "tags", label: "Tags", kind: "list", required: false, section: [] },
+				{
+					path: "retry.attempts",
+					label: "Attempts",
+					kind: "number",
+					required: false,
+					section: ["Retry"],
+				},
+				{
+					path: "retry.backoff",
+					label: "Backoff",
+					kind: "confirm",
+					required: false,
+					section: ["Retry"],
+				},
+				{ path: "headers", label: "Headers", kind: "json", required: false, section: [] },
+			]);
+			expect(getField("environment").choices).toEqual(["development", "staging", "production"]);
+		});
+	});
+
+	describe("selectFormFields", () => {
+		it("should ask for the fields without a value", () => {
+			const fields = selectFormFields(getFormFields(FormSchema), {
+				values: { name: "dev", apiUrl: "https://example.com", retry: { attempts: 3 } },
+			});
+
+			expect(fields.map(({ path }) => path)).not.toContain("apiUrl");
+			expect(fields.map(({ path }) => path)).not.toContain("retry.attempts");
+			expect(fields.map(({ path }) => path)).toContain("retry.backoff");
+		});
+
+		it("should only ask for the given paths, requiring an answer", () => {
+			const fields = selectFormFields(getFormFields(FormSchema), {
+				values: { description: "Prefilled" },
+				paths: ["description", "retry", "extra.value"],
+			});
+
+			expect(fields.map(({ path, kind, required }) => ({ path, kind, required }))).toEqual([
+				{ path: "description", kind: "text", required: true },
+				{ path: "retry.attempts", kind: "number", required: true },
+				{ path: "retry.backoff", kind: "confirm", required: true },
+				{ path: "extra.value", kind: "json", required: true },
+			]);
+		});
+	});
+
+	describe("buildFormQuestion", () => {
+		it("should prefill known values, then schema defaults", () => {
+			expect(buildFormQuestion(getField("timeout"))).toMatchObject({
+				type: "number",
+				name: "timeout",
+				message: "Timeout (optional):",
+				default: 5000,
+			});
+			expect(
+				buildFormQuestion(getField("tags"), { values: { tags: ["eu", "prod"] } }),
+			).toMatchObject({ type: "input", default: "eu, prod" });
+			expect(buildFormQuestion(getField("apiUrl"))).toMatchObject({
+				type: "input",
+				message: "API URL:",
+			});
+		});
+
+		it("should never prefill secrets", () => {
+			const question = buildFormQuestion(getField("apiKey"), { values: { apiKey: "s3cret" } });
+
+			expect(question).toMatchObject({ type: "password", mask: "*" });
+			expect(question).not.toHaveProperty("default");
+		});
+
+		it("should offer to leave optional choices unset", () => {
+			const question = buildFormQuestion(getField("environment")) as {
+				choices: { name: string }[];
+			};
+
+			expect(question.choices.map(({ name }) => name)).toEqual([
+				"development",
+				"staging",
+				"production",
+				"(none)",
+			]);
+		});
+
+		it("should validate answers with the schema", () => {
+			expect(validate(getField("apiUrl"), "not a url")).toBe("Invalid URL");
+			expect(validate(getField("apiUrl"), "")).toBe("API URL is required");
+			expect(validate(getField("apiUrl"), "", true)).toBe(true);
+			expect(validate(getField("apiUrl"), "${env:API_URL}")).toBe(true);
+			expect(validate(getField("apiUrl"), "https://example.com")).toBe(true);
+			expect(validate(getField("timeout"), -1)).toMatch(/>0/);
+			expect(validate(getField("timeout"), undefined)).toBe(true);
+			expect(validate(getField("headers"), "[1]")).toMatch(/record|object/i);
+			expect(validate(getField("headers"), "{")).toBe("Expected an object as JSON but got '{'");
+		});
+	});
+
+	describe("collectFormAnswers", () => {
+		it("should convert answers and leave blank ones out", () => {
+			const fields = getFormFields(FormSchema, ["name"]);
+			const answers = {
+				description: "  Local  ",
+				apiUrl: "https://example.com",
+				apiKey: "",
+				timeout: Number.NaN,
+				tags: "eu, , prod",
+				retry: { attempts: 3, backoff: true },
+				headers: '{"x-team":"core"}',
+			};
+
+			expect(collectFormAnswers(fields, answers)).toEqual({
+				description: "Local",
+				apiUrl: "https://example.com",
+				tags: ["eu", "prod"],
+				retry: { attempts: 3, backoff: true },
+				headers: { "x-team": "core" },
+			});
+		});
+
+		it("should leave a field unset when (none) is picked", () => {
+			const field = getField("environment");
+			const question = buildFormQuestion(field) as { choices: { value: unknown }[] };
+			const none = question.choices[question.choices.length - 1]?.value;
+
+			expect(toFieldValue(field, none)).toBeUndefined();
+			expect(toFieldValue(field, "staging")).toBe("staging");
+		});
+	});
+});
@@ -0,0 +1,95 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { hasPlaceholders, interpolateConfig } from "../utils/configInterpolation";
+import { ConfigInterpolationError } from "../utils/errors";
+
+describe("configInterpolation", () => {
+	let baseDir: string;
+	let configs: Record<string, Record<string, unknown>>;
+
+	const expand = (data: Record<string, unknown>, env: NodeJS.ProcessEnv = {}) =>
+		interpolateConfig(data, "dev", {
+			env,
+			baseDir,
+			loadConfig: (name) => configs[name] ?? null,
+		});
+
+	beforeEach(() => {
+		baseDir = mkdtempSync(join(tmpdir(), "config-interpolation-test-"));
+		configs = {};
+	});
+
+	afterEach(() => {
+		rmSync(baseDir, { recursive: true, force: true });
+	});
+
+	describe("hasPlaceholders", () => {
+		it("should detect unescaped placeholders in strings", () => {
+			expect(hasPlaceholders("${env:TOKEN}")).toBe(true);
+			expect(hasPlaceholders("https://${config:base.host}/v1")).toBe(true);
+			expect(hasPlaceholders("$${env:TOKEN}")).toBe(false);
+			expect(hasPlaceholders("${HOME}")).toBe(false);
+			expect(hasPlaceholders(42)).toBe(false);
+		});
+	});
+
+	describe("interpolateConfig", () => {
+		it("should expand environment variables and files", () => {
+			writeFileSync(join(baseDir, "token.txt"), "s3cr3t\n");
+
+			expect(
+				expand(
+					{ name: "dev", apiKey: "${file:token.txt}", user: "${env:USER_NAME}@host" },
+					{ USER_NAME: "ada" },
+				),
+			).toEqual({ name: "dev", apiKey: "s3cr3t", user: "ada@host" });
+		});
+
+		it("should expand nested objects and arrays", () => {
+			expect(
+				expand({ hosts: ["${env:HOST}"], features: { url: "${env:HOST}" } }, { HOST: "h" }),
+			).toEqual({ hosts: ["h"], features: { url: "h" } });
+		});
+
+		it("should follow references to other configurations", () => {
+			configs.base = { name: "base", apiUrl: "https://${env:DOMAIN}", timeout: 3000 };
+
+			expect(
+				expand(
+					{ apiUrl: "${config:base.apiUrl}/v2", timeout: "${config:Base.timeout}" },
+					{ DOMAIN: "api.test" },
+				),
+			).toEqual({ apiUrl: "https://api.test/v2", timeout: 3000 });
+		});
+
+		it("should keep escaped placeholders as literal text", () => {
+			expect(expand({ template: "$${env:HOME} and ${HOME}" })).toEqual({
+				template: "${env:HOME} and ${HOME}",
+			});
+		});
+
+		it("should report unresolved placeholders with their location", () => {
+			configs.base = { name: "base" };
+
+			expect(() => expand({ features: { token: "${env:MISSING}" } })).toThrow(
+				"Cannot resolve 'features.token' in configuration 'dev': ${env:MISSING} refers to environment variable MISSING, which is not set",
+			);
+			expect(() => expand({ url: "${config:base.apiUrl}" })).toThrow("not set in 'base'");
+			expect(() => expand({ url: "${config:ghost.apiUrl}" })).toThrow("does not exist");
+			expect(() => expand({ url: "${file:missing.txt}" })).toThrow("could not be read");
+			expect(() => expand({ url: "${vault:x}" })).toThrow("unknown source 'vault'");
+			expect(() => expand({ url: "${config:base}" })).toThrow(ConfigInterpolationError);
+		});
+
+		it("should detect circular references", () => {
+			configs.dev = { name: "dev", a: "${config:base.b}" };
+			configs.base = { name: "base", b: "${config:dev.a}" };
+
+			expect(() => expand(configs.dev as Record<string, unknown>)).toThrow(
+				"is circular: dev.a -> base.b -> dev.a",
+			);
+		});
+	});
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { toConfigJsonSchema } from "../utils/configJsonSchema";
+import { AppConfigSchema } from "../utils/configManager";
+import { secret } from "../utils/secrets";
+
+const ApiConfigSchema = AppConfigSchema.extend({
+	apiUrl: z.url(),
+	timeout: z.number().positive().default(5000),
+	auth: z.object({ token: secret(z.string()).optional() }).optional(),
+});
+
+describe("configJsonSchema", () => {
+	it("should describe the stored file, with defaults left optional", () => {
+		const jsonSchema = toConfigJsonSchema(ApiConfigSchema, { title: "Test CLI configuration" });
+
+		expect(jsonSchema).toMatchObject({
+			$schema: "http://json-schema.org/draft-07/schema#",
+			title: "Test CLI configuration",
+			type: "object",
+			required: ["name", "apiUrl"],
+		});
+		expect(Object.keys(jsonSchema.properties as object)).toEqual([
+			"$schema",
+			"schemaVersion",
+			"name",
+			"description",
+			"tags",
+			"extends",
+			"apiUrl",
+			"timeout",
+			"auth",
+		]);
+		expect(jsonSchema.properties).toMatchObject({
+			name: { type: "string", description: "Configuration name", maxLength: 50 },
+			timeout: { type: "number", default: 5000 },
+		});
+	});
+
+	it("should accept the encrypted form of secret fields", () => {
+		const jsonSchema = toConfigJsonSchema(ApiConfigSchema, {
+			secretPaths: ["auth.token", "missing.path"],
+		});
+
+		expect(jsonSchema.properties).toMatchObject({
+			auth: {
+				properties: {
+					token: {
+						anyOf: [{ type: "string" }, { type: "string", pattern: "^enc:v1:" }],
+					},
+				},
+			},
+		});
+	});
+});
@@ -1,5 +1,36 @@
-import { describe, expect, it } from "vitest";
-import { AppConfigSchema } from "../utils/configManager";
+import {
+	chmodSync,
+	existsSync,
+	mkdirSync,
+	mkdtempSync,
+	readdirSync,
+	readFileSync,
+	rmSync,
+	statSync,
+	writeFileSync,
+} from "node:fs";
+import { hostname, tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { type AppConfig, AppConfigSchema, createConfigManager } from "../utils/configManager";
+import {
+	ConfigError,
+	ConfigInheritanceError,
+	ConfigValidationError,
+	InvalidConfigNameError,
+} from "../utils/errors";
+import { SECRET_MASK, secret } from "../utils/secrets";
+
+const ExtendedConfigSchema = AppConfigSchema.extend({
+	apiUrl: z.url(),
+	timeout: z.number().positive().default(5000),
+	features: z
+		.object({
+			enableCache: z.boolean(),
+		})
+		.optional(),
+});
 
 describe("configManager", () => {
 	describe("AppConfigSchema", () => {
@@ -48,5 +79,1225 @@ describe("configManager", () => {
 			const result = AppConfigSchema.safeParse(invalidConfig);
 			expect(result.success).toBe(false);
 		});
+
+		it("should reject names that violate the naming policy", () => {
+			for (const name of ["../evil", "current", "--"]) {
+				expect(AppConfigSchema.safeParse({ name }).success).toBe(false);
+			}
+			expect(AppConfigSchema.safeParse({ name: "My Staging (EU)" }).success).toBe(true);
+		});
+	});
+
+	describe("createConfigManager", () => {
+		let configDir: string;
+
+		beforeEach(() => {
+			configDir = mkdtempSync(join(tmpdir(), "config-manager-test-"));
+		});
+
+		afterEach(() => {
+			rmSync(configDir, { recursive: true, force: true });
+		});
+
+		it("should apply schema defaults when reading", () => {
+			const manager = createConfigManager({ schema: ExtendedConfigSchema, configDir });
+			writeFileSync(
+				join(configDir, "dev.json"),
+				JSON.stringify({ name: "dev", apiUrl: "https://api.example.com" }),
+			);
+
+			expect(manager.getConfig("dev")).toEqual({
+				name: "dev",
+				apiUrl: "https://api.example.com",
+				timeout: 5000,
+			});
+		});
+
+		it("should validate extended fields on save", () => {
+			const manager = createConfigManager({ schema: ExtendedConfigSchema, configDir });
+
+			const saved = manager.saveConfig({
+				name: "dev",
+				apiUrl: "not a url",
+				timeout: 1000,
+			});
+
+			expect(saved).toBe(false);
+			expect(manager.configExists("dev")).toBe(false);
+		});
+
+		it("should strip unknown keys when saving", () => {
+			const manager = createConfigManager({ schema: ExtendedConfigSchema, configDir });
+			const config = { name: "dev", apiUrl: "https://api.example.com", timeout: 1000, extra: 1 };
+
+			expect(manager.saveConfig(config)).toBe(true);
+			expect(JSON.parse(readFileSync(join(configDir, "dev.json"), "utf-8"))).not.toHaveProperty(
+				"extra",
+			);
+		});
+
+		it("should refuse to save over a configuration changed since it was read", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "dev", description: "Read" });
+			const expected = manager.getConfig("dev", { raw: true }) as AppConfig;
+			manager.saveConfig({ name: "dev", description: "Elsewhere" });
+
+			expect(manager.saveConfig({ name: "dev", description: "Mine" }, { expected })).toBe(false);
+			expect(manager.getConfig("dev")?.description).toBe("Elsewhere");
+
+			const latest = manager.getConfig("dev", { raw: true }) as AppConfig;
+			expect(manager.saveConfig({ name: "dev", description: "Mine" }, { expected: latest })).toBe(
+				true,
+			);
+			expect(manager.getConfig("dev")?.description).toBe("Mine");
+		});
+
+		it("should return null for stored configs that fail validation", () => {
+			const manager = createConfigManager({ schema: ExtendedConfigSchema, configDir });
+			writeFileSync(join(configDir, "dev.json"), JSON.stringify({ name: "dev", timeout: -1 }));
+
+			expect(manager.getConfig("dev")).toBeNull();
+		});
+
+		it("should describe every failing field in validation errors", () => {
+			const manager = createConfigManager({ schema: ExtendedConfigSchema, configDir });
+
+			try {
+				manager.validateConfig(
+					{ name: "dev", apiUrl: "nope", features: { enableCache: "yes" } },
+					"dev",
+				);
+				expect.unreachable();
+			} catch (error) {
+				expect(error).toBeInstanceOf(ConfigValidationError);
+				const validationError = error as ConfigValidationError;
+				expect(validationError.configName).toBe("dev");
+				expect(validationError.issues.map((issue) => issue.path)).toEqual([
+					"apiUrl",
+					"features.enableCache",
+				]);
+				expect(validationError.message).toContain("features.enableCache");
+			}
+		});
+
+		it("should default to the base schema", () => {
+			const manager = createConfigManager({ configDir });
+
+			expect(manager.getSchema()).toBe(AppConfigSchema);
+			expect(manager.saveConfig({ name: "dev" })).toBe(true);
+			expect(manager.listConfigs()).toEqual(["dev"]);
+		});
+	});
+
+	describe("placeholders", () => {
+		let configDir: string;
+
+		beforeEach(() => {
+			configDir = mkdtempSync(join(tmpdir(), "config-placeholder-test-"));
+		});
+
+		afterEach(() => {
+			vi.unstubAllEnvs();
+			rmSync(configDir, { recursive: true, force: true });
+		});
+
+		it("should store placeholders as written and expand them on read", () => {
+			const manager = createConfigManager({ schema: ExtendedConfigSchema, configDir });
+			vi.stubEnv("DEMO_TEST_HOST", "api.test");
+
+			expect(
+				manager.saveConfig({ name: "base", apiUrl: "https://${env:DEMO_TEST_HOST}", timeout: 1 }),
+			).toBe(true);
+			expect(
+				manager.saveConfig({ name: "dev", apiUrl: "${config:base.apiUrl}/v2", timeout: 1 }),
+			).toBe(true);
+
+			expect(readFileSync(join(configDir, "dev.json"), "utf-8")).toContain(
+				"${config:base.apiUrl}/v2",
+			);
+			expect(manager.getConfig("dev")?.apiUrl).toBe("https://api.test/v2");
+			expect(manager.getConfig("dev", { raw: true })?.apiUrl).toBe("${config:base.apiUrl}/v2");
+		});
+
+		it("should validate values once expanded", () => {
+			const manager = createConfigManager({ schema: ExtendedConfigSchema, configDir });
+			vi.stubEnv("DEMO_TEST_URL", "not a url");
+			manager.saveConfig({ name: "dev", apiUrl: "${env:DEMO_TEST_URL}", timeout: 1 });
+			manager.setCurrentConfig("dev");
+
+			expect(manager.getCurrentConfigData()).toBeNull();
+			expect(manager.getCurrentConfigData({ raw: true })?.apiUrl).toBe("${env:DEMO_TEST_URL}");
+			expect(() => manager.validateConfig({ name: "dev", apiUrl: "nope" })).toThrow(
+				ConfigValidationError,
+			);
+		});
+
+		it("should return null when a placeholder cannot be resolved", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "dev", description: "${env:DEMO_TEST_UNSET}" });
+
+			expect(manager.getConfig("dev")).toBeNull();
+			expect(manager.getConfig("dev", { raw: true })).toEqual({
+				name: "dev",
+				description: "${env:DEMO_TEST_UNSET}",
+			});
+		});
+	});
+
+	describe("inheritance", () => {
+		let configDir: string;
+
+		beforeEach(() => {
+			configDir = mkdtempSync(join(tmpdir(), "config-extends-test-"));
+		});
+
+		afterEach(() => {
+			rmSync(configDir, { recursive: true, force: true });
+		});
+
+		it("should merge chained parents beneath the child and validate the result", () => {
+			const manager = createConfigManager({ schema: ExtendedConfigSchema, configDir });
+			manager.saveConfig({
+				name: "base",
+				apiUrl: "https://api.test",
+				timeout: 1000,
+				features: { enableCache: true },
+			});
+			expect(manager.saveConfig({ name: "staging", extends: "base", timeout: 2000 } as never)).toBe(
+				true,
+			);
+			expect(
+				manager.saveConfig({ name: "prod", extends: "Staging", description: "Prod" } as never),
+			).toBe(true);
+
+			expect(manager.getConfig("prod")).toEqual({
+				name: "prod",
+				extends: "Staging",
+				description: "Prod",
+				apiUrl: "https://api.test",
+				timeout: 2000,
+				features: { enableCache: true },
+			});
+			expect(manager.getConfig("prod", { raw: true })).toEqual({
+				name: "prod",
+				extends: "Staging",
+				description: "Prod",
+			});
+			expect(manager.getConfigChain("prod")?.map(({ name }) => name)).toEqual([
+				"base",
+				"staging",
+				"prod",
+			]);
+		});
+
+		it("should reject children that are invalid once merged", () => {
+			const manager = createConfigManager({ schema: ExtendedConfigSchema, configDir });
+			manager.saveConfig({ name: "base", apiUrl: "https://api.test", timeout: 1 });
+
+			expect(() =>
+				manager.validateConfig({ name: "dev", extends: "base", apiUrl: "nope" }),
+			).toThrow(ConfigValidationError);
+			expect(() => manager.validateConfig({ name: "dev", extends: "ghost" })).toThrow(
+				"'ghost' does not exist",
+			);
+		});
+
+		it("should keep only the values a child sets that the schema describes", () => {
+			const manager = createConfigManager({ schema: ExtendedConfigSchema, configDir });
+			manager.saveConfig({
+				name: "base",
+				apiUrl: "https://api.test",
+				timeout: 1000,
+				features: { enableCache: true },
+			});
+
+			expect(
+				manager.validateConfig({
+					name: "dev",
+					extends: "base",
+					bogus: 1,
+					features: { enableCache: false, region: "eu" },
+				}),
+			).toEqual({ name: "dev", extends: "base", features: { enableCache: false } });
+
+			manager.saveConfig({ name: "dev", extends: "base", bogus: 1 } as never);
+			expect(manager.getConfig("dev", { raw: true })).toEqual({ name: "dev", extends: "base" });
+		});
+
+		it("should detect circular inheritance", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "a" });
+			manager.saveConfig({ name: "b", extends: "a" });
+			writeFileSync(join(configDir, "a.json"), JSON.stringify({ name: "a", extends: "b" }));
+
+			expect(() => manager.validateConfig({ name: "a", extends: "b" })).toThrow(
+				ConfigInheritanceError,
+			);
+			expect(manager.getConfig("b")).toBeNull();
+			expect(manager.checkConfigDirectory().map(({ code }) => code)).toContain("broken-extends");
+		});
+
+		it("should refuse to delete an extended configuration unless forced", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "base", description: "Shared" });
+			manager.saveConfig({ name: "mid", extends: "base" });
+			manager.saveConfig({ name: "leaf", extends: "mid" });
+
+			expect(manager.listDependentConfigs("base")).toEqual(["mid"]);
+			expect(manager.deleteConfig("base")).toBe(false);
+			expect(manager.deleteConfig("mid", { force: true })).toBe(true);
+
+			expect(manager.getConfig("leaf", { raw: true })).toEqual({
+				name: "leaf",
+				extends: "base",
+			});
+			expect(manager.deleteConfig("base", { force: true })).toBe(true);
+			expect(manager.getConfig("leaf", { raw: true })).toEqual({
+				name: "leaf",
+				description: "Shared",
+			});
+		});
+
+		it("should point children at the new name on rename", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "base", description: "Shared" });
+			manager.saveConfig({ name: "dev", extends: "base" });
+
+			expect(manager.renameConfig("base", "shared")).toBe(true);
+			expect(manager.getConfig("dev")).toEqual({
+				name: "dev",
+				extends: "shared",
+				description: "Shared",
+			});
+		});
+	});
+
+	describe("config names", () => {
+		let configDir: string;
+
+		beforeEach(() => {
+			configDir = mkdtempSync(join(tmpdir(), "config-names-test-"));
+		});
+
+		afterEach(() => {
+			rmSync(configDir, { recursive: true, force: true });
+		});
+
+		it("should store configurations under the slug of their name", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "My Staging (EU)" });
+			manager.setCurrentConfig("my staging eu");
+
+			expect(readdirSync(configDir)).toContain("my-staging-eu.json");
+			expect(manager.listConfigs()).toEqual(["my-staging-eu"]);
+			expect(manager.getConfig("MY STAGING EU")).toEqual({ name: "My Staging (EU)" });
+			expect(manager.getCurrentConfig()).toBe("my-staging-eu");
+		});
+
+		it("should treat names differing only by case as the same configuration", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "Prod" });
+
+			expect(manager.configExists("PROD")).toBe(true);
+			expect(manager.renameConfig("Prod", "PROD")).toBe(true);
+			expect(manager.getConfig("prod")).toEqual({ name: "PROD" });
+			expect(manager.listConfigs()).toEqual(["prod"]);
+		});
+
+		it("should never touch files outside the configuration directory", () => {
+			const manager = createConfigManager({ configDir: join(configDir, "configs") });
+			writeFileSync(join(configDir, "victim.json"), JSON.stringify({ name: "victim" }));
+
+			expect(manager.configExists("../victim")).toBe(false);
+			expect(manager.getConfig("../victim")).toBeNull();
+			expect(manager.deleteConfig("../victim")).toBe(false);
+			expect(manager.saveConfig({ name: "../victim" })).toBe(false);
+			expect(manager.setCurrentConfig("../victim")).toBe(false);
+			expect(() => manager.getConfigHistory("../victim")).toThrow(InvalidConfigNameError);
+
+			expect(readFileSync(join(configDir, "victim.json"), "utf-8")).toBe('{"name":"victim"}');
+		});
+
+		it("should ignore and repair files not named after a slug", () => {
+			const manager = createConfigManager({ configDir });
+			writeFileSync(join(configDir, "My Dev.json"), JSON.stringify({ name: "My Dev" }), {
+				mode: 0o600,
+			});
+
+			expect(manager.listConfigs()).toEqual([]);
+			expect(manager.checkConfigDirectory({ fix: true })).toMatchObject([
+				{ file: "My Dev.json", code: "invalid-file-name", fix: "Renamed to my-dev.json" },
+			]);
+			expect(manager.listConfigs()).toEqual(["my-dev"]);
+		});
+	});
+
+	describe("promise-based API", () => {
+		let configDir: string;
+
+		beforeEach(() => {
+			configDir = mkdtempSync(join(tmpdir(), "config-promises-test-"));
+		});
+
+		afterEach(() => {
+			rmSync(configDir, { recursive: true, force: true });
+		});
+
+		it("should load every configuration with its parents and references", async () => {
+			const manager = createConfigManager({ schema: ExtendedConfigSchema, configDir });
+			manager.saveConfig({ name: "base", apiUrl: "https://api.test", timeout: 1000 });
+			manager.saveConfig({ name: "staging", extends: "base", timeout: 2000 } as never);
+			manager.saveConfig({ name: "dev", apiUrl: "${config:staging.apiUrl}/v2", timeout: 1 });
+			writeFileSync(join(configDir, "broken.json"), "{ not json");
+
+			const loaded = await manager.promises.getConfigs();
+
+			expect([...loaded.keys()].sort()).toEqual(["base", "broken", "dev", "staging"]);
+			expect(loaded.get("staging")).toMatchObject({ apiUrl: "https://api.test", timeout: 2000 });
+			expect(loaded.get("dev")?.apiUrl).toBe("https://api.test/v2");
+			expect(loaded.get("broken")).toBeNull();
+			expect(await manager.promises.getConfig("dev", { raw: true })).toEqual(
+				manager.getConfig("dev", { raw: true }),
+			);
+		});
+
+		it("should not serve prefetched contents to later reads", async () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "dev", description: "before" });
+			await manager.promises.getConfig("dev");
+
+			writeFileSync(
+				join(configDir, "dev.json"),
+				JSON.stringify({ name: "dev", description: "after" }),
+			);
+
+			expect(manager.getConfig("dev")?.description).toBe("after");
+			expect((await manager.promises.getConfig("dev"))?.description).toBe("after");
+		});
+
+		it("should save, activate, delete and restore configurations", async () => {
+			const manager = createConfigManager({ configDir });
+
+			expect(await manager.promises.saveConfig({ name: "dev", description: "Dev" })).toBe(true);
+			expect(await manager.promises.setCurrentConfig("Dev")).toBe(true);
+			expect(await manager.promises.getCurrentConfig()).toBe("dev");
+			expect(await manager.promises.getCurrentConfigData()).toEqual({
+				name: "dev",
+				description: "Dev",
+			});
+
+			expect(await manager.promises.deleteConfig("dev")).toBe(true);
+			expect(await manager.promises.configExists("dev")).toBe(false);
+			expect(await manager.promises.getCurrentConfig()).toBeNull();
+
+			const history = await manager.promises.getConfigHistory("dev");
+			expect(history.map((revision) => revision.action)).toEqual(["delete", "save"]);
+			await manager.promises.rollbackConfig("dev");
+			expect(await manager.promises.listConfigs()).toEqual(["dev"]);
+		});
+
+		it("should wait for the directory lock without blocking the event loop", async () => {
+			const manager = createConfigManager({ configDir });
+			const lockFile = join(configDir, ".lock");
+			writeFileSync(
+				lockFile,
+				JSON.stringify({ pid: process.pid, hostname: hostname(), token: "other", createdAt: 0 }),
+			);
+			setTimeout(() => rmSync(lockFile), 50);
+
+			const saved = manager.promises.saveConfig({ name: "dev" });
+			expect(existsSync(join(configDir, "dev.json"))).toBe(false);
+
+			expect(await saved).toBe(true);
+			expect(manager.getConfig("dev")).toEqual({ name: "dev" });
+		});
+
+		it("should reject names that violate the naming policy", async () => {
+			const manager = createConfigManager({ configDir });
+
+			await expect(manager.promises.listDependentConfigs("con")).rejects.toThrow(
+				InvalidConfigNameError,
+			);
+			expect(await manager.promises.getConfig("con")).toBeNull();
+		});
+	});
+
+	describe("renameConfig / copyConfig", () => {
+		let configDir: string;
+
+		beforeEach(() => {
+			configDir = mkdtempSync(join(tmpdir(), "config-rename-test-"));
+		});
+
+		afterEach(() => {
+			rmSync(configDir, { recursive: true, force: true });
+		});
+
+		it("should rename the file, the name field and the active pointer", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "dev", description: "Development" });
+			manager.setCurrentConfig("dev");
+
+			expect(manager.renameConfig("dev", "local")).toBe(true);
+
+			expect(manager.listConfigs()).toEqual(["local"]);
+			expect(manager.getConfig("local")).toEqual({ name: "local", description: "Development" });
+			expect(manager.getCurrentConfig()).toBe("local");
+		});
+
+		it("should refuse to overwrite an existing configuration", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "dev" });
+			manager.saveConfig({ name: "prod" });
+
+			expect(manager.renameConfig("dev", "prod")).toBe(false);
+			expect(manager.copyConfig("dev", "prod")).toBe(false);
+			expect(manager.listConfigs().sort()).toEqual(["dev", "prod"]);
+		});
+
+		it("should copy with overrides and validate the result", () => {
+			const manager = createConfigManager({ schema: ExtendedConfigSchema, configDir });
+			manager.saveConfig({
+				name: "dev",
+				apiUrl: "https://dev.example.com",
+				timeout: 1000,
+				features: { enableCache: false },
+			});
+
+			expect(manager.copyConfig("dev", "staging", { apiUrl: "https://staging.example.com" })).toBe(
+				true,
+			);
+			expect(manager.getConfig("staging")).toEqual({
+				name: "staging",
+				apiUrl: "https://staging.example.com",
+				timeout: 1000,
+				features: { enableCache: false },
+			});
+			expect(manager.copyConfig("dev", "broken", { apiUrl: "not a url" })).toBe(false);
+			expect(manager.configExists("broken")).toBe(false);
+		});
+	});
+
+	describe("metadata", () => {
+		let configDir: string;
+
+		beforeEach(() => {
+			configDir = mkdtempSync(join(tmpdir(), "config-metadata-test-"));
+			vi.useFakeTimers({ toFake: ["Date"] });
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+			rmSync(configDir, { recursive: true, force: true });
+		});
+
+		it("should record when a configuration is created, updated and used", async () => {
+			const manager = createConfigManager({ configDir });
+			vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+			manager.saveConfig({ name: "dev", tags: ["local"] });
+			vi.setSystemTime(new Date("2026-01-02T00:00:00Z"));
+			manager.saveConfig({ name: "dev", description: "Development" });
+			vi.setSystemTime(new Date("2026-01-03T00:00:00Z"));
+			manager.setCurrentConfig("dev");
+
+			const expected = {
+				createdAt: "2026-01-01T00:00:00.000Z",
+				updatedAt: "2026-01-02T00:00:00.000Z",
+				lastUsedAt: "2026-01-03T00:00:00.000Z",
+			};
+			expect(manager.getConfigMetadata("dev")).toEqual(expected);
+			expect(await manager.promises.getConfigMetadata("DEV")).toEqual(expected);
+			expect(manager.getConfig("dev")).toEqual({ name: "dev", description: "Development" });
+			expect(manager.getConfigMetadata("missing")).toBeNull();
+		});
+
+		it("should keep the timestamps of a renamed configuration and drop a deleted one's", () => {
+			const manager = createConfigManager({ configDir });
+			vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+			manager.saveConfig({ name: "dev" });
+			manager.setCurrentConfig("dev");
+			vi.setSystemTime(new Date("2026-01-02T00:00:00Z"));
+			manager.renameConfig("dev", "local");
+
+			expect(manager.getConfigMetadata("local")).toEqual({
+				createdAt: "2026-01-01T00:00:00.000Z",
+				updatedAt: "2026-01-02T00:00:00.000Z",
+				lastUsedAt: "2026-01-01T00:00:00.000Z",
+			});
+
+			manager.deleteConfig("local");
+			manager.saveConfig({ name: "local" });
+
+			expect(manager.getConfigMetadata("local")).toEqual({
+				createdAt: "2026-01-02T00:00:00.000Z",
+				updatedAt: "2026-01-02T00:00:00.000Z",
+			});
+		});
+
+		it("should fall back to the file's modification time without recorded timestamps", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "dev" });
+			writeFileSync(join(configDir, ".metadata.json"), "not json");
+
+			expect(manager.getConfigMetadata("dev")).toEqual({
+				updatedAt: statSync(join(configDir, "dev.json")).mtime.toISOString(),
+			});
+			expect(manager.checkConfigDirectory()).toEqual([]);
+		});
+	});
+
+	describe("revision history", () => {
+		let configDir: string;
+
+		beforeEach(() => {
+			configDir = mkdtempSync(join(tmpdir(), "config-history-test-"));
+		});
+
+		afterEach(() => {
+			rmSync(configDir, { recursive: true, force: true });
+		});
+
+		it("should record saves and deletions, newest first", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "dev", description: "one" });
+			manager.saveConfig({ name: "dev", description: "two" });
+			manager.deleteConfig("dev");
+
+			const history = manager.getConfigHistory("dev");
+			expect(history.map((revision) => [revision.revision, revision.action])).toEqual([
+				[3, "delete"],
+				[2, "save"],
+				[1, "save"],
+			]);
+			expect(history[1]?.data).toEqual({ name: "dev", description: "two" });
+			expect(history[0]?.data).toBeNull();
+		});
+
+		it("should roll back to the previous revision by default", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "dev", description: "good" });
+			manager.saveConfig({ name: "dev", description: "bad" });
+
+			expect(manager.rollbackConfig("dev").revision).toBe(1);
+			expect(manager.getConfig("dev")).toEqual({ name: "dev", description: "good" });
+			expect(manager.getConfigHistory("dev")[0]?.action).toBe("rollback");
+		});
+
+		it("should restore a deleted configuration", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "dev", description: "kept" });
+			manager.deleteConfig("dev");
+
+			manager.rollbackConfig("dev");
+
+			expect(manager.getConfig("dev")).toEqual({ name: "dev", description: "kept" });
+		});
+
+		it("should reject unknown revisions and deletion markers", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "dev" });
+			manager.deleteConfig("dev");
+
+			expect(() => manager.rollbackConfig("dev", 9)).toThrow("Revision 9 of 'dev' not found");
+			expect(() => manager.rollbackConfig("dev", 2)).toThrow(ConfigError);
+		});
+
+		it("should keep only the configured number of revisions", () => {
+			const manager = createConfigManager({ configDir, historyLimit: 2 });
+			for (const description of ["a", "b", "c"]) {
+				manager.saveConfig({ name: "dev", description });
+			}
+
+			expect(manager.getConfigHistory("dev").map((revision) => revision.revision)).toEqual([3, 2]);
+		});
+
+		it("should record the existing file before the first tracked change", () => {
+			writeFileSync(
+				join(configDir, "dev.json"),
+				JSON.stringify({ name: "dev", description: "old" }),
+			);
+			const manager = createConfigManager({ configDir });
+
+			manager.saveConfig({ name: "dev", description: "new" });
+			manager.rollbackConfig("dev");
+
+			expect(manager.getConfig("dev")).toEqual({ name: "dev", description: "old" });
+		});
+
+		it("should not record anything when history is disabled", () => {
+			const manager = createConfigManager({ configDir, historyLimit: 0 });
+			manager.saveConfig({ name: "dev" });
+
+			expect(manager.getConfigHistory("dev")).toEqual([]);
+			expect(existsSync(join(configDir, "history"))).toBe(false);
+		});
+	});
+
+	describe("checkConfigDirectory", () => {
+		let configDir: string;
+
+		beforeEach(() => {
+			configDir = mkdtempSync(join(tmpdir(), "config-doctor-test-"));
+		});
+
+		afterEach(() => {
+			rmSync(configDir, { recursive: true, force: true });
+		});
+
+		const codes = (diagnostics: { file: string; code: string }[]) =>
+			diagnostics.map(({ file, code }) => `${file}:${code}`);
+
+		it("should report nothing for a healthy directory", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "dev" });
+			manager.setCurrentConfig("dev");
+
+			expect(manager.checkConfigDirectory()).toEqual([]);
+		});
+
+		it("should report broken files without changing anything", () => {
+			const manager = createConfigManager({ schema: ExtendedConfigSchema, configDir });
+			writeFileSync(join(configDir, "broken.json"), "{not json", { mode: 0o600 });
+			writeFileSync(join(configDir, "bad.json"), JSON.stringify({ name: "bad", apiUrl: "x" }), {
+				mode: 0o600,
+			});
+			writeFileSync(join(configDir, "current.json"), JSON.stringify({ name: "gone" }), {
+				mode: 0o600,
+			});
+
+			const diagnostics = manager.checkConfigDirectory();
+
+			expect(codes(diagnostics)).toEqual([
+				"bad.json:invalid-config",
+				"broken.json:unreadable-file",
+				"current.json:dangling-current",
+			]);
+			expect(diagnostics[0]?.issues?.map((issue) => issue.path)).toEqual(["apiUrl"]);
+			expect(existsSync(join(configDir, "broken.json"))).toBe(true);
+		});
+
+		it("should quarantine unreadable files and repair what it can", () => {
+			const manager = createConfigManager({ configDir });
+			writeFileSync(join(configDir, "broken.json"), "{not json", { mode: 0o600 });
+			writeFileSync(join(configDir, "dev.json"), JSON.stringify({ name: "prod" }), {
+				mode: 0o600,
+			});
+			writeFileSync(join(configDir, ".dev.json.123.abc.tmp"), "");
+			writeFileSync(join(configDir, "current.json"), JSON.stringify({ name: "broken" }));
+
+			const diagnostics = manager.checkConfigDirectory({ fix: true });
+
+			expect(codes(diagnostics)).toEqual([
+				".dev.json.123.abc.tmp:leftover-temp-file",
+				"broken.json:unreadable-file",
+				"dev.json:name-mismatch",
+				"current.json:dangling-current",
+			]);
+			expect(diagnostics.every((diagnostic) => diagnostic.fix)).toBe(true);
+			expect(readdirSync(join(configDir, "quarantine"))[0]).toMatch(/^broken\.json\./);
+			expect(manager.getConfig("dev")).toEqual({ name: "dev" });
+			expect(manager.getCurrentConfig()).toBeNull();
+			expect(manager.checkConfigDirectory()).toEqual([]);
+		});
+
+		it.skipIf(process.platform === "win32")("should tighten loose permissions", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "dev" });
+			chmodSync(join(configDir, "dev.json"), 0o644);
+
+			expect(codes(manager.checkConfigDirectory({ fix: true }))).toEqual([
+				"dev.json:bad-permissions",
+			]);
+			expect(statSync(join(configDir, "dev.json")).mode & 0o777).toBe(0o600);
+		});
+	});
+
+	describe("config override", () => {
+		let configDir: string;
+
+		beforeEach(() => {
+			configDir = mkdtempSync(join(tmpdir(), "config-override-test-"));
+		});
+
+		afterEach(() => {
+			rmSync(configDir, { recursive: true, force: true });
+		});
+
+		it("should take precedence over current.json without changing it", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "dev" });
+			manager.saveConfig({ name: "staging" });
+			manager.setCurrentConfig("dev");
+
+			manager.setConfigOverride("staging");
+
+			expect(manager.getCurrentConfig()).toBe("staging");
+			expect(manager.getCurrentConfigData()).toEqual({ name: "staging" });
+			expect(JSON.parse(readFileSync(join(configDir, "current.json"), "utf-8"))).toEqual({
+				name: "dev",
+			});
+
+			manager.setConfigOverride(null);
+			expect(manager.getCurrentConfig()).toBe("dev");
+		});
+
+		it("should keep the persisted active config when deleting the overriding one", () => {
+			const manager = createConfigManager({ configDir });
+			manager.saveConfig({ name: "dev" });
+			manager.saveConfig({ name: "staging" });
+			manager.setCurrentConfig("dev");
+			manager.setConfigOverride("staging");
+
+			expect(manager.deleteConfig("staging")).toBe(true);
+			expect(manager.getConfigOverride()).toBeNull();
+			expect(manager.getCurrentConfig()).toBe("dev");
+		});
+	});
+
+	describe("JSON Schema", () => {
+		let configDir: string;
+
+		beforeEach(() => {
+			configDir = mkdtempSync(join(tmpdir(), "config-json-schema-test-"));
+		});
+
+		afterEach(() => {
+			rmSync(configDir, { recursive: true, force: true });
+		});
+
+		it("should reference .schema.json from saved files and strip the reference on read", () => {
+			const manager = createConfigManager({ schema: AppConfigSchema.strict(), configDir });
+			manager.saveConfig({ name: "dev" });
+
+			expect(JSON.parse(readFileSync(join(configDir, "dev.json"), "utf-8"))).toEqual({
+				$schema: "./.schema.json",
+				schemaVersion: 1,
+				name: "dev",
+			});
+			expect(JSON.parse(readFileSync(join(configDir, ".schema.json"), "utf-8"))).toEqual(
+				manager.getJsonSchema(),
+			);
+			expect(manager.getConfig("dev")).toEqual({ name: "dev" });
+			expect(manager.getConfigHistory("dev")[0]?.data).toEqual({ name: "dev" });
+			expect(manager.checkConfigDirectory()).toEqual([]);
+		});
+
+		it("should bring an outdated .schema.json up to date on the next write", () => {
+			writeFileSync(join(configDir, ".schema.json"), "{}");
+			const manager = createConfigManager({ schema: ExtendedConfigSchema, configDir });
+			manager.saveConfig({ name: "dev", apiUrl: "https://dev.example.com", timeout: 1000 });
+
+			const jsonSchema = JSON.parse(readFileSync(join(configDir, ".schema.json"), "utf-8"));
+			expect(jsonSchema.properties.apiUrl).toEqual({ type: "string", format: "uri" });
+		});
+
+		it("should drop the schema.json of earlier versions and allow a configuration by that name", () => {
+			writeFileSync(
+				join(configDir, "schema.json"),
+				JSON.stringify({ $schema: "http://json-schema.org/draft-07/schema#", type: "object" }),
+			);
+			const manager = createConfigManager({ configDir });
+
+			expect(manager.listConfigs()).toEqual([]);
+			expect(manager.saveConfig({ name: "Schema" })).toBe(true);
+
+			const reopened = createConfigManager({ configDir });
+			expect(reopened.listConfigs()).toEqual(["schema"]);
+			expect(reopened.getConfig("schema")).toEqual({ name: "Schema" });
+			expect(reopened.checkConfigDirectory()).toEqual([]);
+		});
+	});
+
+	describe("pin files", () => {
+		let rootDir: string;
+		let configDir: string;
+		let projectDir: string;
+
+		beforeEach(() => {
+			rootDir = mkdtempSync(join(tmpdir(), "config-pin-test-"));
+			configDir = join(rootDir, "configs");
+			projectDir = join(rootDir, "project");
+			mkdirSync(join(projectDir, "nested"), { recursive: true });
+		});
+
+		afterEach(() => {
+			rmSync(rootDir, { recursive: true, force: true });
+		});
+
+		it("should let the nearest pin file take precedence over current.json", async () => {
+			const manager = createConfigManager({
+				configDir,
+				pinFileName: ".test-config",
+				cwd: join(projectDir, "nested"),
+			});
+			manager.saveConfig({ name: "dev" });
+			manager.saveConfig({ name: "Staging EU" });
+			manager.setCurrentConfig("dev");
+
+			const pinFile = manager.pinConfig("STAGING EU", projectDir);
+
+			expect(readFileSync(pinFile, "utf-8")).toBe("staging-eu\n");
+			const expected = { name: "staging-eu", source: "pin", pinFile };
+			expect(manager.getCurrentConfigInfo()).toEqual(expected);
+			expect(await manager.promises.getCurrentConfigInfo()).toEqual(expected);
+			expect(manager.getCurrentConfigData()).toEqual({ name: "Staging EU" });
+
+			manager.setConfigOverride("dev");
+			expect(manager.getCurrentConfigInfo()).toEqual({ name: "dev", source: "override" });
+			manager.setConfigOverride(null);
+
+			expect(manager.unpinConfig()).toBe(pinFile);
+			expect(existsSync(pinFile)).toBe(false);
+			expect(manager.getCurrentConfigInfo()).toEqual({ name: "dev", source: "pointer" });
+			expect(manager.unpinConfig()).toBeNull();
+		});
+
+		it("should report a pin file left naming a renamed configuration without removing it", () => {
+			const manager = createConfigManager({
+				configDir,
+				pinFileName: ".test-config",
+				cwd: join(projectDir, "nested"),
+			});
+			manager.saveConfig({ name: "dev" });
+			const pinFile = manager.pinConfig("dev", projectDir);
+			manager.renameConfig("dev", "prod");
+
+			const diagnostics = manager.checkConfigDirectory({ fix: true });
+
+			expect(diagnostics).toEqual([
+				{
+					file: pinFile,
+					code: "stale-pin",
+					severity: "error",
+					message: "Pinned configuration 'dev' does not exist",
+				},
+			]);
+			expect(readFileSync(pinFile, "utf-8")).toBe("dev\n");
+		});
+
+		it("should skip empty pin files and refuse to pin a missing configuration", () => {
+			const manager = createConfigManager({ configDir, pinFileName: ".test-config" });
+			manager.saveConfig({ name: "dev" });
+			writeFileSync(join(projectDir, ".test-config"), "\n  dev  \nignored\n");
+			writeFileSync(join(projectDir, "nested", ".test-config"), "\n");
+
+			expect(
+				createConfigManager({
+					configDir,
+					pinFileName: ".test-config",
+					cwd: join(projectDir, "nested"),
+				}).getCurrentConfigInfo(),
+			).toEqual({ name: "dev", source: "pin", pinFile: join(projectDir, ".test-config") });
+			expect(() => manager.pinConfig("missing", projectDir)).toThrow(ConfigError);
+			expect(() =>
+				createConfigManager({ configDir, pinFileName: null }).pinConfig("dev", projectDir),
+			).toThrow("Pinning configurations is disabled");
+		});
+	});
+
+	describe("config directory", () => {
+		let rootDir: string;
+
+		beforeEach(() => {
+			rootDir = mkdtempSync(join(tmpdir(), "config-dir-test-"));
+		});
+
+		afterEach(() => {
+			vi.unstubAllEnvs();
+			rmSync(rootDir, { recursive: true, force: true });
+		});
+
+		it("should default to the configs directory below DEMO_CLI_HOME", () => {
+			vi.stubEnv("DEMO_CLI_HOME", join(rootDir, "home"));
+
+			const manager = createConfigManager();
+
+			expect(manager.getConfigDir()).toBe(join(rootDir, "home", "configs"));
+			expect(existsSync(join(rootDir, "home", "configs", "current.json"))).toBe(true);
+		});
+
+		it("should move every path, including the secret key, with setConfigDir", () => {
+			const SecretConfigSchema = AppConfigSchema.extend({ apiKey: secret(z.string()) });
+			const manager = createConfigManager({
+				schema: SecretConfigSchema,
+				configDir: join(rootDir, "first"),
+			});
+			manager.saveConfig({ name: "dev", apiKey: "first-token" });
+
+			manager.setConfigDir(join(rootDir, "second"));
+
+			expect(manager.getConfigDir()).toBe(join(rootDir, "second"));
+			expect(manager.listConfigs()).toEqual([]);
+			expect(manager.saveConfig({ name: "dev", apiKey: "second-token" })).toBe(true);
+			expect(manager.setCurrentConfig("dev")).toBe(true);
+			expect(existsSync(join(rootDir, "second", ".secret.key"))).toBe(true);
+			expect(existsSync(join(rootDir, "second", "history", "dev", "1.json"))).toBe(true);
+			expect(JSON.parse(readFileSync(join(rootDir, "first", "current.json"), "utf-8")).name).toBe(
+				"",
+			);
+
+			manager.setConfigDir(join(rootDir, "first"));
+			expect(manager.getConfig("dev")?.apiKey).toBe("first-token");
+		});
+
+		it("should leave the default directory untouched when moved before first use", async () => {
+			const legacyDir = join(rootDir, "user", ".test-cli", "configs");
+			mkdirSync(legacyDir, { recursive: true });
+			writeFileSync(join(legacyDir, "old.json"), JSON.stringify({ name: "old" }));
+			vi.stubEnv("HOME", join(rootDir, "user"));
+			vi.stubEnv("XDG_CONFIG_HOME", join(rootDir, "xdg"));
+			vi.stubEnv("DEMO_CLI_HOME", "");
+			vi.resetModules();
+
+			// As the CLI does: import the shared manager, then apply --config-dir
+			const { configManager } = await import("../utils/configManager");
+			configManager.setConfigDir(join(rootDir, "custom"));
+			expect(configManager.saveConfig({ name: "dev" })).toBe(true);
+			expect(configManager.setCurrentConfig("dev")).toBe(true);
+
+			expect(existsSync(join(rootDir, "custom", "dev.json"))).toBe(true);
+			expect(existsSync(join(rootDir, "xdg"))).toBe(false);
+			expect(existsSync(join(legacyDir, "old.json"))).toBe(true);
+		});
+	});
+
+	describe("schema migrations", () => {
+		let configDir: string;
+
+		const MigratedSchema = AppConfigSchema.extend({ apiUrl: z.url() });
+		const options = {
+			schema: MigratedSchema,
+			schemaVersion: 2,
+			migrations: [
+				{
+					from: 1,
+					to: 2,
+					migrate: ({ url, ...rest }: Record<string, unknown>) => ({ ...rest, apiUrl: url }),
+				},
+			],
+		};
+
+		const readStored = (name: string) =>
+			JSON.parse(readFileSync(join(configDir, `${name}.json`), "utf-8"));
+
+		beforeEach(() => {
+			configDir = mkdtempSync(join(tmpdir(), "config-manager-test-"));
+		});
+
+		afterEach(() => {
+			rmSync(configDir, { recursive: true, force: true });
+		});
+
+		it("should stamp saved files with the schema version", () => {
+			const manager = createConfigManager({ ...options, configDir });
+			manager.saveConfig({ name: "dev", apiUrl: "https://api.example.com" });
+
+			expect(readStored("dev").schemaVersion).toBe(2);
+			expect(manager.getConfig("dev")).toEqual({ name: "dev", apiUrl: "https://api.example.com" });
+		});
+
+		it("should migrate older files on read and keep a backup", () => {
+			writeFileSync(
+				join(configDir, "dev.json"),
+				JSON.stringify({ name: "dev", url: "https://x.test" }),
+			);
+			const manager = createConfigManager({ ...options, configDir });
+
+			expect(manager.getConfig("dev")).toEqual({ name: "dev", apiUrl: "https://x.test" });
+			expect(readStored("dev")).toEqual({
+				$schema: "./.schema.json",
+				schemaVersion: 2,
+				name: "dev",
+				apiUrl: "https://x.test",
+			});
+
+			const backups = readdirSync(join(configDir, "backups"));
+			expect(backups).toHaveLength(1);
+			expect(backups[0]).toMatch(/^dev\.v1\..+\.json$/);
+			expect(manager.listConfigs()).toEqual(["dev"]);
+		});
+
+		it("should wait for the lock without blocking the event loop when migrating on read", async () => {
+			writeFileSync(
+				join(configDir, "dev.json"),
+				JSON.stringify({ name: "dev", url: "https://x.test" }),
+			);
+			const manager = createConfigManager({ ...options, configDir });
+			const lockFile = join(configDir, ".lock");
+			writeFileSync(
+				lockFile,
+				JSON.stringify({ pid: process.pid, hostname: hostname(), token: "other", createdAt: 0 }),
+			);
+			// Only runs if the read leaves the event loop free while it waits
+			setTimeout(() => rmSync(lockFile), 50);
+
+			expect(await manager.promises.getConfig("dev")).toEqual({
+				name: "dev",
+				apiUrl: "https://x.test",
+			});
+			expect(readStored("dev").schemaVersion).toBe(2);
+		});
+
+		it("should report pending migrations without writing in a dry run", () => {
+			writeFileSync(
+				join(configDir, "dev.json"),
+				JSON.stringify({ name: "dev", url: "https://x.test" }),
+			);
+			const manager = createConfigManager({ ...options, configDir });
+
+			expect(manager.migrateConfigs({ dryRun: true })).toEqual([
+				{ name: "dev", fromVersion: 1, toVersion: 2, status: "would-migrate" },
+			]);
+			expect(readStored("dev")).toEqual({ name: "dev", url: "https://x.test" });
+			expect(existsSync(join(configDir, "backups"))).toBe(false);
+		});
+
+		it("should migrate every stored config at once", () => {
+			writeFileSync(
+				join(configDir, "dev.json"),
+				JSON.stringify({ name: "dev", url: "https://x.test" }),
+			);
+			writeFileSync(
+				join(configDir, "prod.json"),
+				JSON.stringify({ schemaVersion: 2, name: "prod", apiUrl: "https://y.test" }),
+			);
+			writeFileSync(
+				join(configDir, "broken.json"),
+				JSON.stringify({ name: "broken", url: "nope" }),
+			);
+			const manager = createConfigManager({ ...options, configDir });
+
+			const results = manager.migrateConfigs();
+			const statuses = Object.fromEntries(results.map((result) => [result.name, result.status]));
+
+			expect(statuses).toEqual({ dev: "migrated", prod: "up-to-date", broken: "failed" });
+			expect(readStored("dev").schemaVersion).toBe(2);
+			expect(readStored("broken")).toEqual({ name: "broken", url: "nope" });
+		});
+
+		it("should refuse files written by a newer version", () => {
+			writeFileSync(
+				join(configDir, "dev.json"),
+				JSON.stringify({ schemaVersion: 3, name: "dev", apiUrl: "https://x.test" }),
+			);
+			const manager = createConfigManager({ ...options, configDir });
+
+			expect(manager.getConfig("dev")).toBeNull();
+		});
+
+		it("should reject an incomplete migration chain", () => {
+			expect(() => createConfigManager({ ...options, migrations: [], configDir })).toThrow(
+				"Missing migration from schema version 1",
+			);
+		});
+	});
+
+	describe("secret fields", () => {
+		let configDir: string;
+
+		const SecretConfigSchema = AppConfigSchema.extend({
+			apiKey: secret(z.string().min(1)).optional(),
+		});
+
+		const readStored = (name: string) =>
+			JSON.parse(readFileSync(join(configDir, `${name}.json`), "utf-8"));
+
+		beforeEach(() => {
+			configDir = mkdtempSync(join(tmpdir(), "config-manager-test-"));
+		});
+
+		afterEach(() => {
+			rmSync(configDir, { recursive: true, force: true });
+		});
+
+		it("should encrypt secrets at rest and decrypt them on read", () => {
+			const manager = createConfigManager({ schema: SecretConfigSchema, configDir });
+			manager.saveConfig({ name: "dev", apiKey: "super-secret-token" });
+
+			expect(readFileSync(join(configDir, "dev.json"), "utf-8")).not.toContain("super-secret");
+			expect(readStored("dev").apiKey).toMatch(/^enc:v1:/);
+			expect(manager.getConfig("dev")).toEqual({ name: "dev", apiKey: "super-secret-token" });
+		});
+
+		it("should read secrets with a fresh manager using the same key file", () => {
+			createConfigManager({ schema: SecretConfigSchema, configDir }).saveConfig({
+				name: "dev",
+				apiKey: "token",
+			});
+
+			const manager = createConfigManager({ schema: SecretConfigSchema, configDir });
+			expect(manager.getConfig("dev")?.apiKey).toBe("token");
+		});
+
+		it("should fail to read secrets with the wrong key", () => {
+			createConfigManager({
+				schema: SecretConfigSchema,
+				configDir,
+				secretKey: { passphrase: "one" },
+			}).saveConfig({ name: "dev", apiKey: "token" });
+
+			const manager = createConfigManager({
+				schema: SecretConfigSchema,
+				configDir,
+				secretKey: { passphrase: "two" },
+			});
+			expect(manager.getConfig("dev")).toBeNull();
+		});
+
+		it("should mask secrets for display", () => {
+			const manager = createConfigManager({ schema: SecretConfigSchema, configDir });
+
+			expect(manager.getSecretPaths()).toEqual(["apiKey"]);
+			expect(manager.maskSecrets({ name: "dev", apiKey: "token" })).toEqual({
+				name: "dev",
+				apiKey: SECRET_MASK,
+			});
+		});
+
+		it("should re-encrypt every config when rekeying", () => {
+			const manager = createConfigManager({ schema: SecretConfigSchema, configDir });
+			manager.saveConfig({ name: "dev", apiKey: "token-1" });
+			manager.saveConfig({ name: "prod", apiKey: "token-2" });
+			manager.saveConfig({ name: "plain" });
+			const before = readStored("dev").apiKey;
+
+			expect(manager.rekeySecrets({ passphrase: "new passphrase" })).toBe(2);
+			expect(readStored("dev").apiKey).not.toBe(before);
+
+			const reopened = createConfigManager({
+				schema: SecretConfigSchema,
+				configDir,
+				secretKey: { passphrase: "new passphrase" },
+			});
+			expect(reopened.getConfig("dev")?.apiKey).toBe("token-1");
+			expect(reopened.getConfig("prod")?.apiKey).toBe("token-2");
+		});
+
+		it("should keep secrets encrypted in history and re-encrypt them when rekeying", () => {
+			const manager = createConfigManager({ schema: SecretConfigSchema, configDir });
+			manager.saveConfig({ name: "dev", apiKey: "old-token" });
+			manager.saveConfig({ name: "dev", apiKey: "new-token" });
+
+			const revisionFile = join(configDir, "history", "dev", "1.json");
+			expect(readFileSync(revisionFile, "utf-8")).not.toContain("old-token");
+
+			manager.rekeySecrets({ passphrase: "new passphrase" });
+			manager.rollbackConfig("dev");
+
+			expect(manager.getConfig("dev")?.apiKey).toBe("old-token");
+		});
+
+		it("should replace the default key file when rekeying without a key", () => {
+			const manager = createConfigManager({ schema: SecretConfigSchema, configDir });
+			manager.saveConfig({ name: "dev", apiKey: "token" });
+			const oldKey = readFileSync(join(configDir, ".secret.key"), "utf-8");
+
+			manager.rekeySecrets();
+
+			expect(readFileSync(join(configDir, ".secret.key"), "utf-8")).not.toBe(oldKey);
+			expect(
+				createConfigManager({ schema: SecretConfigSchema, configDir }).getConfig("dev"),
+			).toEqual({ name: "dev", apiKey: "token" });
+		});
 	});
 });
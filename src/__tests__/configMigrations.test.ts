@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+	assertValidMigrationChain,
+	type ConfigMigration,
+	getSchemaVersion,
+	migrateConfigData,
+} from "../utils/configMigrations";
+import { ConfigMigrationError } from "../utils/errors";
+
+const migrations: ConfigMigration[] = [
+	{
+		from: 1,
+		to: 2,
+		migrate: ({ url, ...rest }) => ({ ...rest, apiUrl: url }),
+	},
+	{
+		from: 2,
+		to: 3,
+		migrate: (config) => ({ ...config, timeout: Number(config.timeout ?? 5000) }),
+	},
+];
+
+describe("configMigrations", () => {
+	describe("assertValidMigrationChain", () => {
+		it("should accept a complete chain", () => {
+			expect(() => assertValidMigrationChain(migrations, 3)).not.toThrow();
+		});
+
+		it("should accept no migrations for the initial version", () => {
+			expect(() => assertValidMigrationChain([], 1)).not.toThrow();
+		});
+
+		it("should reject missing steps", () => {
+			expect(() => assertValidMigrationChain(migrations.slice(1), 3)).toThrow(
+				"Missing migration from schema version 1",
+			);
+		});
+
+		it("should reject steps that skip versions", () => {
+			const skipping = [{ from: 1, to: 3, migrate: (config: Record<string, unknown>) => config }];
+			expect(() => assertValidMigrationChain(skipping, 3)).toThrow("must target 2");
+		});
+
+		it("should reject migrations beyond the target version", () => {
+			expect(() => assertValidMigrationChain(migrations, 2)).toThrow("goes beyond");
+		});
+	});
+
+	describe("getSchemaVersion", () => {
+		it("should treat unstamped data as the initial version", () => {
+			expect(getSchemaVersion({ name: "dev" })).toBe(1);
+		});
+
+		it("should reject invalid stamps", () => {
+			expect(() => getSchemaVersion({ name: "dev", schemaVersion: "2" })).toThrow(
+				ConfigMigrationError,
+			);
+		});
+	});
+
+	describe("migrateConfigData", () => {
+		it("should apply migrations in order and drop the stamp", () => {
+			const result = migrateConfigData({ name: "dev", url: "https://x.test" }, migrations, 3);
+
+			expect(result.fromVersion).toBe(1);
+			expect(result.applied.map((migration) => migration.to)).toEqual([2, 3]);
+			expect(result.data).toEqual({ name: "dev", apiUrl: "https://x.test", timeout: 5000 });
+		});
+
+		it("should only apply the missing steps", () => {
+			const result = migrateConfigData({ schemaVersion: 2, name: "dev" }, migrations, 3);
+
+			expect(result.applied).toHaveLength(1);
+			expect(result.data).toEqual({ name: "dev", timeout: 5000 });
+		});
+
+		it("should not modify up-to-date data", () => {
+			const result = migrateConfigData({ schemaVersion: 3, name: "dev" }, migrations, 3);
+
+			expect(result.applied).toHaveLength(0);
+			expect(result.data).toEqual({ name: "dev" });
+		});
+
+		it("should reject data from a newer version", () => {
+			expect(() =>
+				migrateConfigData({ schemaVersion: 4, name: "dev" }, migrations, 3, "dev"),
+			).toThrow("newer than the supported version");
+		});
+
+		it("should wrap errors thrown by a migration", () => {
+			const failing: ConfigMigration[] = [
+				{
+					from: 1,
+					to: 2,
+					migrate: () => {
+						throw new Error("boom");
+					},
+				},
+			];
+
+			expect(() => migrateConfigData({ name: "dev" }, failing, 2, "dev")).toThrow(
+				"migration 1 -> 2 failed: boom",
+			);
+		});
+	});
+});
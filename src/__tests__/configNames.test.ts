@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { getConfigNameProblem, isConfigSlug, toConfigSlug } from "../utils/configNames";
+
+describe("configNames", () => {
+	describe("toConfigSlug", () => {
+		it("should lower-case and hyphenate display names", () => {
+			expect(toConfigSlug("My Staging (EU)")).toBe("my-staging-eu");
+			expect(toConfigSlug("  dev__local  ")).toBe("dev__local");
+		});
+
+		it("should keep unicode letters", () => {
+			expect(toConfigSlug("Café Prod")).toBe("café-prod");
+			expect(toConfigSlug("本番")).toBe("本番");
+		});
+
+		it("should map names differing by case or spacing to the same slug", () => {
+			expect(toConfigSlug("Prod")).toBe(toConfigSlug("PROD"));
+			expect(toConfigSlug("my  config")).toBe(toConfigSlug("My-Config"));
+		});
+
+		it("should normalize compatibility characters", () => {
+			expect(toConfigSlug("ｄｅｖ")).toBe("dev");
+		});
+	});
+
+	describe("getConfigNameProblem", () => {
+		it("should accept friendly names", () => {
+			expect(getConfigNameProblem("dev")).toBeNull();
+			expect(getConfigNameProblem("My Staging (EU)")).toBeNull();
+		});
+
+		it.each([
+			["", "required"],
+			["   ", "required"],
+			["x".repeat(51), "too long"],
+			["dev\u0000", "control characters"],
+			["dev\u001fbox", "control characters"],
+			["dev\u007f", "control characters"],
+			["../../.bashrc", "slashes"],
+			["a\\b", "slashes"],
+			["..", "letter or digit"],
+			["current", "reserved"],
+			["Current", "reserved"],
+			["CON", "reserved"],
+			["lpt1", "reserved"],
+		])("should reject %j", (name, problem) => {
+			expect(getConfigNameProblem(name)).toContain(problem);
+		});
+	});
+
+	describe("isConfigSlug", () => {
+		it("should only accept canonical slugs of valid names", () => {
+			expect(isConfigSlug("my-staging-eu")).toBe(true);
+			expect(isConfigSlug("My Staging")).toBe(false);
+			expect(isConfigSlug("current")).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,104 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getDefaultConfigLocation, migrateLegacyConfigDir } from "../utils/configPaths";
+
+describe("configPaths", () => {
+	describe("getDefaultConfigLocation", () => {
+		const options = { appName: "Test CLI", envPrefix: "DEMO_CLI", homeDir: "/home/user" };
+
+		it("should follow XDG_CONFIG_HOME on Linux and migrate from the legacy directory", () => {
+			expect(
+				getDefaultConfigLocation({
+					...options,
+					platform: "linux",
+					env: { XDG_CONFIG_HOME: "/xdg" },
+				}),
+			).toEqual({
+				configDir: "/xdg/test-cli/configs",
+				legacyDir: "/home/user/.test-cli/configs",
+			});
+		});
+
+		it("should fall back to ~/.config when XDG_CONFIG_HOME is unset or relative", () => {
+			for (const env of [{}, { XDG_CONFIG_HOME: "relative/dir" }]) {
+				expect(getDefaultConfigLocation({ ...options, platform: "linux", env }).configDir).toBe(
+					"/home/user/.config/test-cli/configs",
+				);
+			}
+		});
+
+		it("should keep the home directory layout on other platforms", () => {
+			expect(
+				getDefaultConfigLocation({
+					...options,
+					platform: "darwin",
+					env: { XDG_CONFIG_HOME: "/x" },
+				}),
+			).toEqual({ configDir: "/home/user/.test-cli/configs", legacyDir: null });
+		});
+
+		it("should let <PREFIX>_HOME override everything without migrating", () => {
+			expect(
+				getDefaultConfigLocation({
+					...options,
+					platform: "linux",
+					env: { DEMO_CLI_HOME: "/opt/demo", XDG_CONFIG_HOME: "/xdg" },
+				}),
+			).toEqual({ configDir: "/opt/demo/configs", legacyDir: null });
+		});
+	});
+
+	describe("migrateLegacyConfigDir", () => {
+		let rootDir: string;
+		let legacyDir: string;
+		let configDir: string;
+
+		beforeEach(() => {
+			rootDir = mkdtempSync(join(tmpdir(), "config-paths-test-"));
+			legacyDir = join(rootDir, ".test-cli", "configs");
+			configDir = join(rootDir, ".config", "test-cli", "configs");
+			mkdirSync(join(legacyDir, "history", "dev"), { recursive: true });
+			writeFileSync(join(legacyDir, "dev.json"), '{"name":"dev"}');
+			writeFileSync(join(legacyDir, "current.json"), '{"name":"dev"}');
+			writeFileSync(join(legacyDir, "history", "dev", "1.json"), "{}");
+		});
+
+		afterEach(() => {
+			rmSync(rootDir, { recursive: true, force: true });
+		});
+
+		it("should move every file and remove the emptied application directory", () => {
+			expect(migrateLegacyConfigDir(legacyDir, configDir)).toBe(true);
+
+			expect(readFileSync(join(configDir, "current.json"), "utf-8")).toBe('{"name":"dev"}');
+			expect(existsSync(join(configDir, "dev.json"))).toBe(true);
+			expect(existsSync(join(configDir, "history", "dev", "1.json"))).toBe(true);
+			expect(existsSync(join(rootDir, ".test-cli"))).toBe(false);
+		});
+
+		it("should keep other files of the application directory", () => {
+			writeFileSync(join(rootDir, ".test-cli", "notes.txt"), "keep");
+
+			migrateLegacyConfigDir(legacyDir, configDir);
+
+			expect(readFileSync(join(rootDir, ".test-cli", "notes.txt"), "utf-8")).toBe("keep");
+		});
+
+		it("should do nothing once the new directory exists", () => {
+			mkdirSync(configDir, { recursive: true });
+
+			expect(migrateLegacyConfigDir(legacyDir, configDir)).toBe(false);
+			expect(existsSync(join(legacyDir, "dev.json"))).toBe(true);
+			expect(existsSync(join(configDir, "dev.json"))).toBe(false);
+		});
+
+		it("should do nothing without a legacy directory", () => {
+			rmSync(legacyDir, { recursive: true });
+
+			expect(migrateLegacyConfigDir(legacyDir, configDir)).toBe(false);
+			expect(existsSync(configDir)).toBe(false);
+		});
+	});
+});
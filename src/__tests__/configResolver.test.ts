@@ -0,0 +1,190 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { AppConfigSchema, createConfigManager } from "../utils/configManager";
+import {
+	findProjectFile,
+	findProjectFileAsync,
+	resolveConfig,
+	toEnvVarName,
+} from "../utils/configResolver";
+
+const ResolverSchema = AppConfigSchema.extend({
+	apiUrl: z.string().default("https://api.example.com"),
+	timeout: z.number().default(5000),
+	home: z.string().optional(),
+	features: z
+		.object({
+			enableCache: z.boolean().default(false),
+		})
+		.optional(),
+});
+
+describe("configResolver", () => {
+	let tempDir: string;
+	let configDir: string;
+	let projectDir: string;
+
+	beforeEach(() => {
+		tempDir = mkdtempSync(join(tmpdir(), "config-resolver-"));
+		configDir = join(tempDir, "config");
+		projectDir = join(tempDir, "project", "nested");
+		mkdirSync(projectDir, { recursive: true });
+	});
+
+	afterEach(() => {
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	function createManager() {
+		return createConfigManager({ schema: ResolverSchema, appName: "test-cli", configDir });
+	}
+
+	describe("toEnvVarName", () => {
+		it("should map camelCase segments to upper snake case", () => {
+			expect(toEnvVarName("apiUrl", "DEMO_CLI")).toBe("DEMO_CLI_VAR_API_URL");
+			expect(toEnvVarName("features.enableCache", "DEMO_CLI")).toBe(
+				"DEMO_CLI_VAR_FEATURES__ENABLE_CACHE",
+			);
+		});
+
+		it("should not reuse the names of the CLI's own variables", () => {
+			expect(toEnvVarName("home", "DEMO_CLI")).not.toBe("DEMO_CLI_HOME");
+			expect(toEnvVarName("config", "DEMO_CLI")).not.toBe("DEMO_CLI_CONFIG");
+		});
+	});
+
+	describe("findProjectFile", () => {
+		it("should find the nearest rc file in a parent directory", () => {
+			const rcFile = join(tempDir, "project", ".testrc.json");
+			writeFileSync(rcFile, "{}");
+
+			expect(findProjectFile(projectDir, ".testrc.json")).toBe(rcFile);
+		});
+
+		it("should return null when no rc file exists", () => {
+			expect(findProjectFile(projectDir, ".missing-rc.json")).toBeNull();
+		});
+
+		it("should find the same file asynchronously", async () => {
+			const rcFile = join(tempDir, "project", ".testrc.json");
+			writeFileSync(rcFile, "{}");
+
+			expect(await findProjectFileAsync(projectDir, ".testrc.json")).toBe(rcFile);
+			expect(await findProjectFileAsync(projectDir, ".missing-rc.json")).toBeNull();
+		});
+	});
+
+	describe("resolveConfig", () => {
+		const baseOptions = () => ({ cwd: projectDir, env: {}, envPrefix: "TEST_CLI" });
+
+		it("should fall back to schema defaults", async () => {
+			const { values, origins } = await resolveConfig(createManager(), baseOptions());
+
+			expect(values).toEqual({ apiUrl: "https://api.example.com", timeout: 5000 });
+			expect(origins.get("timeout")).toEqual({ layer: "default", source: "schema" });
+		});
+
+		it("should apply layers in precedence order", async () => {
+			const manager = createManager();
+			manager.saveConfig({ name: "dev", timeout: 1000, apiUrl: "https://stored.test" });
+			manager.setCurrentConfig("dev");
+
+			const rcFile = join(tempDir, "project", ".demo-clirc.json");
+			writeFileSync(rcFile, JSON.stringify({ timeout: 2000, features: { enableCache: true } }));
+
+			const { values, origins } = await resolveConfig(manager, {
+				...baseOptions(),
+				env: { TEST_CLI_VAR_TIMEOUT: "3000", TEST_CLI_VAR_UNKNOWN: "ignored" },
+				flags: { apiUrl: "https://flag.test" },
+			});
+
+			expect(values).toEqual({
+				name: "dev",
+				apiUrl: "https://flag.test",
+				timeout: 3000,
+				features: { enableCache: true },
+			});
+			expect(origins.get("name")).toEqual({
+				layer: "stored",
+				source: join(configDir, "dev.json"),
+			});
+			expect(origins.get("features.enableCache")).toEqual({ layer: "project", source: rcFile });
+			expect(origins.get("timeout")).toEqual({ layer: "env", source: "TEST_CLI_VAR_TIMEOUT" });
+			expect(origins.get("apiUrl")).toEqual({ layer: "flag", source: "--set apiUrl" });
+		});
+
+		it("should attribute inherited values to their parent and leave defaults alone", async () => {
+			const manager = createManager();
+			// Written by hand, so the defaulted apiUrl is not stored
+			mkdirSync(configDir, { recursive: true });
+			writeFileSync(join(configDir, "base.json"), JSON.stringify({ name: "base", timeout: 1000 }));
+			manager.saveConfig({ name: "dev", extends: "base" } as never);
+			manager.setCurrentConfig("dev");
+
+			const { values, origins } = await resolveConfig(manager, baseOptions());
+
+			expect(values).toEqual({
+				name: "dev",
+				extends: "base",
+				apiUrl: "https://api.example.com",
+				timeout: 1000,
+			});
+			expect(origins.get("apiUrl")).toEqual({ layer: "default", source: "schema" });
+			expect(origins.get("timeout")).toEqual({
+				layer: "stored",
+				source: join(configDir, "base.json"),
+			});
+			expect(origins.get("name")).toEqual({ layer: "stored", source: join(configDir, "dev.json") });
+		});
+
+		it("should coerce nested env values using the schema", async () => {
+			const { values, origins } = await resolveConfig(createManager(), {
+				...baseOptions(),
+				env: { TEST_CLI_VAR_FEATURES__ENABLE_CACHE: "yes" },
+			});
+
+			expect(values.features).toEqual({ enableCache: true });
+			expect(origins.get("features.enableCache")).toEqual({
+				layer: "env",
+				source: "TEST_CLI_VAR_FEATURES__ENABLE_CACHE",
+			});
+		});
+
+		it("should not read a field named like one of the CLI's own variables from it", async () => {
+			const { values, origins } = await resolveConfig(createManager(), {
+				...baseOptions(),
+				env: { TEST_CLI_HOME: "/opt/test-cli" },
+			});
+
+			expect(values.home).toBeUndefined();
+			expect(origins.has("home")).toBe(false);
+
+			const resolved = await resolveConfig(createManager(), {
+				...baseOptions(),
+				env: { TEST_CLI_HOME: "/opt/test-cli", TEST_CLI_VAR_HOME: "/srv" },
+			});
+			expect(resolved.values.home).toBe("/srv");
+			expect(resolved.origins.get("home")).toEqual({ layer: "env", source: "TEST_CLI_VAR_HOME" });
+		});
+
+		it("should name the variable when an env value has the wrong type", async () => {
+			await expect(
+				resolveConfig(createManager(), {
+					...baseOptions(),
+					env: { TEST_CLI_VAR_TIMEOUT: "soon" },
+				}),
+			).rejects.toThrow("TEST_CLI_VAR_TIMEOUT");
+		});
+
+		it("should reject a project file that is not a JSON object", async () => {
+			writeFileSync(join(projectDir, ".demo-clirc.json"), "[1, 2]");
+
+			await expect(resolveConfig(createManager(), baseOptions())).rejects.toThrow(
+				"Expected a JSON object",
+			);
+		});
+	});
+});
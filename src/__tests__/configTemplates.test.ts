@@ -0,0 +1,131 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getMissingTemplatePaths,
+	listTemplates,
+	loadTemplate,
+	parseTemplate,
+	type TemplateDirectory,
+} from "../utils/configTemplates";
+import { ConfigTemplateError } from "../utils/errors";
+import { Logger } from "../utils/Logger";
+
+describe("configTemplates", () => {
+	describe("parseTemplate", () => {
+		it("should read JSON and YAML templates alike", () => {
+			const yaml = [
+				"description: Local development",
+				"values:",
+				"  apiUrl: http://localhost:3000",
+				"  features:",
+				"    debug: true",
+			].join("\n");
+			const json = JSON.stringify({
+				description: "Local development",
+				values: { apiUrl: "http://localhost:3000", features: { debug: true } },
+			});
+
+			const expected = {
+				description: "Local development",
+				values: { apiUrl: "http://localhost:3000", features: { debug: true } },
+				promptPaths: [],
+			};
+			expect(parseTemplate("local", yaml, ".yaml")).toEqual(expected);
+			expect(parseTemplate("local", json, ".json")).toEqual(expected);
+		});
+
+		it("should prompt for blank values and required paths", () => {
+			const template = parseTemplate(
+				"staging",
+				[
+					"values:",
+					"  apiUrl: ''",
+					"  apiKey:",
+					"  defaultRegion: eu-west-1",
+					"required: [description, apiKey]",
+				].join("\n"),
+				".yml",
+			);
+
+			expect(template.values).toEqual({ defaultRegion: "eu-west-1" });
+			expect(template.promptPaths).toEqual(["apiUrl", "apiKey", "description"]);
+		});
+
+		it("should reject templates that cannot be used", () => {
+			expect(() => parseTemplate("broken", "{", ".json")).toThrow(ConfigTemplateError);
+			expect(() => parseTemplate("list", "- a\n- b", ".yaml")).toThrow(ConfigTemplateError);
+			expect(() => parseTemplate("named", '{"values":{"name":"x"}}', ".json")).toThrow(
+				"Invalid template 'named': 'name' is given when the configuration is created",
+			);
+			expect(() => parseTemplate("path", '{"required":["a..b"]}', ".json")).toThrow(
+				ConfigTemplateError,
+			);
+		});
+	});
+
+	describe("listTemplates and loadTemplate", () => {
+		let rootDir: string;
+		let directories: TemplateDirectory[];
+
+		beforeEach(() => {
+			rootDir = mkdtempSync(join(tmpdir(), "config-templates-test-"));
+			directories = [
+				{ path: join(rootDir, "built-in"), source: "built-in" },
+				{ path: join(rootDir, "user"), source: "user" },
+			];
+			for (const { path } of directories) {
+				mkdirSync(path);
+			}
+			writeFileSync(join(rootDir, "built-in", "local.yaml"), "description: Built-in\n");
+			writeFileSync(join(rootDir, "built-in", "ci.json"), '{"values":{"apiUrl":null}}');
+			writeFileSync(join(rootDir, "user", "local.json"), '{"description":"Mine"}');
+			writeFileSync(join(rootDir, "user", "notes.txt"), "not a template");
+		});
+
+		afterEach(() => {
+			rmSync(rootDir, { recursive: true, force: true });
+			vi.restoreAllMocks();
+		});
+
+		it("should let user templates override built-in ones", () => {
+			const templates = listTemplates(directories);
+
+			expect(templates.map(({ name, source }) => ({ name, source }))).toEqual([
+				{ name: "ci", source: "built-in" },
+				{ name: "local", source: "user" },
+			]);
+			expect(templates[1]?.description).toBe("Mine");
+			expect(loadTemplate("local", directories)?.filePath).toBe(
+				join(rootDir, "user", "local.json"),
+			);
+			expect(loadTemplate("ci", directories)?.promptPaths).toEqual(["apiUrl"]);
+		});
+
+		it("should skip broken templates when listing but report them when loaded", () => {
+			const warn = vi.spyOn(Logger, "warn").mockImplementation(() => {});
+			writeFileSync(join(rootDir, "user", "broken.json"), "{");
+
+			expect(listTemplates(directories).map(({ name }) => name)).toEqual(["ci", "local"]);
+			expect(warn).toHaveBeenCalledOnce();
+			expect(() => loadTemplate("broken", directories)).toThrow(ConfigTemplateError);
+		});
+
+		it("should only find templates by their file name", () => {
+			expect(loadTemplate("missing", directories)).toBeNull();
+			expect(loadTemplate("../built-in/ci", directories)).toBeNull();
+			expect(listTemplates([{ path: join(rootDir, "nope"), source: "user" }])).toEqual([]);
+		});
+	});
+
+	describe("getMissingTemplatePaths", () => {
+		it("should leave out the values given on the command line", () => {
+			const template = { promptPaths: ["apiUrl", "features.debug", "description"] };
+
+			expect(
+				getMissingTemplatePaths(template, { apiUrl: "x", features: { debug: false } }),
+			).toEqual(["description"]);
+		});
+	});
+});
@@ -0,0 +1,89 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type ConfigManager, createConfigManager } from "../utils/configManager";
+
+describe("configManager events", () => {
+	let configDir: string;
+	let watching: ConfigManager;
+	let other: ConfigManager;
+
+	beforeEach(() => {
+		configDir = mkdtempSync(join(tmpdir(), "config-watch-test-"));
+		watching = createConfigManager({ configDir, watchDebounceMs: 20 });
+		// Stands in for another terminal changing the same directory
+		other = createConfigManager({ configDir });
+		other.saveConfig({ name: "dev", description: "Development" });
+	});
+
+	afterEach(() => {
+		watching.close();
+		rmSync(configDir, { recursive: true, force: true });
+	});
+
+	const waitFor = (assertion: () => void) => vi.waitFor(assertion, { timeout: 2000, interval: 20 });
+
+	it("should report created, changed and deleted configurations", async () => {
+		const events: string[] = [];
+		watching.on("change", (name) => events.push(`change:${name}`));
+		watching.on("delete", (name) => events.push(`delete:${name}`));
+
+		other.saveConfig({ name: "prod" });
+		await waitFor(() => expect(events).toEqual(["change:prod"]));
+
+		other.saveConfig({ name: "dev", description: "Changed" });
+		await waitFor(() => expect(events).toEqual(["change:prod", "change:dev"]));
+
+		other.deleteConfig("prod");
+		await waitFor(() => expect(events).toEqual(["change:prod", "change:dev", "delete:prod"]));
+	});
+
+	it("should report switches of the active configuration", async () => {
+		const listener = vi.fn();
+		watching.on("switch", listener);
+
+		other.setCurrentConfig("dev");
+
+		await waitFor(() => expect(listener).toHaveBeenCalledWith("dev", null));
+	});
+
+	it("should ignore writes that leave a file unchanged", async () => {
+		const listener = vi.fn();
+		watching.on("change", listener);
+
+		writeFileSync(join(configDir, "stray.txt"), "ignored");
+		other.saveConfig({ name: "dev", description: "Development" });
+		other.saveConfig({ name: "prod" });
+
+		await waitFor(() => expect(listener).toHaveBeenCalledWith("prod"));
+		expect(listener).toHaveBeenCalledTimes(1);
+	});
+
+	it("should hot-reload the active configuration only", async () => {
+		other.saveConfig({ name: "prod" });
+		other.setCurrentConfig("dev");
+		const listener = vi.fn();
+		const unsubscribe = watching.watchActiveConfig(listener);
+
+		other.saveConfig({ name: "prod", description: "Not active" });
+		other.saveConfig({ name: "dev", description: "Reloaded" });
+		await waitFor(() =>
+			expect(listener).toHaveBeenLastCalledWith({ name: "dev", description: "Reloaded" }, "dev"),
+		);
+
+		other.setCurrentConfig("prod");
+		await waitFor(() =>
+			expect(listener).toHaveBeenLastCalledWith(
+				{ name: "prod", description: "Not active" },
+				"prod",
+			),
+		);
+		expect(listener).toHaveBeenCalledTimes(2);
+
+		unsubscribe();
+		other.saveConfig({ name: "prod", description: "Unwatched" });
+		await new Promise((resolve) => setTimeout(resolve, 100));
+		expect(listener).toHaveBeenCalledTimes(2);
+	});
+});
@@ -0,0 +1,20 @@
+/**
+ * Child process used by the concurrency tests: hammers a shared config directory
+ * Usage: node --import tsx configWorker.ts <configDir> <workerId> <iterations>
+ */
+import { createConfigManager } from "../../utils/configManager";
+
+const [configDir, workerId, iterations] = process.argv.slice(2);
+const manager = createConfigManager({ configDir: configDir as string });
+
+for (let iteration = 0; iteration < Number(iterations); iteration++) {
+	const ownName = `worker-${workerId}-${iteration}`;
+
+	manager.saveConfig({ name: ownName, description: `iteration ${iteration}` });
+	manager.saveConfig({ name: "shared", description: `worker ${workerId} iteration ${iteration}` });
+	manager.setCurrentConfig(ownName);
+
+	if (iteration > 0) {
+		manager.deleteConfig(`worker-${workerId}-${iteration - 1}`);
+	}
+}
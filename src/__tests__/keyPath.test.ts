@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+	deepMerge,
+	flattenObject,
+	getValueAtPath,
+	parseAssignment,
+	setValueAtPath,
+	splitKeyPath,
+	unsetValueAtPath,
+} from "../utils/keyPath";
+
+describe("keyPath", () => {
+	describe("splitKeyPath", () => {
+		it("should split dotted paths", () => {
+			expect(splitKeyPath("features.enableCache")).toEqual(["features", "enableCache"]);
+		});
+
+		it("should reject empty segments", () => {
+			expect(() => splitKeyPath("features..enableCache")).toThrow("Invalid key path");
+			expect(() => splitKeyPath("")).toThrow("Invalid key path");
+		});
+
+		it("should reject prototype segments", () => {
+			expect(() => splitKeyPath("__proto__.polluted")).toThrow("Invalid key path");
+		});
+	});
+
+	describe("parseAssignment", () => {
+		it("should split on the first equals sign", () => {
+			expect(parseAssignment("apiUrl=https://x.test/?a=b")).toEqual({
+				key: "apiUrl",
+				value: "https://x.test/?a=b",
+			});
+		});
+
+		it("should allow empty values", () => {
+			expect(parseAssignment("description=")).toEqual({ key: "description", value: "" });
+		});
+
+		it("should reject assignments without a key", () => {
+			expect(() => parseAssignment("=value")).toThrow("expected key=value");
+			expect(() => parseAssignment("novalue")).toThrow("expected key=value");
+		});
+	});
+
+	describe("getValueAtPath / setValueAtPath", () => {
+		it("should create intermediate objects", () => {
+			const target: Record<string, unknown> = { name: "dev" };
+			setValueAtPath(target, "features.enableCache", true);
+			expect(target).toEqual({ name: "dev", features: { enableCache: true } });
+			expect(getValueAtPath(target, "features.enableCache")).toBe(true);
+		});
+
+		it("should return undefined for missing paths", () => {
+			expect(getValueAtPath({ name: "dev" }, "features.enableCache")).toBeUndefined();
+			expect(getValueAtPath({ name: "dev" }, "name.length")).toBeUndefined();
+		});
+
+		it("should refuse to descend into non-object values", () => {
+			expect(() => setValueAtPath({ name: "dev" }, "name.first", "x")).toThrow("is not an object");
+		});
+	});
+
+	describe("unsetValueAtPath", () => {
+		it("should remove the value and prune empty parents", () => {
+			const target: Record<string, unknown> = { name: "dev", features: { enableCache: true } };
+			expect(unsetValueAtPath(target, "features.enableCache")).toBe(true);
+			expect(target).toEqual({ name: "dev" });
+		});
+
+		it("should keep parents that still have values", () => {
+			const target: Record<string, unknown> = {
+				features: { enableCache: true, enableMetrics: false },
+			};
+			unsetValueAtPath(target, "features.enableCache");
+			expect(target).toEqual({ features: { enableMetrics: false } });
+		});
+
+		it("should return false when nothing was removed", () => {
+			expect(unsetValueAtPath({ name: "dev" }, "features.enableCache")).toBe(false);
+		});
+	});
+
+	describe("flattenObject", () => {
+		it("should map nested values to dotted paths", () => {
+			const leaves = flattenObject({ name: "dev", features: { enableCache: true }, tags: ["a"] });
+			expect([...leaves]).toEqual([
+				["name", "dev"],
+				["features.enableCache", true],
+				["tags", ["a"]],
+			]);
+		});
+	});
+
+	describe("deepMerge", () => {
+		it("should merge nested objects and replace arrays", () => {
+			const base = { features: { enableCache: true, enableMetrics: false }, tags: ["a", "b"] };
+			const merged = deepMerge(base, { features: { enableMetrics: true }, tags: ["c"] });
+
+			expect(merged).toEqual({
+				features: { enableCache: true, enableMetrics: true },
+				tags: ["c"],
+			});
+			expect(base.features.enableMetrics).toBe(false);
+		});
+	});
+});
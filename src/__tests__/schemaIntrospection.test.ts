@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+	coerceValue,
+	getSchemaAtPath,
+	getSchemaDefault,
+	getSchemaDefaults,
+	getSchemaLabel,
+	getSchemaLeafPaths,
+	unwrapSchema,
+} from "../utils/schemaIntrospection";
+
+const ExtendedSchema = z.object({
+	name: z.string(),
+	description: z.string().optional(),
+	timeout: z.number().positive().default(5000),
+	environment: z.enum(["development", "staging", "production"]),
+	features: z
+		.object({
+			enableCache: z.boolean(),
+		})
+		.optional(),
+	tags: z.array(z.string()).optional(),
+	port: z.union([z.number(), z.literal("auto")]).optional(),
+	proxy: z.string().nullable().optional(),
+});
+
+describe("schemaIntrospection", () => {
+	describe("unwrapSchema", () => {
+		it("should unwrap optional and default wrappers", () => {
+			expect(unwrapSchema(z.number().default(1).optional())).toBeInstanceOf(z.ZodNumber);
+		});
+	});
+
+	describe("getSchemaDefault", () => {
+		it("should find the default through wrappers", () => {
+			expect(getSchemaDefault(z.number().default(5).optional())).toEqual({ value: 5 });
+			expect(getSchemaDefault(z.number().optional())).toBeUndefined();
+		});
+	});
+
+	describe("getSchemaLabel", () => {
+		it("should prefer the title given with meta", () => {
+			expect(getSchemaLabel("apiUrl", z.string().meta({ title: "API URL" }).optional())).toBe(
+				"API URL",
+			);
+			expect(getSchemaLabel("apiUrl", z.string())).toBe("Api url");
+			expect(getSchemaLabel("max_retries", z.number())).toBe("Max retries");
+		});
+	});
+
+	describe("getSchemaAtPath", () => {
+		it("should resolve nested object paths", () => {
+			const schema = getSchemaAtPath(ExtendedSchema, "features.enableCache");
+			expect(schema && unwrapSchema(schema)).toBeInstanceOf(z.ZodBoolean);
+		});
+
+		it("should return undefined for unknown keys", () => {
+			expect(getSchemaAtPath(ExtendedSchema, "features.unknown")).toBeUndefined();
+			expect(getSchemaAtPath(ExtendedSchema, "name.length")).toBeUndefined();
+		});
+	});
+
+	describe("getSchemaDefaults / getSchemaLeafPaths", () => {
+		const schema = z.object({
+			name: z.string(),
+			timeout: z.number().default(5000).optional(),
+			features: z.object({ enableCache: z.boolean().default(true) }),
+			proxy: z.object({ port: z.number().default(8080) }).optional(),
+		});
+
+		it("should collect nested defaults", () => {
+			expect(getSchemaDefaults(schema)).toEqual({ timeout: 5000, features: { enableCache: true } });
+		});
+
+		it("should list leaf paths", () => {
+			expect(getSchemaLeafPaths(schema)).toEqual([
+				"name",
+				"timeout",
+				"features.enableCache",
+				"proxy.port",
+			]);
+		});
+	});
+
+	describe("coerceValue", () => {
+		it("should coerce numbers and booleans", () => {
+			expect(coerceValue(getSchemaAtPath(ExtendedSchema, "timeout"), "3000")).toBe(3000);
+			expect(coerceValue(getSchemaAtPath(ExtendedSchema, "features.enableCache"), "no")).toBe(
+				false,
+			);
+		});
+
+		it("should reject values that cannot be converted", () => {
+			expect(() => coerceValue(getSchemaAtPath(ExtendedSchema, "timeout"), "soon")).toThrow(
+				"Expected a number",
+			);
+			expect(() =>
+				coerceValue(getSchemaAtPath(ExtendedSchema, "features.enableCache"), "maybe"),
+			).toThrow("Expected a boolean");
+		});
+
+		it("should keep strings and enum values as strings", () => {
+			expect(coerceValue(getSchemaAtPath(ExtendedSchema, "description"), "123")).toBe("123");
+			expect(coerceValue(getSchemaAtPath(ExtendedSchema, "environment"), "staging")).toBe(
+				"staging",
+			);
+		});
+
+		it("should parse JSON for arrays", () => {
+			expect(coerceValue(getSchemaAtPath(ExtendedSchema, "tags"), '["a","b"]')).toEqual(["a", "b"]);
+		});
+
+		it("should pick the matching union member", () => {
+			const schema = getSchemaAtPath(ExtendedSchema, "port");
+			expect(coerceValue(schema, "8080")).toBe(8080);
+			expect(coerceValue(schema, "auto")).toBe("auto");
+		});
+
+		it("should map null for nullable fields", () => {
+			expect(coerceValue(getSchemaAtPath(ExtendedSchema, "proxy"), "null")).toBeNull();
+		});
+
+		it("should infer JSON literals when the schema is unknown", () => {
+			expect(coerceValue(undefined, "true")).toBe(true);
+			expect(coerceValue(undefined, "42")).toBe(42);
+			expect(coerceValue(undefined, "hello")).toBe("hello");
+		});
+	});
+});
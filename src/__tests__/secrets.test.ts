@@ -0,0 +1,130 @@
+import { mkdtempSync, readFileSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { ConfigSecretError } from "../utils/errors";
+import {
+	getSecretKeySourceFromEnv,
+	getSecretPaths,
+	isEncryptedValue,
+	maskPaths,
+	SECRET_MASK,
+	SecretCipher,
+	secret,
+} from "../utils/secrets";
+
+const SecretSchema = z.object({
+	name: z.string(),
+	apiKey: secret(z.string()).optional(),
+	database: z
+		.object({
+			host: z.string(),
+			password: secret(z.string().min(1)).default("changeme"),
+		})
+		.optional(),
+});
+
+describe("secrets", () => {
+	describe("getSecretPaths", () => {
+		it("should find secret fields through wrappers and nested objects", () => {
+			expect(getSecretPaths(SecretSchema)).toEqual(["apiKey", "database.password"]);
+		});
+
+		it("should keep the mark through .describe() and .meta()", () => {
+			const schema = z.object({
+				a: secret(z.string()),
+				b: secret(z.string()).describe("Second secret").optional(),
+				c: secret(z.string()).meta({ title: "Third secret" }).describe("Chained"),
+			});
+
+			expect(getSecretPaths(schema)).toEqual(["a", "b", "c"]);
+		});
+
+		it("should return nothing for schemas without secrets", () => {
+			expect(getSecretPaths(z.object({ name: z.string() }))).toEqual([]);
+		});
+	});
+
+	describe("maskPaths", () => {
+		it("should mask only the values that are present", () => {
+			const masked = maskPaths({ name: "dev", apiKey: "abc" }, ["apiKey", "database.password"]);
+			expect(masked).toEqual({ name: "dev", apiKey: SECRET_MASK });
+		});
+	});
+
+	describe("SecretCipher", () => {
+		let dir: string;
+
+		beforeEach(() => {
+			dir = mkdtempSync(join(tmpdir(), "secrets-test-"));
+		});
+
+		afterEach(() => {
+			rmSync(dir, { recursive: true, force: true });
+		});
+
+		it("should round-trip values of any JSON type", () => {
+			const cipher = new SecretCipher({ passphrase: "correct horse" });
+
+			for (const value of ["token", 42, { nested: true }]) {
+				const encrypted = cipher.encrypt(value);
+				expect(isEncryptedValue(encrypted)).toBe(true);
+				expect(encrypted).not.toContain("token");
+				expect(cipher.decrypt(encrypted)).toEqual(value);
+			}
+		});
+
+		it("should reject the wrong passphrase", () => {
+			const encrypted = new SecretCipher({ passphrase: "right" }).encrypt("token");
+			expect(() => new SecretCipher({ passphrase: "wrong" }).decrypt(encrypted)).toThrow(
+				ConfigSecretError,
+			);
+		});
+
+		it("should detect tampering", () => {
+			const cipher = new SecretCipher({ passphrase: "right" });
+			const encrypted = cipher.encrypt("token");
+			const tampered = `${encrypted.slice(0, -2)}AA`;
+			expect(() => cipher.decrypt(tampered)).toThrow(ConfigSecretError);
+		});
+
+		it("should generate a private key file on first use", () => {
+			const keyFile = join(dir, "secret.key");
+			const encrypted = new SecretCipher({ keyFile }).encrypt("token");
+
+			expect(readFileSync(keyFile, "utf-8").length).toBeGreaterThan(0);
+			expect(statSync(keyFile).mode & 0o777).toBe(0o600);
+			expect(new SecretCipher({ keyFile }).decrypt(encrypted)).toBe("token");
+		});
+
+		it("should encrypt and decrypt paths, naming the failing field", () => {
+			const cipher = new SecretCipher({ passphrase: "right" });
+			const paths = getSecretPaths(SecretSchema);
+			const data = { name: "dev", database: { host: "db", password: "hunter2" } };
+
+			const encrypted = cipher.encryptPaths(data, paths);
+			expect(isEncryptedValue((encrypted.database as Record<string, unknown>).password)).toBe(true);
+			expect(cipher.decryptPaths(encrypted, paths)).toEqual(data);
+
+			expect(() =>
+				new SecretCipher({ passphrase: "wrong" }).decryptPaths(encrypted, paths),
+			).toThrow("database.password");
+		});
+	});
+
+	describe("getSecretKeySourceFromEnv", () => {
+		it("should prefer the passphrase over the key file", () => {
+			expect(
+				getSecretKeySourceFromEnv("APP", {
+					APP_SECRET_PASSPHRASE: "pass",
+					APP_SECRET_KEY_FILE: "/tmp/key",
+				}),
+			).toEqual({ passphrase: "pass" });
+			expect(getSecretKeySourceFromEnv("APP", { APP_SECRET_KEY_FILE: "/tmp/key" })).toEqual({
+				keyFile: "/tmp/key",
+			});
+			expect(getSecretKeySourceFromEnv("APP", {})).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,74 @@
+import config from "../../utils/config";
+import { configManager } from "../../utils/configManager";
+import { parseAssignment, setValueAtPath } from "../../utils/keyPath";
+import { Logger } from "../../utils/Logger";
+import { coerceValue, getSchemaAtPath } from "../../utils/schemaIntrospection";
+import { checkConfigName } from "./helpers";
+
+/**
+ * Options accepted by `config copy`
+ */
+export interface CopyConfigOptions {
+	set?: string[];
+}
+
+/**
+ * Creates a new configuration from an existing one, optionally changing some values
+ */
+export async function copyConfig(
+	sourceName: string,
+	targetName: string,
+	options: CopyConfigOptions = {},
+): Promise<void> {
+	const destination = targetName.trim();
+
+	if (!checkConfigName(sourceName) || !checkConfigName(destination)) {
+		return;
+	}
+
+	if (!(await configManager.promises.configExists(sourceName))) {
+		Logger.error(`Configuration '${sourceName}' not found`);
+		Logger.info(`Use '${config.appName} config list' to see available configurations`);
+		process.exitCode = 1;
+		return;
+	}
+
+	if (await configManager.promises.configExists(destination)) {
+		Logger.error(`A configuration named '${destination}' already exists`);
+		process.exitCode = 1;
+		return;
+	}
+
+	try {
+		const overrides: Record<string, unknown> = {};
+
+		for (const assignment of options.set ?? []) {
+			const { key, value } = parseAssignment(assignment);
+
+			if (key === "name") {
+				Logger.error("The copy is named after <dest>; 'name' cannot be set with --set");
+				process.exitCode = 1;
+				return;
+			}
+
+			setValueAtPath(
+				overrides,
+				key,
+				coerceValue(getSchemaAtPath(configManager.getSchema(), key), value),
+			);
+		}
+
+		if (!(await configManager.promises.copyConfig(sourceName, destination, overrides))) {
+			Logger.error(`Failed to copy configuration '${sourceName}'`);
+			process.exitCode = 1;
+			return;
+		}
+
+		Logger.info(`Configuration '${sourceName}' copied to '${destination}'`);
+		Logger.info(`Use '${config.appName} config use ${destination}' to activate it`);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error("Error copying configuration:", errorMessage);
+		process.exitCode = 1;
+	}
+}
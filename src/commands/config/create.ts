@@ -1,18 +1,39 @@
+import { readFileSync } from "node:fs";
 import inquirer from "inquirer";
+import { promptForm } from "../../utils/configForm";
 import { type AppConfig, configManager } from "../../utils/configManager";
+import { getConfigNameProblem } from "../../utils/configNames";
+import { getMissingTemplatePaths } from "../../utils/configTemplates";
+import { deepMerge, isPlainObject, parseAssignment, setValueAtPath } from "../../utils/keyPath";
 import { Logger } from "../../utils/Logger";
+import { coerceValue, getSchemaAtPath } from "../../utils/schemaIntrospection";
+import { checkConfigName, findTemplate } from "./helpers";
 
 /**
- * Validates that the configuration name is not empty and doesn't already exist
+ * Options accepted by `config create`
  */
-function validateConfigName(input: string): string | boolean {
+export interface CreateConfigOptions {
+	name?: string;
+	description?: string;
+	set?: string[];
+	fromFile?: string;
+	fromStdin?: boolean;
+	activate?: boolean;
+	template?: string;
+}
+
+/**
+ * Validates that the configuration name follows the naming policy and doesn't already exist
+ */
+async function validateConfigName(input: string): Promise<string | boolean> {
 	const trimmedInput = input.trim();
+	const problem = getConfigNameProblem(trimmedInput);
 
-	if (!trimmedInput) {
-		return "Configuration name is required";
+	if (problem) {
+		return problem;
 	}
 
-	if (configManager.listConfigs().includes(trimmedInput)) {
+	if (await configManager.promises.configExists(trimmedInput)) {
 		return "A configuration with that name already exists";
 	}
 
@@ -20,74 +41,183 @@ function validateConfigName(input: string): string | boolean {
 }
 
 /**
- * Prompts the user for configuration details
- * Customize these prompts for your application needs
+ * Reads all data piped to stdin
+ */
+async function readStdin(): Promise<string> {
+	const chunks: Buffer[] = [];
+	for await (const chunk of process.stdin) {
+		chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+	}
+	return Buffer.concat(chunks).toString("utf-8");
+}
+
+/**
+ * Parses a JSON document that must contain a configuration object
  */
-async function promptConfigDetails(): Promise<AppConfig & { setAsCurrent: boolean }> {
-	return inquirer.prompt([
+function parseConfigDocument(content: string, source: string): Record<string, unknown> {
+	let parsed: unknown;
+
+	try {
+		parsed = JSON.parse(content);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		throw new Error(`Invalid JSON in ${source}: ${errorMessage}`);
+	}
+
+	if (!isPlainObject(parsed)) {
+		throw new Error(`Expected a JSON object in ${source}`);
+	}
+
+	return parsed;
+}
+
+/**
+ * Builds the configuration values given on the command line
+ * Precedence (lowest to highest): --from-file / --from-stdin, --name / --description, --set
+ */
+async function collectProvidedValues(
+	options: CreateConfigOptions,
+): Promise<Record<string, unknown>> {
+	let values: Record<string, unknown> = {};
+
+	if (options.fromFile) {
+		values = parseConfigDocument(readFileSync(options.fromFile, "utf-8"), options.fromFile);
+	} else if (options.fromStdin) {
+		values = parseConfigDocument(await readStdin(), "stdin");
+	}
+
+	if (options.name !== undefined) {
+		values.name = options.name;
+	}
+
+	if (options.description !== undefined) {
+		values.description = options.description;
+	}
+
+	for (const assignment of options.set ?? []) {
+		const { key, value } = parseAssignment(assignment);
+		setValueAtPath(
+			values,
+			key,
+			coerceValue(getSchemaAtPath(configManager.getSchema(), key), value),
+		);
+	}
+
+	return values;
+}
+
+/**
+ * Prompts the user for the configuration details that were not provided
+ * Every field of the configuration schema is asked for, except the name, which gets its own
+ * prompt; with a template, only the values it leaves to the user are
+ * @param templatePaths - Values the template used leaves to the user
+ */
+async function promptConfigDetails(
+	provided: Record<string, unknown>,
+	activate: boolean | undefined,
+	templatePaths: string[] | undefined,
+): Promise<Record<string, unknown> & { setAsCurrent?: boolean }> {
+	const answers = await inquirer.prompt([
 		{
 			type: "input",
 			name: "name",
 			message: "Configuration name:",
 			validate: validateConfigName,
+			when: () => provided.name === undefined,
 		},
-		{
-			type: "input",
-			name: "description",
-			message: "Description (optional):",
-		},
-		// TEMPLATE: Add your custom configuration fields here
-		// Example:
-		// {
-		//   type: "input",
-		//   name: "apiUrl",
-		//   message: "API URL:",
-		//   validate: (input) => input.trim() ? true : "API URL is required",
-		// },
-		// {
-		//   type: "password",
-		//   name: "apiKey",
-		//   message: "API Key:",
-		//   validate: (input) => input.trim() ? true : "API Key is required",
-		// },
+	]);
+	const values = await promptForm(configManager.getSchema(), {
+		values: provided,
+		exclude: ["name"],
+		...(templatePaths && { paths: templatePaths }),
+		// Inherited values need not be repeated
+		allowMissing: provided.extends !== undefined,
+	});
+	const { setAsCurrent } = await inquirer.prompt([
 		{
 			type: "confirm",
 			name: "setAsCurrent",
 			message: "Set as active configuration?",
 			default: true,
+			when: () => activate === undefined,
 		},
 	]);
+
+	return { ...answers, ...values, setAsCurrent };
 }
 
 /**
- * Creates a new configuration interactively
+ * Creates a new configuration
+ * Values can come from a template, flags, a JSON file or stdin; when a TTY is available the
+ * user is prompted for anything missing, otherwise missing required fields are an error
  */
-export async function createConfig(): Promise<void> {
+export async function createConfig(options: CreateConfigOptions = {}): Promise<void> {
 	Logger.info("🔧 Create new configuration\n");
 
 	try {
-		const answers = await promptConfigDetails();
+		const template = options.template ? findTemplate(options.template) : null;
+		if (options.template && !template) {
+			process.exitCode = 1;
+			return;
+		}
+
+		const given = await collectProvidedValues(options);
+		// The name is always asked for, and never comes from a template
+		const templatePaths = template
+			? getMissingTemplatePaths(template, given).filter((path) => path !== "name")
+			: undefined;
+		let provided = template ? deepMerge(template.values, given) : given;
+		const interactive = Boolean(process.stdin.isTTY) && !options.fromStdin;
+		let setAsCurrent = options.activate;
+
+		if (template && templatePaths && templatePaths.length > 0 && !interactive) {
+			Logger.error(`Template '${template.name}' needs a value for: ${templatePaths.join(", ")}`);
+			Logger.info("Pass them with --set <key=value>");
+			process.exitCode = 1;
+			return;
+		}
+
+		if (interactive) {
+			const answers = await promptConfigDetails(provided, options.activate, templatePaths);
+			const { setAsCurrent: answeredSetAsCurrent, ...answeredValues } = answers;
+			provided = deepMerge(provided, answeredValues);
+			setAsCurrent ??= answeredSetAsCurrent;
+		}
 
-		const config: AppConfig = {
-			name: answers.name.trim(),
-			description: answers.description?.trim(),
-			// TEMPLATE: Add your custom config properties here
-			// Example:
-			// apiUrl: answers.apiUrl.trim(),
-			// apiKey: answers.apiKey.trim(),
-		};
+		const config = {
+			...provided,
+			name: typeof provided.name === "string" ? provided.name.trim() : provided.name,
+			description:
+				typeof provided.description === "string"
+					? provided.description.trim() || undefined
+					: provided.description,
+		} as AppConfig;
+
+		if (typeof config.name === "string" && !checkConfigName(config.name)) {
+			return;
+		}
+
+		if (
+			typeof config.name === "string" &&
+			(await configManager.promises.configExists(config.name))
+		) {
+			Logger.error(`A configuration named '${config.name}' already exists`);
+			process.exitCode = 1;
+			return;
+		}
 
-		const saved = configManager.saveConfig(config);
+		const saved = await configManager.promises.saveConfig(config);
 
 		if (!saved) {
 			Logger.error("Failed to save configuration");
+			process.exitCode = 1;
 			return;
 		}
 
 		Logger.info(`Configuration '${config.name}' created successfully`);
 
-		if (answers.setAsCurrent) {
-			const activated = configManager.setCurrentConfig(config.name);
+		if (setAsCurrent ?? true) {
+			const activated = await configManager.promises.setCurrentConfig(config.name);
 
 			if (activated) {
 				Logger.info(`Configuration '${config.name}' set as active`);
@@ -98,8 +228,8 @@ export async function createConfig(): Promise<void> {
 
 		Logger.debug(`📁 Saved in: ${configManager.getConfigDir()}`);
 	} catch (error) {
-		Logger.error("Error creating configuration");
 		const errorMessage = error instanceof Error ? error.message : String(error);
-		Logger.debug("Error details:", errorMessage);
+		Logger.error("Error creating configuration:", errorMessage);
+		process.exitCode = 1;
 	}
 }
@@ -1,50 +1,83 @@
 import chalk from "chalk";
 import config from "../../utils/config";
-import { type AppConfig, configManager } from "../../utils/configManager";
+import { formatConfigDetails } from "../../utils/configDisplay";
+import { type AppConfig, type CurrentConfigInfo, configManager } from "../../utils/configManager";
 import { Logger } from "../../utils/Logger";
 
 /**
- * Displays current configuration details
- * Customize this to show your application's config properties
+ * Displays current configuration details, with secrets masked
  */
 function displayCurrentConfigDetails(configData: AppConfig): void {
-	if (configData.description) {
-		console.log(`   📝 ${configData.description}`);
+	const lines = formatConfigDetails(
+		configManager.maskSecrets(configData),
+		configManager.getSchema(),
+		["name"],
+	);
+	for (const line of lines) {
+		console.log(`   ${line}`);
 	}
+}
 
-	// TEMPLATE: Add your custom config properties display here
-	// Example:
-	// if ('apiUrl' in configData) {
-	//   console.log(`   🌐 API: ${configData.apiUrl}`);
-	// }
-	// if ('apiKey' in configData) {
-	//   console.log(`   🔑 Key: ${"*".repeat(Math.min(configData.apiKey.length, 20))}`);
-	// }
+/**
+ * Describes what made a configuration the active one
+ */
+function describeSource(current: CurrentConfigInfo): string {
+	switch (current.source) {
+		case "override":
+			return "selected with --config";
+		case "pin":
+			return `pinned by ${current.pinFile}`;
+		case "pointer":
+			return `set with '${config.appName} config use'`;
+	}
+}
+
+/**
+ * Options accepted by `config current`
+ */
+export interface ShowCurrentConfigOptions {
+	raw?: boolean;
 }
 
 /**
  * Shows the currently active configuration
+ * Placeholders such as `${env:API_TOKEN}` are shown expanded unless `--raw` is given
  */
-export async function showCurrentConfig(): Promise<void> {
-	const currentConfigName = configManager.getCurrentConfig();
+export async function showCurrentConfig(options: ShowCurrentConfigOptions = {}): Promise<void> {
+	const current = await configManager.promises.getCurrentConfigInfo();
 
-	if (!currentConfigName) {
+	if (!current) {
 		Logger.warn("No active configuration");
 		Logger.info(`Use '${config.appName} config list' to see available configurations`);
 		Logger.info(`Use '${config.appName} config use <name>' to activate one`);
 		return;
 	}
 
-	const configData = configManager.getConfig(currentConfigName);
+	const currentConfigName = current.name;
+	const configData = await configManager.promises.getConfig(currentConfigName, {
+		raw: Boolean(options.raw),
+	});
+
+	if (!configData && (await configManager.promises.configExists(currentConfigName))) {
+		Logger.info(`Use '${config.appName} config current --raw' to show the stored values`);
+		process.exitCode = 1;
+		return;
+	}
 
 	if (!configData) {
 		Logger.error(`Error: active configuration '${currentConfigName}' not found`);
-		Logger.debug(`Current config '${currentConfigName}' exists in current.json but file not found`);
+		if (current.source === "pin") {
+			Logger.info(`It is ${describeSource(current)}`);
+		} else {
+			Logger.info(`Use '${config.appName} config doctor' to check the configuration directory`);
+		}
+		process.exitCode = 1;
 		return;
 	}
 
 	Logger.info("🎯 Active configuration\n");
 	console.log(`${chalk.green("●")} ${chalk.cyan(configData.name)}`);
+	console.log(`   📍 ${chalk.gray(describeSource(current))}`);
 	displayCurrentConfigDetails(configData);
 
 	Logger.debug(`\n📁 Location: ${configManager.getConfigDir()}`);
@@ -2,6 +2,7 @@ import inquirer from "inquirer";
 import config from "../../utils/config";
 import { configManager } from "../../utils/configManager";
 import { Logger } from "../../utils/Logger";
+import { checkConfigName, reportUnchangedPins } from "./helpers";
 
 /**
  * Prompts user to select a configuration from a list
@@ -33,12 +34,27 @@ async function confirmDeletion(configName: string): Promise<boolean> {
 	return confirmation.confirm;
 }
 
+/**
+ * Options accepted by `config delete`
+ */
+export interface DeleteConfigOptions {
+	force?: boolean;
+}
+
 /**
  * Deletes a configuration
  * If no name is provided, prompts the user to select one
+ * Configurations that others extend are only deleted with `--force`
  */
-export async function deleteConfig(name?: string): Promise<void> {
-	const configs = configManager.listConfigs();
+export async function deleteConfig(
+	name?: string,
+	options: DeleteConfigOptions = {},
+): Promise<void> {
+	if (name !== undefined && !checkConfigName(name)) {
+		return;
+	}
+
+	const configs = await configManager.promises.listConfigs();
 
 	if (configs.length === 0) {
 		Logger.warn("No configurations to delete");
@@ -63,9 +79,18 @@ export async function deleteConfig(name?: string): Promise<void> {
 		return;
 	}
 
-	const configData = configManager.getConfig(configToDelete);
+	const configData = await configManager.promises.getConfig(configToDelete, { raw: true });
 	if (!configData) {
 		Logger.error(`Configuration '${configToDelete}' not found`);
+		process.exitCode = 1;
+		return;
+	}
+
+	const dependents = await configManager.promises.listDependentConfigs(configToDelete);
+	if (dependents.length > 0 && !options.force) {
+		Logger.error(`Configuration '${configToDelete}' is extended by: ${dependents.join(", ")}`);
+		Logger.info("Use --force to delete it anyway; they will keep the values they inherit");
+		process.exitCode = 1;
 		return;
 	}
 
@@ -76,13 +101,25 @@ export async function deleteConfig(name?: string): Promise<void> {
 		return;
 	}
 
-	const success = configManager.deleteConfig(configToDelete);
+	const success = await configManager.promises.deleteConfig(configToDelete, {
+		force: Boolean(options.force),
+	});
 
 	if (success) {
 		Logger.info(`Configuration '${configToDelete}' deleted successfully`);
+		if (dependents.length > 0) {
+			Logger.info(`Values it provided were copied into: ${dependents.join(", ")}`);
+		}
+		if ((await configManager.promises.getConfigHistory(configToDelete)).length > 0) {
+			Logger.info(`Use '${config.appName} config rollback ${configToDelete}' to restore it`);
+		}
+		await reportUnchangedPins(
+			configToDelete,
+			`run '${config.appName} config unpin' where it was pinned`,
+		);
 
 		// If it was the active configuration, inform the user
-		const currentConfig = configManager.getCurrentConfig();
+		const currentConfig = await configManager.promises.getCurrentConfig();
 		if (!currentConfig) {
 			Logger.warn("No active configuration now");
 			if (configs.length > 1) {
@@ -91,5 +128,6 @@ export async function deleteConfig(name?: string): Promise<void> {
 		}
 	} else {
 		Logger.error(`Failed to delete configuration '${configToDelete}'`);
+		process.exitCode = 1;
 	}
 }
@@ -0,0 +1,125 @@
+import { existsSync, readFileSync } from "node:fs";
+import chalk from "chalk";
+import { type ConfigChange, diffConfigs, maskChanges } from "../../utils/configDiff";
+import { JSON_SCHEMA_KEY } from "../../utils/configJsonSchema";
+import { configManager } from "../../utils/configManager";
+import { SCHEMA_VERSION_KEY } from "../../utils/configMigrations";
+import { deepMerge, isPlainObject } from "../../utils/keyPath";
+import { Logger } from "../../utils/Logger";
+
+/**
+ * Options accepted by `config diff`
+ */
+export interface DiffConfigsOptions {
+	output?: "text" | "json";
+}
+
+/** Exit code used when the two sides differ (like diff(1)) */
+const EXIT_DIFFERENT = 1;
+/** Exit code used when a side cannot be loaded */
+const EXIT_ERROR = 2;
+
+/**
+ * Loads one side of the comparison: a stored configuration name or a JSON file path
+ * Stored names win over files with the same name in the working directory. Stored
+ * configurations are merged over the ones they extend, keeping their placeholders.
+ */
+async function loadSide(reference: string): Promise<Record<string, unknown>> {
+	if (await configManager.promises.configExists(reference)) {
+		const chain = await configManager.promises.getConfigChain(reference);
+		if (!chain) {
+			throw new Error(`Failed to load configuration '${reference}'`);
+		}
+		return chain.reduce<Record<string, unknown>>((merged, layer) => deepMerge(merged, layer), {});
+	}
+
+	if (!existsSync(reference)) {
+		throw new Error(`'${reference}' is neither a stored configuration nor a file`);
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(readFileSync(reference, "utf-8"));
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		throw new Error(`Invalid JSON in ${reference}: ${errorMessage}`);
+	}
+
+	if (!isPlainObject(parsed)) {
+		throw new Error(`Expected a JSON object in ${reference}`);
+	}
+
+	// Stored files carry a version stamp and a schema reference that are not part of the
+	// configuration
+	const { [SCHEMA_VERSION_KEY]: _version, [JSON_SCHEMA_KEY]: _schemaReference, ...data } = parsed;
+	return data;
+}
+
+/**
+ * Formats a value on a single line
+ */
+function formatValue(value: unknown): string {
+	return JSON.stringify(value);
+}
+
+/**
+ * Prints one change in a unified-diff-like style
+ */
+function displayChange(change: ConfigChange): void {
+	switch (change.kind) {
+		case "added":
+			console.log(chalk.green(`+ ${change.path}: ${formatValue(change.after)}`));
+			break;
+		case "removed":
+			console.log(chalk.red(`- ${change.path}: ${formatValue(change.before)}`));
+			break;
+		case "changed":
+			console.log(
+				chalk.yellow(
+					`~ ${change.path}: ${formatValue(change.before)} → ${formatValue(change.after)}`,
+				),
+			);
+			break;
+	}
+}
+
+/**
+ * Compares two configurations (stored names or JSON files) field by field
+ * Exits with 0 when they are identical, 1 when they differ and 2 on errors
+ */
+export async function diffConfigFiles(
+	left: string,
+	right: string,
+	options: DiffConfigsOptions = {},
+): Promise<void> {
+	try {
+		// `name` identifies a configuration and always differs between environments
+		const [{ name: _leftName, ...leftData }, { name: _rightName, ...rightData }] =
+			await Promise.all([loadSide(left), loadSide(right)]);
+		const changes = maskChanges(diffConfigs(leftData, rightData), configManager.getSecretPaths());
+
+		if (options.output === "json") {
+			console.log(
+				JSON.stringify({ left, right, identical: changes.length === 0, changes }, null, 2),
+			);
+		} else if (changes.length === 0) {
+			Logger.info(`No differences between '${left}' and '${right}'`);
+		} else {
+			console.log(chalk.gray(`--- ${left}`));
+			console.log(chalk.gray(`+++ ${right}`));
+			for (const change of changes) {
+				displayChange(change);
+			}
+			console.log();
+			Logger.info(`${changes.length} difference(s)`);
+		}
+
+		if (changes.length > 0) {
+			process.exitCode = EXIT_DIFFERENT;
+		}
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error("Error comparing configurations:", errorMessage);
+		process.exitCode = EXIT_ERROR;
+	}
+}
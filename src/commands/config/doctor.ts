@@ -0,0 +1,71 @@
+import chalk from "chalk";
+import config from "../../utils/config";
+import { type ConfigDiagnostic, configManager } from "../../utils/configManager";
+import { Logger } from "../../utils/Logger";
+
+/**
+ * Options accepted by `config doctor`
+ */
+export interface DoctorOptions {
+	fix?: boolean;
+}
+
+/**
+ * Prints one problem with its field-level details and the repair applied to it
+ */
+function displayDiagnostic(diagnostic: ConfigDiagnostic): void {
+	const marker = diagnostic.severity === "error" ? chalk.red("✗") : chalk.yellow("!");
+	console.log(
+		`${marker} ${chalk.cyan(diagnostic.file)} ${chalk.gray(`[${diagnostic.code}]`)} ${diagnostic.message}`,
+	);
+
+	for (const issue of diagnostic.issues ?? []) {
+		console.log(`   ${issue.path || "(root)"}: ${issue.message}`);
+	}
+
+	if (diagnostic.fix) {
+		console.log(`   🔧 ${diagnostic.fix}`);
+	}
+}
+
+/**
+ * Checks the configuration directory for problems and optionally repairs them
+ */
+export async function runDoctor(options: DoctorOptions = {}): Promise<void> {
+	Logger.info(`🩺 Checking ${configManager.getConfigDir()}\n`);
+
+	try {
+		const diagnostics = await configManager.promises.checkConfigDirectory({
+			fix: Boolean(options.fix),
+		});
+
+		if (diagnostics.length === 0) {
+			Logger.info("No problems found");
+			return;
+		}
+
+		for (const diagnostic of diagnostics) {
+			displayDiagnostic(diagnostic);
+		}
+
+		const fixed = diagnostics.filter((diagnostic) => diagnostic.fix).length;
+		const remainingErrors = diagnostics.filter(
+			(diagnostic) => diagnostic.severity === "error" && !diagnostic.fix,
+		).length;
+
+		console.log();
+		Logger.info(`${diagnostics.length} problem(s) found, ${fixed} fixed`);
+
+		if (!options.fix && fixed < diagnostics.length) {
+			Logger.info(`Run '${config.appName} config doctor --fix' to repair them`);
+		}
+
+		if (remainingErrors > 0) {
+			process.exitCode = 1;
+		}
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error("Error checking configurations:", errorMessage);
+		process.exitCode = 1;
+	}
+}
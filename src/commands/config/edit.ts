@@ -0,0 +1,164 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import config from "../../utils/config";
+import { addEditComments, launchEditor, stripEditComments } from "../../utils/configEditor";
+import { JSON_SCHEMA_FILE_NAME, JSON_SCHEMA_KEY } from "../../utils/configJsonSchema";
+import { type AppConfig, configManager } from "../../utils/configManager";
+import { toConfigSlug } from "../../utils/configNames";
+import { ConfigValidationError } from "../../utils/errors";
+import { flattenObject, getValueAtPath, isPlainObject } from "../../utils/keyPath";
+import { Logger } from "../../utils/Logger";
+import { resolveTargetConfigName } from "./helpers";
+
+/**
+ * Checks an edited configuration
+ * @param content - Edited file, without its comments
+ * @param original - Configuration as it was before editing
+ * @returns The validated configuration, or the problems to show in the editor
+ */
+async function checkEditedConfig(
+	content: string,
+	original: AppConfig,
+): Promise<{ config: AppConfig } | { problems: string[] }> {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(content);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		return { problems: [`Invalid JSON: ${errorMessage}`] };
+	}
+
+	if (!isPlainObject(parsed)) {
+		return { problems: ["Expected a JSON object"] };
+	}
+
+	const { [JSON_SCHEMA_KEY]: _schema, ...data } = parsed;
+	if (data.name !== original.name) {
+		return {
+			problems: [`name: Use '${config.appName} config rename' to change the configuration name`],
+		};
+	}
+
+	let validated: AppConfig;
+	try {
+		validated = await configManager.promises.validateConfig(data, original.name);
+	} catch (error) {
+		if (error instanceof ConfigValidationError) {
+			return {
+				problems: error.issues.map((issue) => `${issue.path || "(root)"}: ${issue.message}`),
+			};
+		}
+		return { problems: [error instanceof Error ? error.message : String(error)] };
+	}
+
+	// Keys the schema does not describe would be silently dropped on save
+	const unknownKeys = [...flattenObject(data).keys()].filter(
+		(path) => getValueAtPath(validated, path) === undefined,
+	);
+	if (unknownKeys.length > 0) {
+		return {
+			problems: unknownKeys.map((path) => `${path}: Not part of the configuration schema`),
+		};
+	}
+
+	return { config: validated };
+}
+
+/**
+ * Builds the comments shown above the configuration in the editor
+ */
+function buildEditComments(name: string, problems: string[]): string[] {
+	const comments = [
+		`Editing configuration '${name}'. Lines starting with '//' are ignored.`,
+		"Save and close the editor to apply the changes; save an empty file to cancel.",
+	];
+
+	if (problems.length > 0) {
+		comments.push("", "The configuration is not valid:", ...problems.map((line) => `  ${line}`));
+	}
+
+	return [...comments, ""];
+}
+
+/**
+ * Opens a configuration in `$VISUAL` or `$EDITOR`
+ * The configuration is saved once it is valid; until then the editor is reopened with the
+ * problems listed at the top. Leaving the file unchanged or emptying it cancels the edit.
+ * If it cannot be saved, e.g. because the stored configuration changed while it was edited,
+ * the edited file is kept for the user to apply again.
+ * Secrets are shown decrypted, in a file only the user can read that is removed afterwards.
+ */
+export async function editConfig(name?: string): Promise<void> {
+	const targetName = await resolveTargetConfigName(name);
+
+	if (!targetName) {
+		process.exitCode = 1;
+		return;
+	}
+
+	let tempDir: string | undefined;
+	let keepTempDir = false;
+
+	try {
+		const configData = await configManager.promises.getConfig(targetName, { raw: true });
+
+		if (!configData) {
+			Logger.error(`Failed to load configuration '${targetName}'`);
+			process.exitCode = 1;
+			return;
+		}
+
+		tempDir = await mkdtemp(join(tmpdir(), "config-edit-"));
+		const file = join(tempDir, `${toConfigSlug(targetName)}.json`);
+		// Lets editors complete and check the configuration while it is edited
+		const schemaUrl = pathToFileURL(join(configManager.getConfigDir(), JSON_SCHEMA_FILE_NAME));
+		let body = `${JSON.stringify({ [JSON_SCHEMA_KEY]: schemaUrl.href, ...configData }, null, 2)}\n`;
+		let problems: string[] = [];
+
+		for (;;) {
+			await writeFile(file, addEditComments(body, buildEditComments(targetName, problems)), {
+				mode: 0o600,
+			});
+			await launchEditor(file);
+			const edited = stripEditComments(await readFile(file, "utf-8"));
+
+			if (edited.trim() === "" || edited === body) {
+				if (problems.length > 0) {
+					Logger.error(`Edit cancelled; configuration '${targetName}' was not changed`);
+					process.exitCode = 1;
+				} else {
+					Logger.info("Edit cancelled, no changes made");
+				}
+				return;
+			}
+
+			body = edited;
+			const result = await checkEditedConfig(edited, configData);
+			if ("config" in result) {
+				// Fails without writing anything if the configuration changed while it was edited
+				if (!(await configManager.promises.saveConfig(result.config, { expected: configData }))) {
+					Logger.error(`Configuration '${targetName}' was not changed`);
+					Logger.info(`Your version is kept in ${file}`);
+					keepTempDir = true;
+					process.exitCode = 1;
+					return;
+				}
+				Logger.info(`Configuration '${targetName}' updated`);
+				return;
+			}
+
+			problems = result.problems;
+			Logger.warn("The edited configuration is not valid; reopening the editor");
+		}
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error(`Error editing configuration '${targetName}':`, errorMessage);
+		process.exitCode = 1;
+	} finally {
+		if (tempDir && !keepTempDir) {
+			await rm(tempDir, { recursive: true, force: true });
+		}
+	}
+}
@@ -0,0 +1,160 @@
+import { resolve } from "node:path";
+import { writeFileAtomic } from "../../utils/atomicFile";
+import config from "../../utils/config";
+import {
+	type BundleFormat,
+	type BundleSecrets,
+	createConfigBundle,
+	getBundleFormat,
+	serializeConfigBundle,
+} from "../../utils/configBundle";
+import { type AppConfig, configManager } from "../../utils/configManager";
+import { toConfigSlug } from "../../utils/configNames";
+import { Logger } from "../../utils/Logger";
+import { hasValuesAtPaths, SecretCipher } from "../../utils/secrets";
+import { checkConfigName, getBundlePassphrase } from "./helpers";
+
+/**
+ * Options accepted by `config export`
+ */
+export interface ExportConfigsOptions {
+	/** File to write the bundle to; printed when omitted */
+	output?: string;
+	/** Format of the bundle (defaults to the output file's extension, then JSON) */
+	format?: BundleFormat;
+	/** Leave secret fields out of the bundle */
+	stripSecrets?: boolean;
+	/** Encrypt secret fields with a passphrase chosen for the bundle */
+	encryptSecrets?: boolean;
+}
+
+/**
+ * Loads the configurations to export: the ones named, or every configuration
+ * Logs the problem and returns null when one of them cannot be exported
+ */
+async function loadConfigsToExport(names: string[]): Promise<AppConfig[] | null> {
+	if (names.length === 0) {
+		const stored = await configManager.promises.getConfigs({ raw: true });
+		const configs: AppConfig[] = [];
+		for (const [name, configData] of stored) {
+			if (!configData) {
+				Logger.error(`Failed to load configuration '${name}'`);
+				return null;
+			}
+			configs.push(configData);
+		}
+		return configs;
+	}
+
+	const configs: AppConfig[] = [];
+	for (const name of new Set(names.map((candidate) => candidate.trim()))) {
+		if (!checkConfigName(name)) {
+			return null;
+		}
+		const configData = await configManager.promises.getConfig(name, { raw: true });
+		if (!configData) {
+			Logger.error(`Configuration '${name}' not found`);
+			Logger.info(`Use '${config.appName} config list' to see available configurations`);
+			return null;
+		}
+		configs.push(configData);
+	}
+	return configs;
+}
+
+/**
+ * Picks how secret fields are written, asking for a passphrase to encrypt them
+ * @returns The mode and cipher, or null if no passphrase was given
+ */
+async function getBundleSecrets(
+	options: ExportConfigsOptions,
+): Promise<{ secrets: BundleSecrets; cipher?: SecretCipher } | null> {
+	if (options.stripSecrets) {
+		return { secrets: "stripped" };
+	}
+	if (!options.encryptSecrets) {
+		return { secrets: "plain" };
+	}
+
+	const passphrase = await getBundlePassphrase();
+	return passphrase ? { secrets: "encrypted", cipher: new SecretCipher({ passphrase }) } : null;
+}
+
+/**
+ * Exports configurations to a bundle another machine can import with `config import`
+ * The bundle records which configuration is active. Secrets are written decrypted unless
+ * stripped or encrypted with a passphrase.
+ */
+export async function exportConfigs(
+	names: string[] = [],
+	options: ExportConfigsOptions = {},
+): Promise<void> {
+	if (options.stripSecrets && options.encryptSecrets) {
+		Logger.error("Use either --strip-secrets or --encrypt-secrets");
+		process.exitCode = 1;
+		return;
+	}
+
+	try {
+		const configs = await loadConfigsToExport(names);
+
+		if (!configs) {
+			process.exitCode = 1;
+			return;
+		}
+
+		if (configs.length === 0) {
+			Logger.warn("No configurations to export");
+			return;
+		}
+
+		const slugs = new Set(configs.map((configData) => toConfigSlug(configData.name)));
+		for (const configData of configs) {
+			if (configData.extends && !slugs.has(toConfigSlug(configData.extends))) {
+				Logger.warn(
+					`'${configData.name}' extends '${configData.extends}', which is not in the bundle`,
+				);
+			}
+		}
+
+		const bundleSecrets = await getBundleSecrets(options);
+		if (!bundleSecrets) {
+			process.exitCode = 1;
+			return;
+		}
+
+		const secretPaths = configManager.getSecretPaths();
+		const current = await configManager.promises.getCurrentConfig();
+		const bundle = createConfigBundle(configs, {
+			active: current && slugs.has(toConfigSlug(current)) ? current : null,
+			secretPaths,
+			...bundleSecrets,
+		});
+		const format = options.format ?? (options.output ? getBundleFormat(options.output) : "json");
+		const content = serializeConfigBundle(bundle, format);
+
+		if (
+			bundleSecrets.secrets === "plain" &&
+			configs.some((configData) => hasValuesAtPaths(configData, secretPaths))
+		) {
+			// Warnings go to stderr, so they never end up in a printed bundle
+			Logger.warn(
+				"Secrets are written in plain text; use --strip-secrets or --encrypt-secrets to protect them",
+			);
+		}
+
+		if (!options.output) {
+			process.stdout.write(content);
+			return;
+		}
+
+		const outputPath = resolve(options.output);
+		// The bundle may hold secrets, so only the user can read it
+		writeFileAtomic(outputPath, content, 0o600);
+		Logger.info(`Exported ${configs.length} configuration(s) to ${outputPath}`);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error("Error exporting configurations:", errorMessage);
+		process.exitCode = 1;
+	}
+}
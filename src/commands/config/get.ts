@@ -0,0 +1,41 @@
+import { configManager } from "../../utils/configManager";
+import { getValueAtPath } from "../../utils/keyPath";
+import { Logger } from "../../utils/Logger";
+import { resolveTargetConfigName } from "./helpers";
+
+/**
+ * Prints the value stored at a dotted key path
+ * Strings are printed as-is so the output can be used in shell scripts
+ */
+export async function getConfigValue(key: string): Promise<void> {
+	const targetName = await resolveTargetConfigName();
+
+	if (!targetName) {
+		process.exitCode = 1;
+		return;
+	}
+
+	try {
+		const configData = await configManager.promises.getConfig(targetName);
+
+		if (!configData) {
+			Logger.error(`Failed to load configuration '${targetName}'`);
+			process.exitCode = 1;
+			return;
+		}
+
+		const value = getValueAtPath(configData, key);
+
+		if (value === undefined) {
+			Logger.error(`Key '${key}' is not set in configuration '${targetName}'`);
+			process.exitCode = 1;
+			return;
+		}
+
+		console.log(typeof value === "string" ? value : JSON.stringify(value, null, 2));
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error(`Error reading '${key}':`, errorMessage);
+		process.exitCode = 1;
+	}
+}
@@ -0,0 +1,135 @@
+import { join } from "node:path";
+import inquirer from "inquirer";
+import config from "../../utils/config";
+import { configManager } from "../../utils/configManager";
+import { getConfigNameProblem, toConfigSlug } from "../../utils/configNames";
+import {
+	type ConfigTemplate,
+	getBuiltInTemplatesDir,
+	loadTemplate,
+	type TemplateDirectory,
+} from "../../utils/configTemplates";
+import { Logger } from "../../utils/Logger";
+
+/**
+ * Points out that pin files naming a configuration were left as they are after renaming or
+ * deleting it, naming the one applying to the working directory when it is one of them
+ * @param name - Configuration that was renamed or deleted
+ * @param hint - What to do about the pin files
+ */
+export async function reportUnchangedPins(name: string, hint: string): Promise<void> {
+	const current = await configManager.promises.getCurrentConfigInfo();
+
+	if (current?.source === "pin" && toConfigSlug(current.name) === toConfigSlug(name)) {
+		Logger.warn(`${current.pinFile} still pins '${name}'; ${hint}`);
+		return;
+	}
+	Logger.info(`Pin files (${config.pinFileName}) naming '${name}' are not updated; ${hint}`);
+}
+
+/**
+ * Checks a configuration name given on the command line against the naming policy
+ * Logs the problem and sets a failing exit code when the name cannot be used
+ * @returns True if the name is acceptable
+ */
+export function checkConfigName(name: string): boolean {
+	const problem = getConfigNameProblem(name);
+
+	if (problem) {
+		Logger.error(`Invalid configuration name '${name}': ${problem}`);
+		process.exitCode = 1;
+		return false;
+	}
+
+	return true;
+}
+
+/**
+ * Resolves the configuration a command operates on: the one named explicitly,
+ * or the active configuration otherwise
+ * Logs a helpful message and returns null when there is nothing to operate on
+ */
+export async function resolveTargetConfigName(name?: string): Promise<string | null> {
+	const targetName = name?.trim() || (await configManager.promises.getCurrentConfig());
+
+	if (!targetName) {
+		Logger.error("No active configuration");
+		Logger.info(`Use '${config.appName} config use <name>' or pass --config <name>`);
+		return null;
+	}
+
+	if (!checkConfigName(targetName)) {
+		return null;
+	}
+
+	if (!(await configManager.promises.configExists(targetName))) {
+		Logger.error(`Configuration '${targetName}' not found`);
+		Logger.info(`Use '${config.appName} config list' to see available configurations`);
+		return null;
+	}
+
+	return targetName;
+}
+
+/**
+ * Gets the directory holding the user's own templates, next to the configurations
+ */
+export function getUserTemplatesDir(): string {
+	return join(configManager.getConfigDir(), "templates");
+}
+
+/**
+ * Gets the directories templates are loaded from: the ones shipped with the CLI, then the
+ * user's own, which take precedence
+ */
+export function getTemplateDirectories(): TemplateDirectory[] {
+	return [
+		{ path: getBuiltInTemplatesDir(), source: "built-in" },
+		{ path: getUserTemplatesDir(), source: "user" },
+	];
+}
+
+/**
+ * Loads the template a command was asked to use
+ * Logs a helpful message and returns null when there is no such template
+ * @throws ConfigTemplateError if the template cannot be read or parsed
+ */
+export function findTemplate(name: string): ConfigTemplate | null {
+	const template = loadTemplate(name, getTemplateDirectories());
+
+	if (!template) {
+		Logger.error(`Template '${name}' not found`);
+		Logger.info(`Use '${config.appName} config templates' to see available templates`);
+	}
+
+	return template;
+}
+
+/**
+ * Gets the passphrase protecting the secrets of a configuration bundle:
+ * `<PREFIX>_BUNDLE_PASSPHRASE`, or a prompt when a TTY is available
+ * @returns The passphrase, or null if there is no way to get one
+ */
+export async function getBundlePassphrase(): Promise<string | null> {
+	const fromEnv = process.env[`${config.envPrefix}_BUNDLE_PASSPHRASE`];
+
+	if (fromEnv) {
+		return fromEnv;
+	}
+
+	if (!process.stdin.isTTY) {
+		Logger.error(`Set ${config.envPrefix}_BUNDLE_PASSPHRASE to the bundle passphrase`);
+		return null;
+	}
+
+	const { passphrase } = await inquirer.prompt([
+		{
+			type: "password",
+			name: "passphrase",
+			message: "Bundle passphrase:",
+			mask: "*",
+			validate: (input: string) => (input ? true : "A passphrase is required"),
+		},
+	]);
+	return passphrase;
+}
@@ -0,0 +1,54 @@
+import chalk from "chalk";
+import config from "../../utils/config";
+import { diffConfigs, summarizeChanges } from "../../utils/configDiff";
+import type { ConfigRevision } from "../../utils/configHistory";
+import { configManager } from "../../utils/configManager";
+import { Logger } from "../../utils/Logger";
+
+/**
+ * Describes what a revision changed compared to the revision before it
+ */
+function describeRevision(revision: ConfigRevision, previous: ConfigRevision | undefined): string {
+	if (!revision.data) {
+		return chalk.red("deleted");
+	}
+
+	if (!previous?.data) {
+		return previous ? chalk.green("restored") : chalk.green("created");
+	}
+
+	return summarizeChanges(diffConfigs(previous.data, revision.data));
+}
+
+/**
+ * Lists the recorded revisions of a configuration with a summary of the fields each one changed
+ */
+export async function showConfigHistory(name: string): Promise<void> {
+	try {
+		const revisions = await configManager.promises.getConfigHistory(name);
+
+		if (revisions.length === 0) {
+			Logger.warn(`No history recorded for configuration '${name}'`);
+			process.exitCode = 1;
+			return;
+		}
+
+		Logger.info(`🕘 History of '${name}'\n`);
+
+		revisions.forEach((revision, index) => {
+			const timestamp = new Date(revision.timestamp).toLocaleString();
+			const marker = index === 0 ? chalk.green("●") : chalk.gray("○");
+			const label = chalk.cyan(`#${revision.revision}`);
+			const action = revision.action.padEnd(8);
+			const summary = describeRevision(revision, revisions[index + 1]);
+			console.log(`${marker} ${label}  ${chalk.gray(timestamp)}  ${action}  ${summary}`);
+		});
+
+		console.log();
+		Logger.info(`Use '${config.appName} config rollback ${name} --to <revision>' to restore one`);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error(`Error reading history of '${name}':`, errorMessage);
+		process.exitCode = 1;
+	}
+}
@@ -0,0 +1,166 @@
+import { readFile } from "node:fs/promises";
+import config from "../../utils/config";
+import {
+	type BundleFormat,
+	getBundleFormat,
+	type ImportConflictStrategy,
+	type ImportPlanEntry,
+	keepExistingSecrets,
+	openConfigBundle,
+	parseConfigBundle,
+	planConfigImport,
+} from "../../utils/configBundle";
+import { type AppConfig, configManager } from "../../utils/configManager";
+import { toConfigSlug } from "../../utils/configNames";
+import { Logger } from "../../utils/Logger";
+import { SecretCipher } from "../../utils/secrets";
+import { getBundlePassphrase } from "./helpers";
+
+/**
+ * Options accepted by `config import`
+ */
+export interface ImportConfigsOptions {
+	/** Replace configurations whose name is taken */
+	overwrite?: boolean;
+	/** Keep configurations whose name is taken */
+	skip?: boolean;
+	/** Import configurations whose name is taken under a free name */
+	rename?: boolean;
+	/** Format of the bundle (defaults to the file's extension) */
+	format?: BundleFormat;
+	/** Activate the configuration that was active when the bundle was made (default true) */
+	activate?: boolean;
+}
+
+/**
+ * Picks the conflict strategy from the flags
+ * @returns The strategy, or null if more than one was given
+ */
+function getConflictStrategy(options: ImportConfigsOptions): ImportConflictStrategy | null {
+	const strategies = (["overwrite", "skip", "rename"] as const).filter((flag) => options[flag]);
+
+	if (strategies.length > 1) {
+		return null;
+	}
+	return strategies[0] ?? "error";
+}
+
+/**
+ * Saves one configuration of the bundle
+ * @returns True if it was saved
+ */
+async function importConfig(entry: ImportPlanEntry, secretsStripped: boolean): Promise<boolean> {
+	let configData: AppConfig = entry.config;
+
+	if (entry.action === "overwrite" && secretsStripped) {
+		const existing = await configManager.promises.getConfig(entry.targetName, { raw: true });
+		if (existing) {
+			configData = keepExistingSecrets(configData, existing, configManager.getSecretPaths());
+		}
+	}
+
+	return configManager.promises.saveConfig(configData);
+}
+
+/**
+ * Imports the configurations of a bundle made with `config export`
+ * Configurations whose name is taken are reported as conflicts, and nothing is imported,
+ * unless told to overwrite, skip or rename them. The configuration active when the bundle was
+ * made is activated again.
+ */
+export async function importConfigs(
+	file: string,
+	options: ImportConfigsOptions = {},
+): Promise<void> {
+	const strategy = getConflictStrategy(options);
+
+	if (!strategy) {
+		Logger.error("Use only one of --overwrite, --skip and --rename");
+		process.exitCode = 1;
+		return;
+	}
+
+	try {
+		const bundle = parseConfigBundle(
+			await readFile(file, "utf-8"),
+			options.format ?? getBundleFormat(file),
+		);
+		let cipher: SecretCipher | undefined;
+
+		if (bundle.secrets === "encrypted") {
+			const passphrase = await getBundlePassphrase();
+			if (!passphrase) {
+				process.exitCode = 1;
+				return;
+			}
+			cipher = new SecretCipher({ passphrase });
+		}
+
+		const configs = openConfigBundle(bundle, {
+			secretPaths: configManager.getSecretPaths(),
+			...(cipher && { cipher }),
+		});
+		const existing = await configManager.promises.listConfigs();
+		const plan = planConfigImport(configs, existing, strategy);
+
+		// Importing only part of a bundle could leave configurations extending ones left out
+		const conflicts = plan.filter((entry) => entry.action === "conflict");
+		if (conflicts.length > 0) {
+			for (const entry of conflicts) {
+				Logger.error(`'${entry.name}' conflicts with an existing configuration`);
+			}
+			Logger.info("Nothing was imported; use --overwrite, --skip or --rename to resolve conflicts");
+			process.exitCode = 1;
+			return;
+		}
+
+		let imported = 0;
+		let failed = 0;
+		let activeName: string | undefined;
+
+		for (const entry of plan) {
+			if (entry.action === "skip") {
+				Logger.info(`Skipped '${entry.name}': a configuration with that name exists`);
+				continue;
+			}
+			if (!(await importConfig(entry, bundle.secrets === "stripped"))) {
+				Logger.error(`Failed to import '${entry.name}'`);
+				failed++;
+				continue;
+			}
+
+			imported++;
+			if (entry.action === "rename") {
+				Logger.info(`Imported '${entry.name}' as '${entry.targetName}'`);
+			} else if (entry.action === "overwrite") {
+				Logger.info(`Imported '${entry.name}', replacing the existing configuration`);
+			} else {
+				Logger.info(`Imported '${entry.name}'`);
+			}
+			if (bundle.active && toConfigSlug(bundle.active) === toConfigSlug(entry.name)) {
+				activeName = entry.targetName;
+			}
+		}
+
+		if (activeName && options.activate !== false) {
+			if (await configManager.promises.setCurrentConfig(activeName)) {
+				Logger.info(`Configuration '${activeName}' set as active`);
+			} else {
+				Logger.warn(`Failed to set configuration '${activeName}' as active`);
+			}
+		}
+
+		Logger.info(`Imported ${imported} of ${plan.length} configuration(s)`);
+
+		if (failed > 0) {
+			process.exitCode = 1;
+		}
+		if (bundle.secrets === "stripped" && configManager.getSecretPaths().length > 0) {
+			Logger.info(`The bundle holds no secrets; set them with '${config.appName} config set'`);
+		}
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error("Error importing configurations:", errorMessage);
+		process.exitCode = 1;
+	}
+}
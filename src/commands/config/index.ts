@@ -1,10 +1,38 @@
-import type { Command } from "commander";
+import { type Command, Option } from "commander";
+import { BUNDLE_FORMATS } from "../../utils/configBundle";
+import { CONFIG_SORT_KEYS } from "../../utils/configFilters";
+import { copyConfig } from "./copy";
 import { createConfig } from "./create";
 import { showCurrentConfig } from "./current";
 import { deleteConfig } from "./delete";
+import { diffConfigFiles } from "./diff";
+import { runDoctor } from "./doctor";
+import { editConfig } from "./edit";
+import { exportConfigs } from "./export";
+import { getConfigValue } from "./get";
+import { showConfigHistory } from "./history";
+import { importConfigs } from "./import";
 import { listConfigs } from "./list";
+import { migrateConfigs } from "./migrate";
+import { pinConfig } from "./pin";
+import { rekeyConfigs } from "./rekey";
+import { renameConfig } from "./rename";
+import { resolveEffectiveConfig } from "./resolve";
+import { rollbackConfig } from "./rollback";
+import { exportConfigSchema } from "./schema";
+import { setConfigValue } from "./set";
+import { showTemplates } from "./templates";
+import { unpinConfig } from "./unpin";
+import { unsetConfigValue } from "./unset";
 import { useConfig } from "./use";
 
+/**
+ * Accumulates the values of a repeatable option
+ */
+function collect(value: string, previous: string[]): string[] {
+	return [...previous, value];
+}
+
 /**
  * Sets up configuration management commands
  * Provides CRUD operations for application configurations
@@ -12,12 +40,71 @@ import { useConfig } from "./use";
 export function setupConfigCommands(program: Command): void {
 	const configCommand = program.command("config").description("Manage application configurations");
 
-	configCommand.command("create").description("Create a new configuration").action(createConfig);
+	configCommand
+		.command("create")
+		.description("Create a new configuration")
+		.option("--name <name>", "Configuration name")
+		.option("--description <description>", "Configuration description")
+		.option("--set <key=value>", "Set a configuration value (repeatable)", collect, [])
+		.option("--from-file <path>", "Read configuration values from a JSON file")
+		.option("--from-stdin", "Read configuration values as JSON from stdin")
+		.option("--template <name>", "Start from a template (see 'config templates')")
+		.option("--activate", "Set the new configuration as active")
+		.option("--no-activate", "Do not set the new configuration as active")
+		.action(createConfig);
+
+	configCommand
+		.command("schema")
+		.option("--output <file>", "Write the JSON Schema to a file instead of printing it")
+		.description("Export the configuration schema as JSON Schema for editors")
+		.action(exportConfigSchema);
+
+	configCommand
+		.command("export")
+		.argument("[names...]", "Configurations to export (defaults to all of them)")
+		.description("Export configurations to a bundle 'config import' can read")
+		.option("--output <file>", "Write the bundle to a file instead of printing it")
+		.addOption(
+			new Option("--format <format>", "Bundle format (defaults to the file extension)").choices(
+				BUNDLE_FORMATS,
+			),
+		)
+		.option("--strip-secrets", "Leave secret fields out of the bundle")
+		.option("--encrypt-secrets", "Encrypt secret fields with a passphrase")
+		.action(exportConfigs);
+
+	configCommand
+		.command("import")
+		.argument("<file>", "Bundle written by 'config export'")
+		.description("Import the configurations of a bundle")
+		.option("--overwrite", "Replace configurations whose name is taken")
+		.option("--skip", "Keep configurations whose name is taken")
+		.option("--rename", "Import configurations whose name is taken under a free name")
+		.addOption(
+			new Option("--format <format>", "Bundle format (defaults to the file extension)").choices(
+				BUNDLE_FORMATS,
+			),
+		)
+		.option("--no-activate", "Do not activate the configuration active in the bundle")
+		.action(importConfigs);
+
+	configCommand
+		.command("templates")
+		.description("List the templates 'config create --template' can start from")
+		.action(showTemplates);
 
 	configCommand
 		.command("list")
 		.alias("ls")
 		.description("List all configurations")
+		.option("--tag <tag>", "Only list configurations with this tag (repeatable)", collect, [])
+		.option("--filter <glob>", "Only list configurations whose name matches a glob (* and ?)")
+		.addOption(
+			new Option("--sort <order>", "Sort by name, last update or last use")
+				.choices(CONFIG_SORT_KEYS)
+				.default("name"),
+		)
+		.option("--long", "Show when each configuration was created, updated and last used")
 		.action(listConfigs);
 
 	configCommand
@@ -26,15 +113,119 @@ export function setupConfigCommands(program: Command): void {
 		.description("Set a configuration as active")
 		.action(useConfig);
 
+	configCommand
+		.command("pin")
+		.argument("[name]", "Configuration to pin (defaults to the active one)")
+		.description("Use a configuration whenever the CLI runs in this directory or below")
+		.action(pinConfig);
+
+	configCommand
+		.command("unpin")
+		.description("Remove the pin file that applies to this directory")
+		.action(unpinConfig);
+
 	configCommand
 		.command("delete")
 		.alias("rm")
 		.argument("[name]", "Configuration name to delete")
+		.option("--force", "Delete even if other configurations extend it")
 		.description("Delete a configuration")
 		.action(deleteConfig);
 
+	configCommand
+		.command("rename")
+		.argument("<old>", "Current configuration name")
+		.argument("<new>", "New configuration name")
+		.description("Rename a configuration")
+		.action(renameConfig);
+
+	configCommand
+		.command("copy")
+		.argument("<src>", "Configuration to copy")
+		.argument("<dest>", "Name of the new configuration")
+		.option("--set <key=value>", "Change a value in the copy (repeatable)", collect, [])
+		.description("Create a new configuration from an existing one")
+		.action(copyConfig);
+
+	configCommand
+		.command("diff")
+		.argument("<a>", "Stored configuration name or JSON file path")
+		.argument("<b>", "Stored configuration name or JSON file path")
+		.addOption(
+			new Option("--output <format>", "Output format").choices(["text", "json"]).default("text"),
+		)
+		.description("Show the differences between two configurations (exit code 1 if they differ)")
+		.action(diffConfigFiles);
+
+	configCommand
+		.command("history")
+		.argument("<name>", "Configuration name")
+		.description("List the recorded revisions of a configuration")
+		.action(showConfigHistory);
+
+	configCommand
+		.command("rollback")
+		.argument("<name>", "Configuration name (may have been deleted)")
+		.option("--to <revision>", "Revision to restore (defaults to the previous one)")
+		.description("Restore a configuration from its history")
+		.action(rollbackConfig);
+
 	configCommand
 		.command("current")
 		.description("Show the active configuration")
+		.option("--raw", "Show stored values without expanding placeholders")
 		.action(showCurrentConfig);
+
+	configCommand
+		.command("get")
+		.argument("<key>", "Dotted key path (e.g. features.enableCache)")
+		.description("Print a configuration value")
+		.action(getConfigValue);
+
+	configCommand
+		.command("set")
+		.argument("<key>", "Dotted key path (e.g. features.enableCache)")
+		.argument("<value>", "New value, converted to the type the schema expects")
+		.description("Set a configuration value")
+		.action(setConfigValue);
+
+	configCommand
+		.command("edit")
+		.argument("[name]", "Configuration to edit (defaults to the active one)")
+		.description("Edit a configuration in $VISUAL or $EDITOR, reopening it until it is valid")
+		.action(editConfig);
+
+	configCommand
+		.command("unset")
+		.argument("<key>", "Dotted key path (e.g. features.enableCache)")
+		.description("Remove a configuration value")
+		.action(unsetConfigValue);
+
+	configCommand
+		.command("migrate")
+		.option("--dry-run", "Show which configurations would be migrated without changing them")
+		.description("Upgrade every stored configuration to the current schema version")
+		.action(migrateConfigs);
+
+	configCommand
+		.command("rekey")
+		.option("--key-file <path>", "Encrypt with the key stored in this file")
+		.option("--passphrase", "Encrypt with a key derived from a new passphrase (prompted)")
+		.description("Re-encrypt secret fields of every configuration with a new key")
+		.action(rekeyConfigs);
+
+	configCommand
+		.command("doctor")
+		.option("--fix", "Repair problems and quarantine files that cannot be repaired")
+		.description("Check the configuration directory for broken files and other problems")
+		.action(runDoctor);
+
+	configCommand
+		.command("resolve")
+		.option("--show-origin", "Show which layer each value came from")
+		.option("--set <key=value>", "Override a value for this resolution (repeatable)", collect, [])
+		.description(
+			"Print the effective configuration (defaults < active config < project file < env < flags)",
+		)
+		.action(resolveEffectiveConfig);
 }
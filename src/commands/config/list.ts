@@ -1,54 +1,172 @@
 import chalk from "chalk";
 import config from "../../utils/config";
-import { type AppConfig, configManager } from "../../utils/configManager";
+import { formatConfigDetails } from "../../utils/configDisplay";
+import {
+	type ConfigListEntry,
+	type ConfigSortKey,
+	filterConfigEntries,
+	sortConfigEntries,
+} from "../../utils/configFilters";
+import { type AppConfig, type ConfigMetadata, configManager } from "../../utils/configManager";
+import { toConfigSlug } from "../../utils/configNames";
 import { Logger } from "../../utils/Logger";
 
 /**
- * Displays configuration details
- * Customize this to show your application's config properties
+ * Displays configuration details, with secrets masked
+ * The name is shown above the details and what the configuration extends by the tree
+ * @param indent - Prefix aligning the details with the configuration in the tree
  */
-function displayConfigDetails(configData: AppConfig): void {
-	if (configData.description) {
-		console.log(`   📝 ${configData.description}`);
-	}
-
-	// TEMPLATE: Add your custom config properties display here
-	// Example:
-	// if ('apiUrl' in configData) {
-	//   console.log(`   🌐 API: ${configData.apiUrl}`);
-	// }
-	// if ('apiKey' in configData) {
-	//   console.log(`   🔑 Key: ${"*".repeat(Math.min(configData.apiKey.length, 20))}`);
-	// }
+function displayConfigDetails(configData: AppConfig, indent: string): void {
+	const lines = formatConfigDetails(
+		configManager.maskSecrets(configData),
+		configManager.getSchema(),
+		["name", "extends"],
+	);
+	for (const line of lines) {
+		console.log(`${indent}   ${line}`);
+	}
+}
+
+/**
+ * Options for `config list`
+ */
+interface ListConfigsOptions {
+	/** Only list configurations carrying all of these tags */
+	tag?: string[];
+	/** Only list configurations whose name matches this glob */
+	filter?: string;
+	/** Order to list configurations in */
+	sort?: ConfigSortKey;
+	/** Also show when each configuration was created, updated and last used */
+	long?: boolean;
+}
+
+/**
+ * Formats a timestamp kept for a configuration
+ */
+function formatTimestamp(timestamp: string | undefined): string {
+	return timestamp ? new Date(timestamp).toLocaleString() : chalk.gray("never");
+}
+
+/**
+ * Displays when a configuration was created, updated and last used
+ */
+function displayConfigMetadata(metadata: ConfigMetadata, indent: string): void {
+	if (metadata.createdAt) {
+		console.log(`${indent}   🕒 Created:   ${formatTimestamp(metadata.createdAt)}`);
+	}
+	console.log(`${indent}   ✏️  Updated:   ${formatTimestamp(metadata.updatedAt)}`);
+	console.log(`${indent}   ▶️  Last used: ${formatTimestamp(metadata.lastUsedAt)}`);
+}
+
+/**
+ * Groups configurations by the configuration they extend
+ * Configurations extending nothing, a missing configuration or part of a cycle are roots
+ */
+function buildInheritanceTree(loaded: Map<string, AppConfig | null>): {
+	roots: string[];
+	children: Map<string, string[]>;
+} {
+	const children = new Map<string, string[]>();
+	const roots: string[] = [];
+
+	for (const [configName, configData] of loaded) {
+		const parentKey = configData?.extends ? toConfigSlug(configData.extends) : undefined;
+
+		if (parentKey && parentKey !== configName && loaded.has(parentKey)) {
+			children.set(parentKey, [...(children.get(parentKey) ?? []), configName]);
+		} else {
+			roots.push(configName);
+		}
+	}
+
+	return { roots, children };
 }
 
 /**
  * Lists all available configurations
+ * Configurations extending another one are shown below it; filtering keeps a configuration
+ * whose parent is filtered out at the top level
  */
-export async function listConfigs(): Promise<void> {
+export async function listConfigs(options: ListConfigsOptions = {}): Promise<void> {
 	Logger.info("📋 Available configurations\n");
 
-	const configs = configManager.listConfigs();
-	const currentConfigName = configManager.getCurrentConfig();
+	// Every configuration is read in parallel
+	const [stored, currentConfigName] = await Promise.all([
+		configManager.promises.getConfigs({ raw: true }),
+		configManager.promises.getCurrentConfig(),
+	]);
 
-	if (configs.length === 0) {
+	if (stored.size === 0) {
 		Logger.warn("No configurations found");
 		Logger.info(`Use '${config.appName} config create' to create one`);
 		return;
 	}
 
-	for (const configName of configs) {
-		const configData = configManager.getConfig(configName);
-		const isActive = configName === currentConfigName;
+	const entries: ConfigListEntry[] = await Promise.all(
+		[...stored].map(async ([name, configData]) => ({
+			name,
+			config: configData,
+			metadata: await configManager.promises.getConfigMetadata(name),
+		})),
+	);
+	const listed = sortConfigEntries(
+		filterConfigEntries(entries, {
+			...(options.tag && { tags: options.tag }),
+			...(options.filter !== undefined && { pattern: options.filter }),
+		}),
+		options.sort ?? "name",
+	);
+
+	if (listed.length === 0) {
+		Logger.warn("No configurations match the given filters");
+		return;
+	}
+
+	const loaded = new Map(listed.map((entry) => [entry.name, entry.config]));
+	const metadata = new Map(listed.map((entry) => [entry.name, entry.metadata]));
+	const configs = [...loaded.keys()];
+
+	const { roots, children } = buildInheritanceTree(loaded);
+	const shown = new Set<string>();
+
+	const showConfig = (configName: string, depth: number): void => {
+		if (shown.has(configName)) {
+			return;
+		}
+		shown.add(configName);
+
+		const configData = loaded.get(configName);
+		const indent = "   ".repeat(depth);
 
 		if (configData) {
+			const isActive = configName === currentConfigName;
 			const status = isActive ? chalk.green("● ACTIVE") : chalk.gray("○");
-			console.log(`${status} ${chalk.cyan(configName)}`);
-			displayConfigDetails(configData);
+			const branch = depth > 0 ? chalk.gray("↳ ") : "";
+			// Show the file slug when it differs from the display name
+			const slug = configData.name === configName ? "" : chalk.gray(` (${configName})`);
+			console.log(`${indent}${branch}${status} ${chalk.cyan(configData.name)}${slug}`);
+			displayConfigDetails(configData, indent);
+			const configMetadata = metadata.get(configName);
+			if (options.long && configMetadata) {
+				displayConfigMetadata(configMetadata, indent);
+			}
 			console.log();
 		} else {
 			Logger.warn(`Failed to load config: ${configName}`);
 		}
+
+		for (const child of children.get(configName) ?? []) {
+			showConfig(child, depth + 1);
+		}
+	};
+
+	for (const configName of roots) {
+		showConfig(configName, 0);
+	}
+	// Configurations extending each other in a cycle have no root
+	for (const configName of configs) {
+		showConfig(configName, 0);
 	}
 
 	if (!currentConfigName) {
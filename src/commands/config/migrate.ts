@@ -0,0 +1,73 @@
+import chalk from "chalk";
+import { type ConfigMigrationResult, configManager } from "../../utils/configManager";
+import { Logger } from "../../utils/Logger";
+
+/**
+ * Options accepted by `config migrate`
+ */
+export interface MigrateConfigsCommandOptions {
+	dryRun?: boolean;
+}
+
+/**
+ * Prints the outcome of migrating one configuration
+ */
+function displayMigrationResult(result: ConfigMigrationResult): void {
+	const versions = `v${result.fromVersion} → v${result.toVersion}`;
+
+	switch (result.status) {
+		case "up-to-date":
+			console.log(`${chalk.gray("○")} ${chalk.cyan(result.name)} ${chalk.gray("up to date")}`);
+			break;
+		case "would-migrate":
+			console.log(`${chalk.yellow("◐")} ${chalk.cyan(result.name)} would migrate ${versions}`);
+			break;
+		case "migrated":
+			console.log(`${chalk.green("●")} ${chalk.cyan(result.name)} migrated ${versions}`);
+			if (result.backupPath) {
+				console.log(`   💾 ${result.backupPath}`);
+			}
+			break;
+		case "failed":
+			console.log(`${chalk.red("✗")} ${chalk.cyan(result.name)} ${chalk.red(result.error)}`);
+			break;
+	}
+}
+
+/**
+ * Upgrades every stored configuration to the current schema version
+ */
+export async function migrateConfigs(options: MigrateConfigsCommandOptions = {}): Promise<void> {
+	Logger.info(
+		options.dryRun ? "🔍 Checking configuration migrations\n" : "🚚 Migrating configurations\n",
+	);
+
+	const results = await configManager.promises.migrateConfigs({
+		dryRun: Boolean(options.dryRun),
+	});
+
+	if (results.length === 0) {
+		Logger.warn("No configurations found");
+		return;
+	}
+
+	for (const result of results) {
+		displayMigrationResult(result);
+	}
+
+	const failed = results.filter((result) => result.status === "failed").length;
+	const pending = results.filter((result) => result.status === "would-migrate").length;
+	const migrated = results.filter((result) => result.status === "migrated").length;
+
+	console.log();
+	if (options.dryRun) {
+		Logger.info(`${pending} configuration(s) would be migrated`);
+	} else {
+		Logger.info(`${migrated} configuration(s) migrated`);
+	}
+
+	if (failed > 0) {
+		Logger.error(`${failed} configuration(s) could not be migrated`);
+		process.exitCode = 1;
+	}
+}
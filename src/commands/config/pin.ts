@@ -0,0 +1,26 @@
+import config from "../../utils/config";
+import { configManager } from "../../utils/configManager";
+import { Logger } from "../../utils/Logger";
+import { resolveTargetConfigName } from "./helpers";
+
+/**
+ * Pins a configuration (the active one by default) to the working directory, so it is active
+ * whenever the CLI runs there or below, regardless of the one chosen with `config use`
+ */
+export async function pinConfig(name?: string): Promise<void> {
+	const targetName = await resolveTargetConfigName(name);
+	if (!targetName) {
+		process.exitCode = 1;
+		return;
+	}
+
+	try {
+		const pinFile = await configManager.promises.pinConfig(targetName);
+		Logger.info(`Configuration '${targetName}' pinned to this directory`);
+		Logger.info(`Commit ${pinFile} to share it, or run '${config.appName} config unpin' to undo`);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error(`Error pinning '${targetName}':`, errorMessage);
+		process.exitCode = 1;
+	}
+}
@@ -0,0 +1,92 @@
+import inquirer from "inquirer";
+import config from "../../utils/config";
+import { configManager } from "../../utils/configManager";
+import { Logger } from "../../utils/Logger";
+import type { SecretKeySource } from "../../utils/secrets";
+
+/**
+ * Options accepted by `config rekey`
+ */
+export interface RekeyConfigsOptions {
+	keyFile?: string;
+	passphrase?: boolean;
+}
+
+/**
+ * Prompts twice for the new passphrase
+ */
+async function promptNewPassphrase(): Promise<string> {
+	const answers = await inquirer.prompt([
+		{
+			type: "password",
+			name: "passphrase",
+			message: "New passphrase:",
+			mask: "*",
+			validate: (input: string) => (input ? true : "Passphrase is required"),
+		},
+		{
+			type: "password",
+			name: "confirmation",
+			message: "Repeat new passphrase:",
+			mask: "*",
+		},
+	]);
+
+	if (answers.passphrase !== answers.confirmation) {
+		throw new Error("Passphrases do not match");
+	}
+
+	return answers.passphrase;
+}
+
+/**
+ * Re-encrypts the secret fields of every stored configuration with a new key
+ * Without options a new random key file replaces the default one
+ */
+export async function rekeyConfigs(options: RekeyConfigsOptions = {}): Promise<void> {
+	if (configManager.getSecretPaths().length === 0) {
+		Logger.warn("The configuration schema has no secret fields");
+		return;
+	}
+
+	if (options.keyFile && options.passphrase) {
+		Logger.error("Use either --key-file or --passphrase, not both");
+		process.exitCode = 1;
+		return;
+	}
+
+	try {
+		let newKey: SecretKeySource | undefined;
+
+		if (options.keyFile) {
+			newKey = { keyFile: options.keyFile };
+		} else if (options.passphrase) {
+			if (!process.stdin.isTTY) {
+				Logger.error("--passphrase requires an interactive terminal");
+				process.exitCode = 1;
+				return;
+			}
+			newKey = { passphrase: await promptNewPassphrase() };
+		}
+
+		const count = await configManager.promises.rekeySecrets(newKey);
+		Logger.info(`Re-encrypted secrets in ${count} configuration(s)`);
+
+		if (options.keyFile) {
+			Logger.info(`Set ${config.envPrefix}_SECRET_KEY_FILE=${options.keyFile} to use the new key`);
+		} else if (options.passphrase) {
+			Logger.info(`Set ${config.envPrefix}_SECRET_PASSPHRASE to the new passphrase to use it`);
+		} else if (
+			process.env[`${config.envPrefix}_SECRET_PASSPHRASE`] ||
+			process.env[`${config.envPrefix}_SECRET_KEY_FILE`]
+		) {
+			Logger.warn(
+				`Unset ${config.envPrefix}_SECRET_PASSPHRASE / ${config.envPrefix}_SECRET_KEY_FILE to use the new default key`,
+			);
+		}
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error("Error re-encrypting secrets:", errorMessage);
+		process.exitCode = 1;
+	}
+}
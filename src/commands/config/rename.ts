@@ -0,0 +1,47 @@
+import config from "../../utils/config";
+import { configManager } from "../../utils/configManager";
+import { toConfigSlug } from "../../utils/configNames";
+import { Logger } from "../../utils/Logger";
+import { checkConfigName, reportUnchangedPins } from "./helpers";
+
+/**
+ * Renames a configuration, keeping it active if it was
+ */
+export async function renameConfig(oldName: string, newName: string): Promise<void> {
+	const targetName = newName.trim();
+
+	if (!checkConfigName(oldName) || !checkConfigName(targetName)) {
+		return;
+	}
+
+	if (!(await configManager.promises.configExists(oldName))) {
+		Logger.error(`Configuration '${oldName}' not found`);
+		Logger.info(`Use '${config.appName} config list' to see available configurations`);
+		process.exitCode = 1;
+		return;
+	}
+
+	// A name mapping to the same file only changes how the configuration is displayed
+	if (
+		toConfigSlug(oldName) !== toConfigSlug(targetName) &&
+		(await configManager.promises.configExists(targetName))
+	) {
+		Logger.error(`A configuration named '${targetName}' already exists`);
+		process.exitCode = 1;
+		return;
+	}
+
+	if (!(await configManager.promises.renameConfig(oldName, targetName))) {
+		Logger.error(`Failed to rename configuration '${oldName}'`);
+		process.exitCode = 1;
+		return;
+	}
+
+	Logger.info(`Configuration '${oldName}' renamed to '${targetName}'`);
+	if (toConfigSlug(oldName) !== toConfigSlug(targetName)) {
+		await reportUnchangedPins(
+			oldName,
+			`run '${config.appName} config pin ${targetName}' where it was pinned`,
+		);
+	}
+}
@@ -0,0 +1,85 @@
+import chalk from "chalk";
+import { configManager } from "../../utils/configManager";
+import { resolveConfig } from "../../utils/configResolver";
+import { ConfigValidationError } from "../../utils/errors";
+import { flattenObject, parseAssignment } from "../../utils/keyPath";
+import { Logger } from "../../utils/Logger";
+import { coerceValue, getSchemaAtPath } from "../../utils/schemaIntrospection";
+import { maskPaths } from "../../utils/secrets";
+import { resolveTargetConfigName } from "./helpers";
+
+/**
+ * Options accepted by `config resolve`
+ */
+export interface ResolveConfigCommandOptions {
+	showOrigin?: boolean;
+	set?: string[];
+}
+
+/**
+ * Formats a value the way `config get` prints it, on a single line
+ */
+function formatValue(value: unknown): string {
+	return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Prints the effective configuration after merging defaults, the active configuration,
+ * the project rc file, environment variables and flags
+ */
+export async function resolveEffectiveConfig(
+	options: ResolveConfigCommandOptions = {},
+): Promise<void> {
+	// A configuration requested with --config must exist, unlike the persisted active one
+	const override = configManager.getConfigOverride();
+	if (override && !(await resolveTargetConfigName(override))) {
+		process.exitCode = 1;
+		return;
+	}
+
+	try {
+		const schema = configManager.getSchema();
+		const flags: Record<string, unknown> = {};
+
+		for (const assignment of options.set ?? []) {
+			const { key, value } = parseAssignment(assignment);
+			flags[key] = coerceValue(getSchemaAtPath(schema, key), value);
+		}
+
+		const { values, origins } = await resolveConfig(configManager, { flags });
+		const masked = maskPaths(values, configManager.getSecretPaths());
+		const leaves = flattenObject(masked);
+
+		if (leaves.size === 0) {
+			Logger.warn("No configuration values resolved");
+			return;
+		}
+
+		for (const [path, value] of leaves) {
+			const line = `${path}=${formatValue(value)}`;
+			const origin = origins.get(path);
+
+			if (options.showOrigin && origin) {
+				console.log(`${chalk.gray(`${origin.layer}:${origin.source}`)}\t${line}`);
+			} else {
+				console.log(line);
+			}
+		}
+
+		try {
+			await configManager.promises.validateConfig(values);
+		} catch (error) {
+			if (!(error instanceof ConfigValidationError)) {
+				throw error;
+			}
+			Logger.warn("The effective configuration is not valid:");
+			for (const issue of error.issues) {
+				Logger.warn(`  ${issue.path || "(root)"}: ${issue.message}`);
+			}
+		}
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error("Error resolving configuration:", errorMessage);
+		process.exitCode = 1;
+	}
+}
@@ -0,0 +1,39 @@
+import { configManager } from "../../utils/configManager";
+import { Logger } from "../../utils/Logger";
+
+/**
+ * Options accepted by `config rollback`
+ */
+export interface RollbackConfigOptions {
+	to?: string;
+}
+
+/**
+ * Restores a configuration from its history, including one that was deleted
+ * Without `--to`, the revision before the current state is restored
+ */
+export async function rollbackConfig(
+	name: string,
+	options: RollbackConfigOptions = {},
+): Promise<void> {
+	try {
+		let revision: number | undefined;
+
+		if (options.to !== undefined) {
+			revision = Number(options.to.replace(/^#/, ""));
+
+			if (!Number.isInteger(revision) || revision < 1) {
+				Logger.error(`Invalid revision '${options.to}', expected a revision number`);
+				process.exitCode = 1;
+				return;
+			}
+		}
+
+		const restored = await configManager.promises.rollbackConfig(name, revision);
+		Logger.info(`Configuration '${name}' restored from revision #${restored.revision}`);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error(`Error rolling back '${name}':`, errorMessage);
+		process.exitCode = 1;
+	}
+}
@@ -0,0 +1,34 @@
+import { resolve } from "node:path";
+import { writeFileAtomic } from "../../utils/atomicFile";
+import { configManager } from "../../utils/configManager";
+import { Logger } from "../../utils/Logger";
+
+/**
+ * Options accepted by `config schema`
+ */
+export interface ExportSchemaOptions {
+	output?: string;
+}
+
+/**
+ * Prints the configuration schema as JSON Schema, or writes it to a file
+ * Editors use it to validate and autocomplete configuration files edited by hand
+ */
+export async function exportConfigSchema(options: ExportSchemaOptions = {}): Promise<void> {
+	try {
+		const content = JSON.stringify(configManager.getJsonSchema(), null, 2);
+
+		if (!options.output) {
+			console.log(content);
+			return;
+		}
+
+		const outputPath = resolve(options.output);
+		writeFileAtomic(outputPath, `${content}\n`);
+		Logger.info(`JSON Schema written to ${outputPath}`);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error("Error exporting the configuration schema:", errorMessage);
+		process.exitCode = 1;
+	}
+}
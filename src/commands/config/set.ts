@@ -0,0 +1,61 @@
+import { configManager } from "../../utils/configManager";
+import { getValueAtPath, setValueAtPath, splitKeyPath } from "../../utils/keyPath";
+import { Logger } from "../../utils/Logger";
+import { coerceValue, getSchemaAtPath } from "../../utils/schemaIntrospection";
+import { resolveTargetConfigName } from "./helpers";
+
+/**
+ * Sets the value at a dotted key path, converting the string to the type the schema expects
+ * The change is rejected if the resulting configuration fails validation
+ */
+export async function setConfigValue(key: string, value: string): Promise<void> {
+	const targetName = await resolveTargetConfigName();
+
+	if (!targetName) {
+		process.exitCode = 1;
+		return;
+	}
+
+	try {
+		if (splitKeyPath(key)[0] === "name") {
+			Logger.error("The configuration name cannot be changed with 'config set'");
+			process.exitCode = 1;
+			return;
+		}
+
+		const configData = await configManager.promises.getConfig(targetName, { raw: true });
+
+		if (!configData) {
+			Logger.error(`Failed to load configuration '${targetName}'`);
+			process.exitCode = 1;
+			return;
+		}
+
+		const updated = structuredClone(configData);
+		setValueAtPath(
+			updated,
+			key,
+			coerceValue(getSchemaAtPath(configManager.getSchema(), key), value),
+		);
+
+		// Keys the schema does not describe would be silently dropped on save
+		const validated = await configManager.promises.validateConfig(updated, targetName);
+		if (getValueAtPath(validated, key) === undefined) {
+			Logger.error(`Key '${key}' is not part of the configuration schema`);
+			process.exitCode = 1;
+			return;
+		}
+
+		if (!(await configManager.promises.saveConfig(validated))) {
+			Logger.error(`Configuration '${targetName}' was not changed`);
+			process.exitCode = 1;
+			return;
+		}
+
+		Logger.info(`Set '${key}' in configuration '${targetName}'`);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error(`Error setting '${key}':`, errorMessage);
+		process.exitCode = 1;
+	}
+}
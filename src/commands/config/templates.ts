@@ -0,0 +1,49 @@
+import chalk from "chalk";
+import config from "../../utils/config";
+import { type ConfigTemplate, listTemplates } from "../../utils/configTemplates";
+import { flattenObject } from "../../utils/keyPath";
+import { Logger } from "../../utils/Logger";
+import { getTemplateDirectories, getUserTemplatesDir } from "./helpers";
+
+/**
+ * Prints a template with the values it sets and the ones it asks for
+ */
+function displayTemplate(template: ConfigTemplate): void {
+	const source = template.source === "user" ? chalk.gray(` (${template.filePath})`) : "";
+	console.log(`${chalk.cyan(template.name)}${source}`);
+
+	if (template.description) {
+		console.log(`   📝 ${template.description}`);
+	}
+
+	const preset = [...flattenObject(template.values).keys()];
+	if (preset.length > 0) {
+		console.log(`   ✏️  Sets: ${preset.join(", ")}`);
+	}
+
+	if (template.promptPaths.length > 0) {
+		console.log(`   ❓ Asks for: ${template.promptPaths.join(", ")}`);
+	}
+
+	console.log();
+}
+
+/**
+ * Lists the templates `config create --template` can start from
+ */
+export async function showTemplates(): Promise<void> {
+	Logger.info("🧩 Available templates\n");
+
+	const templates = listTemplates(getTemplateDirectories());
+
+	if (templates.length === 0) {
+		Logger.warn("No templates found");
+	}
+
+	for (const template of templates) {
+		displayTemplate(template);
+	}
+
+	Logger.info(`Add your own as JSON or YAML files in ${getUserTemplatesDir()}`);
+	Logger.info(`Use '${config.appName} config create --template <name>' to start from one`);
+}
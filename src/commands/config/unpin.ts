@@ -0,0 +1,23 @@
+import { configManager } from "../../utils/configManager";
+import { Logger } from "../../utils/Logger";
+
+/**
+ * Removes the pin file applying to the working directory, so the configuration chosen with
+ * `config use` applies again
+ */
+export async function unpinConfig(): Promise<void> {
+	try {
+		const pinFile = await configManager.promises.unpinConfig();
+
+		if (!pinFile) {
+			Logger.warn("No pinned configuration applies to this directory");
+			return;
+		}
+
+		Logger.info(`Removed ${pinFile}`);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error("Error removing the pin file:", errorMessage);
+		process.exitCode = 1;
+	}
+}
@@ -0,0 +1,46 @@
+import { configManager } from "../../utils/configManager";
+import { unsetValueAtPath } from "../../utils/keyPath";
+import { Logger } from "../../utils/Logger";
+import { resolveTargetConfigName } from "./helpers";
+
+/**
+ * Removes the value at a dotted key path
+ * The change is rejected if the resulting configuration fails validation (e.g. a required field)
+ */
+export async function unsetConfigValue(key: string): Promise<void> {
+	const targetName = await resolveTargetConfigName();
+
+	if (!targetName) {
+		process.exitCode = 1;
+		return;
+	}
+
+	try {
+		const configData = await configManager.promises.getConfig(targetName, { raw: true });
+
+		if (!configData) {
+			Logger.error(`Failed to load configuration '${targetName}'`);
+			process.exitCode = 1;
+			return;
+		}
+
+		const updated = structuredClone(configData);
+
+		if (!unsetValueAtPath(updated, key)) {
+			Logger.warn(`Key '${key}' is not set in configuration '${targetName}'`);
+			return;
+		}
+
+		if (!(await configManager.promises.saveConfig(updated))) {
+			Logger.error(`Configuration '${targetName}' was not changed`);
+			process.exitCode = 1;
+			return;
+		}
+
+		Logger.info(`Removed '${key}' from configuration '${targetName}'`);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error(`Error removing '${key}':`, errorMessage);
+		process.exitCode = 1;
+	}
+}
@@ -1,21 +1,21 @@
 import config from "../../utils/config";
+import { formatConfigDetails } from "../../utils/configDisplay";
 import { type AppConfig, configManager } from "../../utils/configManager";
 import { Logger } from "../../utils/Logger";
+import { checkConfigName } from "./helpers";
 
 /**
- * Displays a summary of the activated configuration
- * Customize this to show relevant config properties
+ * Displays a summary of the activated configuration, with secrets masked
  */
 function displayConfigSummary(configData: AppConfig): void {
-	if (configData.description) {
-		Logger.debug(`📝 ${configData.description}`);
+	const lines = formatConfigDetails(
+		configManager.maskSecrets(configData),
+		configManager.getSchema(),
+		["name"],
+	);
+	for (const line of lines) {
+		Logger.debug(line);
 	}
-
-	// TEMPLATE: Add your custom config properties display here
-	// Example:
-	// if ('apiUrl' in configData) {
-	//   Logger.debug(`🌐 API: ${configData.apiUrl}`);
-	// }
 }
 
 /**
@@ -25,24 +25,37 @@ export async function useConfig(name: string): Promise<void> {
 	if (!name?.trim()) {
 		Logger.error("You must specify a configuration name");
 		Logger.info(`Usage: ${config.appName} config use <name>`);
+		process.exitCode = 1;
 		return;
 	}
 
-	const configData = configManager.getConfig(name);
+	if (!checkConfigName(name)) {
+		return;
+	}
+
+	const configData = await configManager.promises.getConfig(name, { raw: true });
 
 	if (!configData) {
 		Logger.error(`Configuration '${name}' not found`);
 		Logger.info(`Use '${config.appName} config list' to see available configurations`);
+		process.exitCode = 1;
 		return;
 	}
 
-	const success = configManager.setCurrentConfig(name);
+	const success = await configManager.promises.setCurrentConfig(name);
 
 	if (success) {
 		Logger.info(`Configuration '${name}' set as active`);
 		displayConfigSummary(configData);
 		Logger.debug(`Configuration '${name}' activated`);
+
+		const current = await configManager.promises.getCurrentConfigInfo();
+		if (current?.source === "pin") {
+			Logger.warn(`'${current.name}' stays active in this directory, pinned by ${current.pinFile}`);
+			Logger.info(`Use '${config.appName} config unpin' to follow the active configuration here`);
+		}
 	} else {
 		Logger.error(`Failed to set configuration '${name}' as active`);
+		process.exitCode = 1;
 	}
 }
@@ -1,6 +1,8 @@
 #!/usr/bin/env node
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import { setupConfigCommands } from "./commands/config";
+import config from "./utils/config";
+import { configManager } from "./utils/configManager";
 import { Logger, LogLevel } from "./utils/Logger";
 import { getVersion } from "./utils/version";
 
@@ -13,6 +15,15 @@ program
 	.version(getVersion())
 	.option("-v, --verbose", "Enable verbose logging (debug level)")
 	.option("--no-color", "Disable colored output")
+	.addOption(
+		new Option("-c, --config <name>", "Use this configuration instead of the active one").env(
+			`${config.envPrefix}_CONFIG`,
+		),
+	)
+	.option(
+		"--config-dir <path>",
+		`Store configurations in this directory (default: $${config.envPrefix}_HOME/configs or the XDG config directory)`,
+	)
 	.hook("preAction", (thisCommand) => {
 		const opts = thisCommand.opts();
 		if (opts.verbose) {
@@ -23,6 +34,12 @@ program
 			Logger.setOptions({ colorize: false });
 			Logger.debug("Color output disabled");
 		}
+		if (opts.configDir) {
+			configManager.setConfigDir(opts.configDir);
+		}
+		if (opts.config) {
+			configManager.setConfigOverride(opts.config);
+		}
 	});
 
 setupConfigCommands(program);
@@ -3,6 +3,22 @@
  */
 
 export type { LoggerOptions } from "../utils/ChalkLogger";
-export type { AppConfig } from "../utils/configManager";
+export type { ConfigBundle } from "../utils/configBundle";
+export type { ConfigChange } from "../utils/configDiff";
+export type { ConfigRevision } from "../utils/configHistory";
+export type {
+	AppConfig,
+	AsyncConfigManager,
+	ConfigEventMap,
+	ConfigManager,
+	ConfigManagerOptions,
+	ConfigMetadata,
+	ConfigSchema,
+	CurrentConfigInfo,
+	CurrentConfigSource,
+	DeleteConfigOptions,
+	GetConfigOptions,
+} from "../utils/configManager";
+export type { ConfigIssue } from "../utils/errors";
 export type { Logger } from "../utils/Logger";
 export { LogLevel } from "../utils/Logger";
@@ -0,0 +1,262 @@
+import { randomBytes } from "node:crypto";
+import {
+	closeSync,
+	fsyncSync,
+	openSync,
+	readFileSync,
+	renameSync,
+	statSync,
+	unlinkSync,
+	writeSync,
+} from "node:fs";
+import { hostname } from "node:os";
+import { basename, dirname, join } from "node:path";
+import { setTimeout as delay } from "node:timers/promises";
+import { ConfigLockError } from "./errors";
+import { Logger } from "./Logger";
+
+/**
+ * Options for acquiring a lock file
+ */
+export interface FileLockOptions {
+	/** Maximum time to wait for the lock in milliseconds (default: 5000) */
+	timeout?: number;
+	/**
+	 * Age after which a lock whose owner cannot be checked (unreadable, or on another host) is
+	 * considered abandoned, in milliseconds (default: 10000)
+	 */
+	staleAfter?: number;
+	/** Delay between acquisition attempts in milliseconds (default: 20) */
+	retryInterval?: number;
+}
+
+/**
+ * Contents of a lock file, used to detect abandoned locks
+ */
+interface LockOwner {
+	pid: number;
+	hostname: string;
+	token: string;
+	createdAt: number;
+}
+
+/** Locks held by this process, with their re-entry depth */
+const heldLocks = new Map<string, { token: string; depth: number }>();
+
+/**
+ * Blocks the current thread for the given duration
+ * Used between lock attempts because the configuration API is synchronous
+ */
+function sleepSync(ms: number): void {
+	Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function isErrorCode(error: unknown, code: string): boolean {
+	return error instanceof Error && (error as NodeJS.ErrnoException).code === code;
+}
+
+/**
+ * Writes a file atomically: data goes to a temporary file in the same directory,
+ * is flushed to disk and then renamed over the target, so readers never see partial content
+ * @param filePath - Destination file
+ * @param content - File contents
+ * @param mode - File permissions for newly written files
+ */
+export function writeFileAtomic(filePath: string, content: string, mode = 0o666): void {
+	const tempPath = join(
+		dirname(filePath),
+		`.${basename(filePath)}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`,
+	);
+
+	try {
+		const fd = openSync(tempPath, "w", mode);
+		try {
+			writeSync(fd, content, null, "utf-8");
+			fsyncSync(fd);
+		} finally {
+			closeSync(fd);
+		}
+		renameSync(tempPath, filePath);
+	} catch (error) {
+		try {
+			unlinkSync(tempPath);
+		} catch {
+			// Temporary file was never created or already renamed
+		}
+		throw error;
+	}
+}
+
+/**
+ * Reads the owner recorded in a lock file
+ * @returns The owner, or null if the file is missing or unreadable
+ */
+function readLockOwner(lockPath: string): LockOwner | null {
+	try {
+		return JSON.parse(readFileSync(lockPath, "utf-8")) as LockOwner;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Checks whether a process with the given id is running on this machine
+ */
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		// EPERM means the process exists but belongs to another user
+		return isErrorCode(error, "EPERM");
+	}
+}
+
+/**
+ * Decides whether an existing lock was abandoned by a crashed or killed process
+ */
+function isLockStale(lockPath: string, owner: LockOwner | null, staleAfter: number): boolean {
+	// A lock held by a live process on this machine is never taken over, however long it is held
+	if (owner && owner.hostname === hostname() && Number.isInteger(owner.pid)) {
+		return !isProcessAlive(owner.pid);
+	}
+
+	try {
+		// Unreadable or foreign-host locks are only considered stale once they are old enough
+		return Date.now() - statSync(lockPath).mtimeMs > staleAfter;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Removes a stale lock, unless another process replaced it in the meantime
+ */
+function removeStaleLock(lockPath: string, observed: LockOwner | null): void {
+	const current = readLockOwner(lockPath);
+	if (current?.token !== observed?.token) {
+		return;
+	}
+
+	try {
+		unlinkSync(lockPath);
+		Logger.debug(`Removed stale lock: ${lockPath}`);
+	} catch (error) {
+		if (!isErrorCode(error, "ENOENT")) {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Attempts to create the lock file exclusively
+ * @returns True if the lock was acquired
+ */
+function tryCreateLock(lockPath: string, owner: LockOwner): boolean {
+	try {
+		const fd = openSync(lockPath, "wx");
+		try {
+			writeSync(fd, JSON.stringify(owner));
+		} finally {
+			closeSync(fd);
+		}
+		return true;
+	} catch (error) {
+		if (isErrorCode(error, "EEXIST")) {
+			return false;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Runs a function while holding an advisory lock file
+ * The lock is re-entrant within a process and abandoned locks (dead owner or older
+ * than `staleAfter`) are taken over
+ * @template T - The type of the function result
+ * @param lockPath - Path of the lock file
+ * @param fn - Function to run while holding the lock
+ * @param options - Lock acquisition options
+ * @returns The function result
+ * @throws ConfigLockError if the lock cannot be acquired within the timeout
+ */
+export function withFileLock<T>(lockPath: string, fn: () => T, options: FileLockOptions = {}): T {
+	const { timeout = 5000, staleAfter = 10000, retryInterval = 20 } = options;
+	const held = heldLocks.get(lockPath);
+
+	if (held) {
+		held.depth++;
+		try {
+			return fn();
+		} finally {
+			held.depth--;
+		}
+	}
+
+	const owner: LockOwner = {
+		pid: process.pid,
+		hostname: hostname(),
+		token: randomBytes(8).toString("hex"),
+		createdAt: Date.now(),
+	};
+	const deadline = Date.now() + timeout;
+
+	while (!tryCreateLock(lockPath, owner)) {
+		const existing = readLockOwner(lockPath);
+
+		if (isLockStale(lockPath, existing, staleAfter)) {
+			removeStaleLock(lockPath, existing);
+		} else if (Date.now() >= deadline) {
+			throw new ConfigLockError(lockPath, timeout);
+		} else {
+			sleepSync(retryInterval);
+		}
+	}
+
+	heldLocks.set(lockPath, { token: owner.token, depth: 1 });
+
+	try {
+		return fn();
+	} finally {
+		heldLocks.delete(lockPath);
+		if (readLockOwner(lockPath)?.token === owner.token) {
+			unlinkSync(lockPath);
+		}
+	}
+}
+
+/**
+ * Runs a function while holding an advisory lock file, waiting for the lock without blocking
+ * the event loop
+ * `fn` itself runs synchronously, so no other code in this process can run while the lock is
+ * held and nested `withFileLock` calls re-enter it safely
+ * @template T - The type of the function result
+ * @param lockPath - Path of the lock file
+ * @param fn - Function to run while holding the lock
+ * @param options - Lock acquisition options
+ * @returns The function result
+ * @throws ConfigLockError if the lock cannot be acquired within the timeout
+ */
+export async function withFileLockAsync<T>(
+	lockPath: string,
+	fn: () => T,
+	options: FileLockOptions = {},
+): Promise<T> {
+	const { timeout = 5000, retryInterval = 20 } = options;
+	const deadline = Date.now() + timeout;
+
+	for (;;) {
+		try {
+			// A single attempt, which still takes over stale locks
+			return withFileLock(lockPath, fn, { ...options, timeout: 0 });
+		} catch (error) {
+			if (!(error instanceof ConfigLockError) || error.lockPath !== lockPath) {
+				throw error;
+			}
+			if (Date.now() >= deadline) {
+				throw new ConfigLockError(lockPath, timeout);
+			}
+			await delay(retryInterval);
+		}
+	}
+}
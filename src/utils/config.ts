@@ -3,11 +3,20 @@ import { getVersion } from "./version";
 
 interface CliConfig {
 	readonly appName: string;
+	/** Prefix of the environment variables read by the CLI (e.g. DEMO_CLI_SECRET_KEY_FILE) */
+	readonly envPrefix: string;
+	/** Name of the project-local configuration file looked up from the working directory */
+	readonly rcFileName: string;
+	/** Name of the file pinning a stored configuration to a directory tree (`config pin`) */
+	readonly pinFileName: string;
 	readonly logLevel: LogLevel;
 	readonly version: string;
 }
 const config: CliConfig = {
 	appName: "Test CLI",
+	envPrefix: "DEMO_CLI",
+	rcFileName: ".demo-clirc.json",
+	pinFileName: ".demo-cli-config",
 	logLevel: LogLevel.INFO,
 	version: getVersion() || "1.0.0",
 } as const;
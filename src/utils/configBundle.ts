@@ -0,0 +1,260 @@
+import { extname } from "node:path";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { z } from "zod";
+import type { AppConfig } from "./configManager";
+import { MAX_CONFIG_NAME_LENGTH, toConfigSlug } from "./configNames";
+import { ConfigBundleError } from "./errors";
+import { getValueAtPath, setValueAtPath, unsetValueAtPath } from "./keyPath";
+import type { SecretCipher } from "./secrets";
+
+/** Version of the bundle format written by `config export` */
+export const BUNDLE_VERSION = 1;
+
+/** Formats a bundle can be written in */
+export const BUNDLE_FORMATS = ["json", "yaml"] as const;
+
+export type BundleFormat = (typeof BUNDLE_FORMATS)[number];
+
+/**
+ * How secret fields are written to a bundle
+ * - `plain`: decrypted, as the configurations hold them
+ * - `stripped`: left out
+ * - `encrypted`: encrypted with a passphrase chosen for the bundle
+ */
+export type BundleSecrets = "plain" | "stripped" | "encrypted";
+
+/**
+ * What `config import` does with a configuration whose name is already taken
+ * - `error`: report every conflict and import nothing
+ * - `overwrite`: replace the existing configuration
+ * - `skip`: keep the existing configuration
+ * - `rename`: import under the first free name (`dev-2`, `dev-3`, ...)
+ */
+export type ImportConflictStrategy = "error" | "overwrite" | "skip" | "rename";
+
+/**
+ * Shape of a bundle file
+ */
+const ConfigBundleSchema = z.object({
+	bundleVersion: z.literal(BUNDLE_VERSION),
+	exportedAt: z.string().optional(),
+	/** Name of the configuration that was active when the bundle was made */
+	active: z.string().optional(),
+	secrets: z.enum(["plain", "stripped", "encrypted"]),
+	configs: z.array(z.looseObject({ name: z.string().min(1) })),
+});
+
+/**
+ * A set of configurations exported together
+ */
+export type ConfigBundle = z.infer<typeof ConfigBundleSchema>;
+
+/**
+ * Picks the format of a bundle file from its extension
+ * @param filePath - Bundle file
+ * @returns `yaml` for `.yaml` and `.yml` files, `json` otherwise
+ */
+export function getBundleFormat(filePath: string): BundleFormat {
+	return [".yaml", ".yml"].includes(extname(filePath).toLowerCase()) ? "yaml" : "json";
+}
+
+/**
+ * Builds a bundle from stored configurations
+ * @param configs - Configurations to bundle, with their secrets decrypted
+ * @param options - Configuration to mark active, secret paths and how to write secrets
+ * @returns The bundle
+ */
+export function createConfigBundle(
+	configs: AppConfig[],
+	options: {
+		active?: string | null;
+		secretPaths: readonly string[];
+		secrets: BundleSecrets;
+		cipher?: SecretCipher;
+	},
+): ConfigBundle {
+	const { secretPaths, secrets, cipher } = options;
+
+	if (secrets === "encrypted" && !cipher) {
+		throw new ConfigBundleError("a passphrase is needed to encrypt secrets");
+	}
+
+	const bundled = configs.map((config) => {
+		const data: Record<string, unknown> = structuredClone(config);
+		if (secrets === "stripped") {
+			for (const path of secretPaths) {
+				unsetValueAtPath(data, path);
+			}
+			return data;
+		}
+		return secrets === "encrypted" && cipher ? cipher.encryptPaths(data, secretPaths) : data;
+	});
+
+	return {
+		bundleVersion: BUNDLE_VERSION,
+		exportedAt: new Date().toISOString(),
+		...(options.active && { active: options.active }),
+		secrets,
+		configs: bundled as ConfigBundle["configs"],
+	};
+}
+
+/**
+ * Writes a bundle as JSON or YAML
+ */
+export function serializeConfigBundle(bundle: ConfigBundle, format: BundleFormat): string {
+	return format === "yaml" ? stringifyYaml(bundle) : `${JSON.stringify(bundle, null, 2)}\n`;
+}
+
+/**
+ * Parses the contents of a bundle file
+ * @param content - File contents
+ * @param format - Format the file is written in
+ * @returns The bundle
+ * @throws ConfigBundleError if the contents cannot be parsed or are not a bundle
+ */
+export function parseConfigBundle(content: string, format: BundleFormat): ConfigBundle {
+	let parsed: unknown;
+
+	try {
+		parsed = format === "yaml" ? parseYaml(content) : JSON.parse(content);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		throw new ConfigBundleError(errorMessage);
+	}
+
+	const result = ConfigBundleSchema.safeParse(parsed);
+	if (!result.success) {
+		const details = result.error.issues.map(
+			(issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+		);
+		throw new ConfigBundleError(details.join("; "));
+	}
+
+	return result.data;
+}
+
+/**
+ * Gets the configurations of a bundle, ready to be saved
+ * @param bundle - Bundle to read
+ * @param options - Secret paths and, for bundles with encrypted secrets, the cipher to use
+ * @returns The configurations, with their secrets decrypted
+ * @throws ConfigBundleError if the secrets are encrypted and no cipher is given
+ * @throws ConfigSecretError if the secrets cannot be decrypted
+ */
+export function openConfigBundle(
+	bundle: ConfigBundle,
+	options: { secretPaths: readonly string[]; cipher?: SecretCipher },
+): AppConfig[] {
+	const { secretPaths, cipher } = options;
+
+	if (bundle.secrets !== "encrypted") {
+		return bundle.configs.map((config) => structuredClone(config) as AppConfig);
+	}
+	if (!cipher) {
+		throw new ConfigBundleError("its secrets are encrypted and need a passphrase");
+	}
+
+	return bundle.configs.map((config) => cipher.decryptPaths(config, secretPaths) as AppConfig);
+}
+
+/**
+ * What importing one configuration of a bundle does
+ */
+export interface ImportPlanEntry {
+	/** Name the configuration has in the bundle */
+	name: string;
+	/** Name it is imported under; differs from `name` when renamed */
+	targetName: string;
+	action: "create" | "overwrite" | "skip" | "rename" | "conflict";
+	/** Configuration to save, with `name` and `extends` updated for renames */
+	config: AppConfig;
+}
+
+/**
+ * Finds the first free name for a configuration that conflicts with an existing one
+ */
+function findFreeName(name: string, taken: Set<string>): string {
+	for (let suffix = 2; ; suffix++) {
+		const ending = `-${suffix}`;
+		const candidate = `${name.slice(0, MAX_CONFIG_NAME_LENGTH - ending.length)}${ending}`;
+		if (!taken.has(toConfigSlug(candidate))) {
+			return candidate;
+		}
+	}
+}
+
+/**
+ * Plans the import of a bundle's configurations
+ * Configurations are ordered so that the ones extended come first, and configurations
+ * extending a renamed one are pointed at its new name
+ * @param configs - Configurations of the bundle
+ * @param existing - Slugs of the configurations already stored
+ * @param strategy - What to do with configurations whose name is taken
+ * @returns One entry per configuration, in the order to import them
+ */
+export function planConfigImport(
+	configs: AppConfig[],
+	existing: Iterable<string>,
+	strategy: ImportConflictStrategy,
+): ImportPlanEntry[] {
+	const pending = new Map(configs.map((config) => [toConfigSlug(config.name), config]));
+	const taken = new Set(existing);
+	const renamed = new Map<string, string>();
+	const plan: ImportPlanEntry[] = [];
+
+	while (pending.size > 0) {
+		// A configuration waits for the one it extends, unless they extend each other
+		const [slug, config] =
+			[...pending].find(([, candidate]) => {
+				const parent = candidate.extends ? toConfigSlug(candidate.extends) : undefined;
+				return parent === undefined || !pending.has(parent);
+			}) ?? ([...pending][0] as [string, AppConfig]);
+		pending.delete(slug);
+
+		const data = structuredClone(config);
+		const parentName = data.extends && renamed.get(toConfigSlug(data.extends));
+		if (parentName) {
+			data.extends = parentName;
+		}
+
+		let action: ImportPlanEntry["action"] = "create";
+		if (taken.has(slug)) {
+			action = strategy === "error" ? "conflict" : strategy;
+		}
+		if (action === "rename") {
+			data.name = findFreeName(config.name, taken);
+			renamed.set(slug, data.name);
+		}
+		taken.add(toConfigSlug(data.name));
+
+		plan.push({ name: config.name, targetName: data.name, action, config: data });
+	}
+
+	return plan;
+}
+
+/**
+ * Copies the secrets of an existing configuration into one that has none, so overwriting a
+ * configuration with one from a bundle without secrets keeps them
+ * @param config - Configuration from the bundle
+ * @param existing - Configuration it replaces, with its secrets decrypted
+ * @param secretPaths - Dotted paths of secret fields
+ * @returns A copy of the configuration with the missing secrets filled in
+ */
+export function keepExistingSecrets(
+	config: AppConfig,
+	existing: AppConfig,
+	secretPaths: readonly string[],
+): AppConfig {
+	const merged: Record<string, unknown> = structuredClone(config);
+
+	for (const path of secretPaths) {
+		const value = getValueAtPath(existing, path);
+		if (value !== undefined && getValueAtPath(merged, path) === undefined) {
+			setValueAtPath(merged, path, value);
+		}
+	}
+
+	return merged as AppConfig;
+}
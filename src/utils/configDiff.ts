@@ -0,0 +1,105 @@
+import { flattenObject } from "./keyPath";
+import { looksLikeSecret, SECRET_MASK } from "./secrets";
+
+/**
+ * How a single field differs between two configurations
+ */
+export type ConfigChangeKind = "added" | "removed" | "changed";
+
+/**
+ * A difference in one leaf field, located by its dotted path
+ */
+export interface ConfigChange {
+	/** Dotted path of the field */
+	path: string;
+	kind: ConfigChangeKind;
+	/** Value on the left-hand side (absent for added fields) */
+	before?: unknown;
+	/** Value on the right-hand side (absent for removed fields) */
+	after?: unknown;
+}
+
+/** Prefix used for each kind of change in summaries */
+const CHANGE_SYMBOLS: Record<ConfigChangeKind, string> = {
+	added: "+",
+	removed: "-",
+	changed: "~",
+};
+
+/**
+ * Compares two configurations field by field
+ * Nested objects are compared leaf by leaf; arrays are compared as whole values
+ * @param before - Left-hand configuration
+ * @param after - Right-hand configuration
+ * @returns Every differing field, sorted by path
+ */
+export function diffConfigs(
+	before: Record<string, unknown>,
+	after: Record<string, unknown>,
+): ConfigChange[] {
+	const beforeLeaves = flattenObject(before);
+	const afterLeaves = flattenObject(after);
+	const paths = [...new Set([...beforeLeaves.keys(), ...afterLeaves.keys()])].sort();
+	const changes: ConfigChange[] = [];
+
+	for (const path of paths) {
+		const inBefore = beforeLeaves.has(path);
+		const inAfter = afterLeaves.has(path);
+		const beforeValue = beforeLeaves.get(path);
+		const afterValue = afterLeaves.get(path);
+
+		if (!inAfter) {
+			changes.push({ path, kind: "removed", before: beforeValue });
+		} else if (!inBefore) {
+			changes.push({ path, kind: "added", after: afterValue });
+		} else if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+			changes.push({ path, kind: "changed", before: beforeValue, after: afterValue });
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * Replaces the values of secret-looking fields with a mask
+ * @param changes - Changes returned by `diffConfigs`
+ * @param secretPaths - Paths known to be secret from the schema
+ * @returns Masked copies of the changes
+ */
+export function maskChanges(
+	changes: readonly ConfigChange[],
+	secretPaths: readonly string[] = [],
+): ConfigChange[] {
+	return changes.map((change) => {
+		const isSecret =
+			looksLikeSecret(change.path, change.before, secretPaths) ||
+			looksLikeSecret(change.path, change.after, secretPaths);
+
+		if (!isSecret) {
+			return change;
+		}
+
+		const masked: ConfigChange = { path: change.path, kind: change.kind };
+		if ("before" in change) {
+			masked.before = SECRET_MASK;
+		}
+		if ("after" in change) {
+			masked.after = SECRET_MASK;
+		}
+		return masked;
+	});
+}
+
+/**
+ * Summarizes changes as a single line of field names, e.g. `~timeout, +features.enableCache`
+ * Values are left out so the summary never reveals secrets
+ * @param changes - Changes returned by `diffConfigs`
+ * @returns Summary line, or `no changes`
+ */
+export function summarizeChanges(changes: readonly ConfigChange[]): string {
+	if (changes.length === 0) {
+		return "no changes";
+	}
+
+	return changes.map((change) => `${CHANGE_SYMBOLS[change.kind]}${change.path}`).join(", ");
+}
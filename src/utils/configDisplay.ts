@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { isPlainObject } from "./keyPath";
+import { getSchemaLabel, unwrapSchema } from "./schemaIntrospection";
+
+/**
+ * Formats a single value for display
+ */
+function formatValue(value: unknown): string {
+	if (typeof value === "string") {
+		return value;
+	}
+	if (Array.isArray(value) && value.every((item) => typeof item !== "object" || item === null)) {
+		return value.map(String).join(", ");
+	}
+	return JSON.stringify(value);
+}
+
+/**
+ * Formats the details of a configuration as `Label: value` lines, in schema order
+ * Nested objects become sections whose fields are indented below the object's label;
+ * fields without a value are left out. Mask secrets before passing the configuration in.
+ * @param config - Configuration to describe
+ * @param schema - Configuration schema, giving the fields and their labels
+ * @param exclude - Dotted paths to leave out, with the fields below them
+ * @returns Lines to print, without a trailing newline
+ */
+export function formatConfigDetails(
+	config: Record<string, unknown>,
+	schema: z.ZodType,
+	exclude: readonly string[] = [],
+): string[] {
+	const lines: string[] = [];
+
+	const visit = (
+		data: Record<string, unknown>,
+		current: z.ZodType,
+		prefix: string,
+		depth: number,
+	) => {
+		const unwrapped = unwrapSchema(current);
+		if (!(unwrapped instanceof z.ZodObject)) {
+			return;
+		}
+
+		const indent = "  ".repeat(depth);
+		for (const [key, child] of Object.entries(unwrapped.shape as Record<string, z.ZodType>)) {
+			const path = prefix ? `${prefix}.${key}` : key;
+			const value = data[key];
+			if (value === undefined || exclude.includes(path)) {
+				continue;
+			}
+
+			const label = getSchemaLabel(key, child);
+			if (isPlainObject(value) && unwrapSchema(child) instanceof z.ZodObject) {
+				lines.push(`${indent}${label}:`);
+				visit(value, child, path, depth + 1);
+			} else {
+				lines.push(`${indent}${label}: ${formatValue(value)}`);
+			}
+		}
+	};
+
+	visit(config, schema, "", 0);
+	return lines;
+}
@@ -0,0 +1,117 @@
+import { spawn } from "node:child_process";
+
+/** Prefix of the lines `config edit` adds above the configuration, ignored when reading it back */
+export const EDIT_COMMENT_PREFIX = "//";
+
+/**
+ * Gets the command used to edit files: `$VISUAL`, then `$EDITOR`, then the platform default
+ * @param env - Environment to read the variables from
+ * @returns The command, possibly with arguments (e.g. `code --wait`)
+ */
+export function getEditorCommand(env: NodeJS.ProcessEnv = process.env): string {
+	const editor = env.VISUAL?.trim() || env.EDITOR?.trim();
+	if (editor) {
+		return editor;
+	}
+	return process.platform === "win32" ? "notepad" : "vi";
+}
+
+/**
+ * Splits an editor command into the program and its arguments, as a shell would for simple
+ * commands: words are separated by whitespace, and single or double quotes group them
+ * @param command - Command such as `code --wait` or `"/Applications/My Editor" -w`
+ * @returns The program followed by its arguments
+ * @throws Error if a quote is not closed or the command is empty
+ */
+export function splitEditorCommand(command: string): string[] {
+	const words: string[] = [];
+	let word: string | null = null;
+	let quote: string | null = null;
+
+	for (const char of command) {
+		if (quote) {
+			if (char === quote) {
+				quote = null;
+			} else {
+				word = (word ?? "") + char;
+			}
+		} else if (char === '"' || char === "'") {
+			quote = char;
+			word ??= "";
+		} else if (/\s/.test(char)) {
+			if (word !== null) {
+				words.push(word);
+				word = null;
+			}
+		} else {
+			word = (word ?? "") + char;
+		}
+	}
+
+	if (quote) {
+		throw new Error(`Unclosed quote in editor command: ${command}`);
+	}
+	if (word !== null) {
+		words.push(word);
+	}
+	if (words.length === 0) {
+		throw new Error("The editor command is empty");
+	}
+	return words;
+}
+
+/**
+ * Adds comment lines above a document
+ * @param body - Document to edit
+ * @param comments - Lines to add, without their prefix; empty strings give blank comment lines
+ * @returns The contents of the file to edit
+ */
+export function addEditComments(body: string, comments: string[]): string {
+	const header = comments.map((line) =>
+		line ? `${EDIT_COMMENT_PREFIX} ${line}` : EDIT_COMMENT_PREFIX,
+	);
+	return [...header, body].join("\n");
+}
+
+/**
+ * Removes the comment lines from an edited file
+ * Only whole lines starting with the prefix are removed; JSON strings cannot span lines, so
+ * values are never affected
+ * @param content - Contents of the edited file
+ * @returns The document without comments
+ */
+export function stripEditComments(content: string): string {
+	return content
+		.split("\n")
+		.filter((line) => !line.trimStart().startsWith(EDIT_COMMENT_PREFIX))
+		.join("\n");
+}
+
+/**
+ * Opens a file in the user's editor and waits for it to close
+ * The editor runs without a shell: its command is split into arguments (see
+ * `splitEditorCommand`) and the file is passed as the last one, so its path is never parsed
+ * @param file - File to edit
+ * @param env - Environment to find the editor in and to run it with
+ * @throws Error if the editor cannot be started or exits with a failure
+ */
+export function launchEditor(file: string, env: NodeJS.ProcessEnv = process.env): Promise<void> {
+	const editor = getEditorCommand(env);
+
+	return new Promise((resolve, reject) => {
+		const [program = editor, ...args] = splitEditorCommand(editor);
+		const child = spawn(program, [...args, file], {
+			env,
+			shell: false,
+			stdio: "inherit",
+		});
+		child.on("error", (error) => reject(new Error(`Cannot start '${editor}': ${error.message}`)));
+		child.on("exit", (code, signal) => {
+			if (code === 0) {
+				resolve();
+			} else {
+				reject(new Error(`'${editor}' exited with ${signal ?? `code ${code}`}`));
+			}
+		});
+	});
+}
@@ -0,0 +1,106 @@
+import type { AppConfig, ConfigMetadata } from "./configManager";
+
+/** Orders `config list` can sort configurations in */
+export const CONFIG_SORT_KEYS = ["name", "updated", "used"] as const;
+
+export type ConfigSortKey = (typeof CONFIG_SORT_KEYS)[number];
+
+/**
+ * A stored configuration as shown by `config list`
+ */
+export interface ConfigListEntry {
+	/** Slug the configuration is stored under */
+	name: string;
+	/** Configuration data, or null if it cannot be loaded */
+	config: AppConfig | null;
+	/** Timestamps kept for the configuration, or null if they cannot be read */
+	metadata: ConfigMetadata | null;
+}
+
+/**
+ * Criteria a configuration must meet to be listed
+ */
+export interface ConfigListFilter {
+	/** Tags the configuration must all carry, compared case-insensitively */
+	tags?: string[];
+	/** Glob (`*` and `?`) matched case-insensitively against the slug or the display name */
+	pattern?: string;
+}
+
+/**
+ * Checks whether a value matches a glob pattern
+ * `*` matches any run of characters and `?` a single one; the whole value must match
+ * @param value - Value to test
+ * @param pattern - Glob pattern
+ * @returns True if the value matches, ignoring case
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+	const source = [...pattern]
+		.map((char) => {
+			if (char === "*") {
+				return ".*";
+			}
+			if (char === "?") {
+				return ".";
+			}
+			return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		})
+		.join("");
+	return new RegExp(`^${source}$`, "isu").test(value);
+}
+
+/**
+ * Keeps the configurations meeting every given criterion
+ * Configurations that cannot be loaded only match when no tags are required
+ * @param entries - Configurations to filter
+ * @param filter - Criteria to apply
+ * @returns Matching entries, in their original order
+ */
+export function filterConfigEntries(
+	entries: ConfigListEntry[],
+	filter: ConfigListFilter,
+): ConfigListEntry[] {
+	const requiredTags = (filter.tags ?? []).map((tag) => tag.toLowerCase());
+	const { pattern } = filter;
+
+	return entries.filter(({ name, config }) => {
+		if (
+			pattern !== undefined &&
+			!matchesGlob(name, pattern) &&
+			!(config && matchesGlob(config.name, pattern))
+		) {
+			return false;
+		}
+		if (requiredTags.length === 0) {
+			return true;
+		}
+
+		const tags = new Set(config?.tags?.map((tag) => tag.toLowerCase()));
+		return requiredTags.every((tag) => tags.has(tag));
+	});
+}
+
+/**
+ * Sorts configurations by name, or by when they were last updated or used, most recent first
+ * Configurations never used (or without a known time) come last; ties are sorted by name
+ * @param entries - Configurations to sort
+ * @param sortKey - Order to sort in
+ * @returns A sorted copy
+ */
+export function sortConfigEntries(
+	entries: ConfigListEntry[],
+	sortKey: ConfigSortKey,
+): ConfigListEntry[] {
+	const getTime = (entry: ConfigListEntry): number => {
+		const timestamp =
+			sortKey === "updated" ? entry.metadata?.updatedAt : entry.metadata?.lastUsedAt;
+		const time = timestamp ? Date.parse(timestamp) : Number.NaN;
+		return Number.isNaN(time) ? Number.NEGATIVE_INFINITY : time;
+	};
+	const byName = (a: ConfigListEntry, b: ConfigListEntry) => a.name.localeCompare(b.name);
+
+	if (sortKey === "name") {
+		return [...entries].sort(byName);
+	}
+	return [...entries].sort((a, b) => getTime(b) - getTime(a) || byName(a, b));
+}
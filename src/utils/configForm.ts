@@ -0,0 +1,362 @@
+import inquirer, { type DistinctQuestion } from "inquirer";
+import { z } from "zod";
+import { hasPlaceholders } from "./configInterpolation";
+import { deepMerge, getValueAtPath, setValueAtPath } from "./keyPath";
+import { Logger } from "./Logger";
+import { coerceValue, getSchemaDefault, getSchemaLabel, unwrapSchema } from "./schemaIntrospection";
+import { isSecretSchema } from "./secrets";
+
+/**
+ * How a field is asked for
+ * - `text`: free text
+ * - `password`: masked text, for fields marked with `secret()`
+ * - `number`: a number
+ * - `confirm`: yes or no
+ * - `select`: one of the values of an enum or literal union
+ * - `list`: comma-separated strings, for string arrays
+ * - `json`: anything else, parsed like a `--set` value
+ */
+export type FormFieldKind = "text" | "password" | "number" | "confirm" | "select" | "list" | "json";
+
+/**
+ * A configuration field the user can be prompted for
+ */
+export interface FormField {
+	/** Dotted path of the field */
+	path: string;
+	/** Label shown in the prompt */
+	label: string;
+	/** Labels of the objects the field is nested in, outermost first */
+	section: string[];
+	kind: FormFieldKind;
+	/** Whether the configuration is invalid without a value, including every enclosing object */
+	required: boolean;
+	/** Schema of the field, used to validate answers */
+	schema: z.ZodType;
+	/** Values to pick from, for `select` fields */
+	choices?: readonly unknown[];
+}
+
+/**
+ * Options for `selectFormFields`, `buildFormQuestion` and `promptForm`
+ */
+export interface FormOptions {
+	/** Values already known; they are used as defaults and their fields are not asked for */
+	values?: Record<string, unknown>;
+	/**
+	 * Only ask for these dotted paths (and the fields below them), even when they have a value;
+	 * every path listed must be answered
+	 */
+	paths?: string[];
+	/** Let required fields be left blank, e.g. when the configuration inherits them */
+	allowMissing?: boolean;
+}
+
+/** Choice of an optional `select` field leaving it unset */
+const NO_CHOICE = Symbol("none");
+
+/**
+ * Lists the values an enum or literal union accepts
+ * @returns The values, or undefined if the schema accepts other values too
+ */
+function getChoices(schema: z.ZodType): readonly unknown[] | undefined {
+	if (schema instanceof z.ZodEnum) {
+		return schema.options;
+	}
+	if (schema instanceof z.ZodLiteral) {
+		return [...schema.values];
+	}
+	if (schema instanceof z.ZodUnion) {
+		const choices: unknown[] = [];
+		for (const option of schema.options as z.ZodType[]) {
+			const optionChoices = getChoices(unwrapSchema(option));
+			if (!optionChoices) {
+				return undefined;
+			}
+			choices.push(...optionChoices);
+		}
+		return choices;
+	}
+	return undefined;
+}
+
+/**
+ * Checks whether a schema describes a string, including formats such as `z.url()`
+ */
+function isStringSchema(schema: z.ZodType): boolean {
+	return schema instanceof z.ZodString || schema instanceof z.ZodStringFormat;
+}
+
+/**
+ * Picks the prompt best suited to a field
+ */
+function getFieldKind(schema: z.ZodType): Pick<FormField, "kind" | "choices"> {
+	if (isSecretSchema(schema)) {
+		return { kind: "password" };
+	}
+
+	const unwrapped = unwrapSchema(schema);
+	if (isStringSchema(unwrapped)) {
+		return { kind: "text" };
+	}
+	if (unwrapped instanceof z.ZodNumber) {
+		return { kind: "number" };
+	}
+	if (unwrapped instanceof z.ZodBoolean) {
+		return { kind: "confirm" };
+	}
+	if (
+		unwrapped instanceof z.ZodArray &&
+		isStringSchema(unwrapSchema(unwrapped.element as z.ZodType))
+	) {
+		return { kind: "list" };
+	}
+
+	const choices = getChoices(unwrapped);
+	return choices ? { kind: "select", choices } : { kind: "json" };
+}
+
+/**
+ * Walks a configuration schema to list the fields of the form
+ * Nested objects are flattened into their fields, grouped under the object's label
+ * @param schema - Root (object) schema
+ * @param exclude - Dotted paths to leave out, with the fields below them
+ * @returns Fields in schema order
+ */
+export function getFormFields(schema: z.ZodType, exclude: readonly string[] = []): FormField[] {
+	const fields: FormField[] = [];
+
+	const visit = (current: z.ZodType, prefix: string, section: string[], required: boolean) => {
+		const unwrapped = unwrapSchema(current);
+		if (!(unwrapped instanceof z.ZodObject)) {
+			return;
+		}
+
+		for (const [key, child] of Object.entries(unwrapped.shape as Record<string, z.ZodType>)) {
+			const path = prefix ? `${prefix}.${key}` : key;
+			if (exclude.includes(path)) {
+				continue;
+			}
+
+			const label = getSchemaLabel(key, child);
+			const childRequired = required && !child.safeParse(undefined).success;
+			if (unwrapSchema(child) instanceof z.ZodObject && !isSecretSchema(child)) {
+				visit(child, path, [...section, label], childRequired);
+			} else {
+				fields.push({
+					path,
+					label,
+					section,
+					...getFieldKind(child),
+					required: childRequired,
+					schema: child,
+				});
+			}
+		}
+	};
+
+	visit(schema, "", [], true);
+	return fields;
+}
+
+/**
+ * Chooses the fields to ask for
+ * Paths the schema does not describe are asked for as JSON
+ * @param fields - Fields of the form
+ * @param options - Known values and the paths to ask for
+ * @returns The fields to prompt for, in schema order
+ */
+export function selectFormFields(fields: FormField[], options: FormOptions = {}): FormField[] {
+	const { values = {}, paths } = options;
+
+	if (!paths) {
+		return fields.filter((field) => getValueAtPath(values, field.path) === undefined);
+	}
+
+	const covers = (path: string, fieldPath: string) =>
+		fieldPath === path || fieldPath.startsWith(`${path}.`);
+	const selected = fields
+		.filter((field) => paths.some((path) => covers(path, field.path)))
+		.map((field) => ({ ...field, required: true }));
+	const unknown = paths
+		.filter((path) => !fields.some((field) => covers(path, field.path)))
+		.map(
+			(path): FormField => ({
+				path,
+				label: path,
+				section: [],
+				kind: "json",
+				required: true,
+				schema: z.unknown(),
+			}),
+		);
+
+	return [...selected, ...unknown];
+}
+
+/**
+ * Converts an answer to the value stored in the configuration
+ * Blank answers (and `(none)`) leave the field unset
+ * @param field - Field the answer is for
+ * @param answer - Answer as returned by inquirer
+ * @returns The value, or undefined if the field is left unset
+ * @throws Error if a JSON answer cannot be converted to the type the schema expects
+ */
+export function toFieldValue(field: FormField, answer: unknown): unknown {
+	if (answer === undefined || answer === NO_CHOICE) {
+		return undefined;
+	}
+
+	switch (field.kind) {
+		case "confirm":
+		case "select":
+			return answer;
+		case "number":
+			return typeof answer === "number" && !Number.isNaN(answer) ? answer : undefined;
+		case "list": {
+			const items = String(answer)
+				.split(",")
+				.map((item) => item.trim())
+				.filter(Boolean);
+			return items.length > 0 ? items : undefined;
+		}
+		case "password":
+			return String(answer) === "" ? undefined : String(answer);
+		case "text":
+			return String(answer).trim() || undefined;
+		case "json": {
+			const raw = String(answer).trim();
+			return raw === "" ? undefined : coerceValue(field.schema, raw);
+		}
+	}
+}
+
+/**
+ * Checks an answer against the field's schema
+ * Values holding placeholders are accepted as they are only checked once expanded
+ */
+function validateAnswer(field: FormField, answer: unknown, allowMissing: boolean): string | true {
+	let value: unknown;
+	try {
+		value = toFieldValue(field, answer);
+	} catch (error) {
+		return error instanceof Error ? error.message : String(error);
+	}
+
+	if (value === undefined) {
+		return field.required && !allowMissing ? `${field.label} is required` : true;
+	}
+	if (hasPlaceholders(value)) {
+		return true;
+	}
+
+	const result = field.schema.safeParse(value);
+	return result.success || (result.error.issues[0]?.message ?? `Invalid ${field.label}`);
+}
+
+/**
+ * Formats a known value as the default answer of a text prompt
+ */
+function formatDefault(field: FormField, value: unknown): string {
+	if (field.kind === "list" && Array.isArray(value)) {
+		return value.join(", ");
+	}
+	return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Builds the inquirer question for a field
+ * Answers are nested by the field's dotted path and still need converting with `toFieldValue`
+ * @param field - Field to ask for
+ * @param options - Known values, used as defaults before the schema's own
+ * @returns The question
+ */
+export function buildFormQuestion(field: FormField, options: FormOptions = {}): DistinctQuestion {
+	const known = getValueAtPath(options.values ?? {}, field.path);
+	const defaultValue = known === undefined ? getSchemaDefault(field.schema)?.value : known;
+	const question = {
+		name: field.path,
+		message: field.required ? `${field.label}:` : `${field.label} (optional):`,
+	};
+	const validate = (answer: unknown) =>
+		validateAnswer(field, answer, Boolean(options.allowMissing));
+
+	switch (field.kind) {
+		case "confirm":
+			return { ...question, type: "confirm", default: defaultValue === true };
+		case "select": {
+			const choices = (field.choices ?? []).map((value) => ({ name: String(value), value }));
+			return {
+				...question,
+				type: "list",
+				choices: field.required ? choices : [...choices, { name: "(none)", value: NO_CHOICE }],
+				default: defaultValue ?? NO_CHOICE,
+			};
+		}
+		case "number":
+			return typeof defaultValue === "number"
+				? { ...question, type: "number", validate, default: defaultValue }
+				: { ...question, type: "number", validate };
+		case "password":
+			// Secrets are never echoed, so they get no default either
+			return { ...question, type: "password", mask: "*", validate };
+		default:
+			return defaultValue === undefined
+				? { ...question, type: "input", validate }
+				: { ...question, type: "input", validate, default: formatDefault(field, defaultValue) };
+	}
+}
+
+/**
+ * Converts the answers to the prompts into configuration values
+ * @param fields - Fields that were asked for
+ * @param answers - Answers nested by dotted path
+ * @returns Nested values of the fields that were not left blank
+ */
+export function collectFormAnswers(
+	fields: FormField[],
+	answers: Record<string, unknown>,
+): Record<string, unknown> {
+	const values: Record<string, unknown> = {};
+
+	for (const field of fields) {
+		const value = toFieldValue(field, getValueAtPath(answers, field.path));
+		if (value !== undefined) {
+			setValueAtPath(values, field.path, value);
+		}
+	}
+
+	return values;
+}
+
+/**
+ * Prompts for the fields of a configuration schema, one section at a time
+ * @param schema - Configuration schema
+ * @param options - Known values, the paths to ask for and the fields to leave out
+ * @returns Nested values answered by the user
+ */
+export async function promptForm(
+	schema: z.ZodType,
+	options: FormOptions & { exclude?: string[] } = {},
+): Promise<Record<string, unknown>> {
+	const fields = selectFormFields(getFormFields(schema, options.exclude), options);
+	const sections = new Map<string, FormField[]>();
+
+	for (const field of fields) {
+		const key = field.section.join(" › ");
+		sections.set(key, [...(sections.get(key) ?? []), field]);
+	}
+
+	let answers: Record<string, unknown> = {};
+	for (const [section, sectionFields] of sections) {
+		if (section) {
+			Logger.info(`\n${section}`);
+		}
+		const sectionAnswers = await inquirer.prompt(
+			sectionFields.map((field) => buildFormQuestion(field, options)),
+		);
+		answers = deepMerge(answers, collectFormAnswers(sectionFields, sectionAnswers));
+	}
+
+	return answers;
+}
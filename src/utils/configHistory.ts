@@ -0,0 +1,177 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { writeFileAtomic } from "./atomicFile";
+import { isPlainObject } from "./keyPath";
+
+/**
+ * Number of revisions kept per configuration unless configured otherwise
+ */
+export const DEFAULT_HISTORY_LIMIT = 10;
+
+/**
+ * What produced a revision
+ */
+export type ConfigRevisionAction = "save" | "delete" | "rollback";
+
+/**
+ * A recorded state of a configuration
+ */
+export interface ConfigRevision {
+	/** Revision number, increasing with every change */
+	revision: number;
+	/** ISO 8601 time the revision was recorded */
+	timestamp: string;
+	action: ConfigRevisionAction;
+	/** Configuration data after the change, or null if the configuration was deleted */
+	data: Record<string, unknown> | null;
+}
+
+/**
+ * Gets the directory holding the revisions of one configuration
+ */
+function getRevisionDir(historyDir: string, name: string): string {
+	return join(historyDir, name);
+}
+
+/**
+ * Checks that a parsed revision file has the expected shape
+ */
+function isConfigRevision(value: unknown): value is ConfigRevision {
+	return (
+		isPlainObject(value) &&
+		Number.isInteger(value.revision) &&
+		typeof value.timestamp === "string" &&
+		(value.action === "save" || value.action === "delete" || value.action === "rollback") &&
+		(value.data === null || isPlainObject(value.data))
+	);
+}
+
+/** Revision files are named after their revision number */
+const REVISION_FILE_PATTERN = /^\d+\.json$/;
+
+/**
+ * Parses a revision file
+ * @returns The revision, or null if the file is damaged
+ */
+function parseRevision(content: string): ConfigRevision | null {
+	try {
+		const parsed: unknown = JSON.parse(content);
+		return isConfigRevision(parsed) ? parsed : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Lists the recorded revisions of a configuration
+ * Unreadable revision files are skipped
+ * @param historyDir - Directory holding the history of every configuration
+ * @param name - Configuration name
+ * @returns Revisions, oldest first
+ */
+export function listRevisions(historyDir: string, name: string): ConfigRevision[] {
+	const revisionDir = getRevisionDir(historyDir, name);
+
+	if (!existsSync(revisionDir)) {
+		return [];
+	}
+
+	const revisions: ConfigRevision[] = [];
+
+	for (const file of readdirSync(revisionDir)) {
+		if (!REVISION_FILE_PATTERN.test(file)) {
+			continue;
+		}
+
+		try {
+			const revision = parseRevision(readFileSync(join(revisionDir, file), "utf-8"));
+			if (revision) {
+				revisions.push(revision);
+			}
+		} catch {
+			// A damaged revision must not hide the others
+		}
+	}
+
+	return revisions.sort((a, b) => a.revision - b.revision);
+}
+
+/**
+ * Lists the recorded revisions of a configuration, reading the files in parallel
+ * Unreadable revision files are skipped
+ * @param historyDir - Directory holding the history of every configuration
+ * @param name - Configuration name
+ * @returns Revisions, oldest first
+ */
+export async function readRevisions(historyDir: string, name: string): Promise<ConfigRevision[]> {
+	const revisionDir = getRevisionDir(historyDir, name);
+	let files: string[];
+
+	try {
+		files = await readdir(revisionDir);
+	} catch {
+		return [];
+	}
+
+	const revisions = await Promise.all(
+		files
+			.filter((file) => REVISION_FILE_PATTERN.test(file))
+			.map((file) => readFile(join(revisionDir, file), "utf-8").then(parseRevision, () => null)),
+	);
+
+	return revisions
+		.filter((revision): revision is ConfigRevision => revision !== null)
+		.sort((a, b) => a.revision - b.revision);
+}
+
+/**
+ * Writes a revision file, replacing any existing revision with the same number
+ * @param historyDir - Directory holding the history of every configuration
+ * @param name - Configuration name
+ * @param revision - Revision to write
+ */
+export function writeRevision(historyDir: string, name: string, revision: ConfigRevision): void {
+	const revisionDir = getRevisionDir(historyDir, name);
+	mkdirSync(revisionDir, { recursive: true, mode: 0o700 });
+	// Revisions hold the same data as the configuration files, so they get the same mode
+	writeFileAtomic(
+		join(revisionDir, `${revision.revision}.json`),
+		JSON.stringify(revision, null, 2),
+		0o600,
+	);
+}
+
+/**
+ * Records a new revision and removes the oldest ones beyond the limit
+ * @param historyDir - Directory holding the history of every configuration
+ * @param name - Configuration name
+ * @param action - What produced the revision
+ * @param data - Stored configuration data, or null for a deletion
+ * @param limit - Maximum number of revisions to keep
+ * @returns The recorded revision
+ */
+export function recordRevision(
+	historyDir: string,
+	name: string,
+	action: ConfigRevisionAction,
+	data: Record<string, unknown> | null,
+	limit: number,
+): ConfigRevision {
+	const existing = listRevisions(historyDir, name);
+	const revision: ConfigRevision = {
+		revision: (existing[existing.length - 1]?.revision ?? 0) + 1,
+		timestamp: new Date().toISOString(),
+		action,
+		data,
+	};
+
+	writeRevision(historyDir, name, revision);
+
+	const revisionDir = getRevisionDir(historyDir, name);
+	for (const old of existing.slice(0, Math.max(0, existing.length + 1 - limit))) {
+		rmSync(join(revisionDir, `${old.revision}.json`), { force: true });
+	}
+
+	return revision;
+}
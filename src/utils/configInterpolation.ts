@@ -0,0 +1,274 @@
+/**
+ * Placeholders in stored string values, expanded when a configuration is read:
+ * - `${env:VAR}` — the value of an environment variable
+ * - `${file:path}` — the contents of a file, without the trailing newline
+ * - `${config:name.key}` — the value at a dotted key path of another stored configuration
+ *
+ * `$${...}` is kept as the literal text `${...}`
+ */
+
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { isAbsolute, join, resolve } from "node:path";
+import { toConfigSlug } from "./configNames";
+import { ConfigInterpolationError } from "./errors";
+import { getValueAtPath, isPlainObject } from "./keyPath";
+
+/** Matches a placeholder, optionally escaped with a leading `$` */
+const PLACEHOLDER_PATTERN = /(\$?)\$\{(\w+):([^}]*)\}/g;
+
+/**
+ * Where placeholder values are looked up
+ */
+export interface InterpolationSources {
+	/** Environment for `${env:...}` (defaults to process.env) */
+	env?: NodeJS.ProcessEnv;
+	/** Directory relative `${file:...}` paths are resolved against */
+	baseDir: string;
+	/**
+	 * Loads another stored configuration, unexpanded, for `${config:...}`
+	 * @returns The configuration, or null if it does not exist
+	 */
+	loadConfig: (name: string) => Record<string, unknown> | null;
+}
+
+/**
+ * Checks whether a value contains placeholders that would be expanded
+ * @param value - Value to check
+ * @returns True if the value is a string holding at least one unescaped placeholder
+ */
+export function hasPlaceholders(value: unknown): boolean {
+	if (typeof value !== "string") {
+		return false;
+	}
+	return [...value.matchAll(PLACEHOLDER_PATTERN)].some(([, escaped]) => !escaped);
+}
+
+/**
+ * Lists the configurations referenced by `${config:...}` placeholders
+ * @param value - Value to search, including nested objects and arrays
+ * @returns Referenced configuration names, without duplicates
+ */
+export function listConfigReferences(value: unknown): string[] {
+	const references = new Set<string>();
+
+	const visit = (current: unknown): void => {
+		if (typeof current === "string") {
+			for (const [, escaped, kind, reference = ""] of current.matchAll(PLACEHOLDER_PATTERN)) {
+				const separatorIndex = reference.indexOf(".");
+				if (!escaped && kind === "config" && separatorIndex > 0) {
+					references.add(reference.slice(0, separatorIndex).trim());
+				}
+			}
+		} else if (Array.isArray(current)) {
+			current.forEach(visit);
+		} else if (isPlainObject(current)) {
+			Object.values(current).forEach(visit);
+		}
+	};
+
+	visit(value);
+	return [...references];
+}
+
+/**
+ * Expands every placeholder in a configuration
+ * Referenced configurations are expanded as well; a chain of references leading back to a
+ * value already being expanded is reported as circular
+ * @param data - Unexpanded configuration
+ * @param configName - Name of the configuration, used for `${config:...}` cycles and errors
+ * @param sources - Where placeholder values are looked up
+ * @returns A new object with every placeholder replaced
+ * @throws ConfigInterpolationError if a placeholder cannot be resolved
+ */
+export function interpolateConfig(
+	data: Record<string, unknown>,
+	configName: string,
+	sources: InterpolationSources,
+): Record<string, unknown> {
+	return new Interpolator(sources).expand(data, configName, "", []) as Record<string, unknown>;
+}
+
+/**
+ * Expands placeholders, caching the configurations it loads
+ */
+class Interpolator {
+	private readonly loadedConfigs = new Map<string, Record<string, unknown> | null>();
+
+	constructor(private readonly sources: InterpolationSources) {}
+
+	/**
+	 * Expands the placeholders in a value and everything nested in it
+	 * @param stack - References currently being expanded, as `config.key` (for cycle detection)
+	 */
+	expand(value: unknown, configName: string, keyPath: string, stack: string[]): unknown {
+		if (typeof value === "string") {
+			return this.expandString(value, configName, keyPath, stack);
+		}
+
+		if (Array.isArray(value)) {
+			return value.map((item, index) =>
+				this.expand(item, configName, keyPath ? `${keyPath}.${index}` : String(index), stack),
+			);
+		}
+
+		if (isPlainObject(value)) {
+			return Object.fromEntries(
+				Object.entries(value).map(([key, child]) => [
+					key,
+					this.expand(child, configName, keyPath ? `${keyPath}.${key}` : key, stack),
+				]),
+			);
+		}
+
+		return value;
+	}
+
+	/**
+	 * Expands the placeholders in a string
+	 * A string consisting of a single `${config:...}` placeholder takes the referenced value
+	 * as-is, so numbers, booleans and objects keep their type
+	 */
+	private expandString(
+		value: string,
+		configName: string,
+		keyPath: string,
+		stack: string[],
+	): unknown {
+		const matches = [...value.matchAll(PLACEHOLDER_PATTERN)];
+		const [onlyMatch] = matches;
+
+		if (matches.length === 1 && onlyMatch && onlyMatch[0] === value && !onlyMatch[1]) {
+			return this.resolvePlaceholder(onlyMatch, configName, keyPath, stack);
+		}
+
+		let expanded = "";
+		let lastIndex = 0;
+
+		for (const match of matches) {
+			const [placeholder, escaped] = match;
+			expanded += value.slice(lastIndex, match.index);
+			if (escaped) {
+				expanded += placeholder.slice(1);
+			} else {
+				const resolved = this.resolvePlaceholder(match, configName, keyPath, stack);
+				expanded += typeof resolved === "string" ? resolved : JSON.stringify(resolved);
+			}
+			lastIndex = match.index + placeholder.length;
+		}
+
+		return expanded + value.slice(lastIndex);
+	}
+
+	/**
+	 * Looks up the value of a single placeholder
+	 */
+	private resolvePlaceholder(
+		match: RegExpMatchArray,
+		configName: string,
+		keyPath: string,
+		stack: string[],
+	): unknown {
+		const [placeholder, , kind = "", reference = ""] = match;
+		const fail = (message: string) =>
+			new ConfigInterpolationError(configName, keyPath, `${placeholder} ${message}`);
+		const target = reference.trim();
+
+		if (!target) {
+			throw fail("is missing a reference");
+		}
+
+		switch (kind) {
+			case "env": {
+				const envValue = (this.sources.env ?? process.env)[target];
+				if (envValue === undefined) {
+					throw fail(`refers to environment variable ${target}, which is not set`);
+				}
+				return envValue;
+			}
+
+			case "file": {
+				try {
+					return readFileSync(this.resolveFilePath(target), "utf-8").replace(/\r?\n$/, "");
+				} catch (error) {
+					const errorMessage = error instanceof Error ? error.message : String(error);
+					throw fail(`could not be read: ${errorMessage}`);
+				}
+			}
+
+			case "config":
+				return this.resolveConfigReference(target, configName, keyPath, stack, fail);
+
+			default:
+				throw fail(`uses unknown source '${kind}' (expected env, file or config)`);
+		}
+	}
+
+	/**
+	 * Resolves `${config:name.key}`, expanding the referenced value in turn
+	 */
+	private resolveConfigReference(
+		reference: string,
+		configName: string,
+		keyPath: string,
+		stack: string[],
+		fail: (message: string) => ConfigInterpolationError,
+	): unknown {
+		const separatorIndex = reference.indexOf(".");
+
+		if (separatorIndex <= 0 || separatorIndex === reference.length - 1) {
+			throw fail("must name a configuration and a key (name.key)");
+		}
+
+		const referencedName = reference.slice(0, separatorIndex);
+		const referencedPath = reference.slice(separatorIndex + 1);
+		const referenceKey = `${toConfigSlug(referencedName)}.${referencedPath}`;
+		const chain = stack.length > 0 ? stack : [`${toConfigSlug(configName)}.${keyPath}`];
+
+		if (chain.includes(referenceKey)) {
+			throw fail(`is circular: ${[...chain, referenceKey].join(" -> ")}`);
+		}
+
+		const referencedConfig = this.loadReferencedConfig(referencedName, fail);
+		const referencedValue = getValueAtPath(referencedConfig, referencedPath);
+
+		if (referencedValue === undefined) {
+			throw fail(`refers to '${referencedPath}', which is not set in '${referencedName}'`);
+		}
+
+		return this.expand(referencedValue, referencedName, referencedPath, [...chain, referenceKey]);
+	}
+
+	private loadReferencedConfig(
+		name: string,
+		fail: (message: string) => ConfigInterpolationError,
+	): Record<string, unknown> {
+		const key = toConfigSlug(name);
+
+		if (!this.loadedConfigs.has(key)) {
+			try {
+				this.loadedConfigs.set(key, this.sources.loadConfig(name));
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				throw fail(`refers to configuration '${name}', which cannot be read: ${errorMessage}`);
+			}
+		}
+
+		const loaded = this.loadedConfigs.get(key);
+		if (!loaded) {
+			throw fail(`refers to configuration '${name}', which does not exist`);
+		}
+		return loaded;
+	}
+
+	/**
+	 * Resolves a `${file:...}` path: `~/` is the home directory, relative paths are resolved
+	 * against the base directory
+	 */
+	private resolveFilePath(path: string): string {
+		if (path === "~" || path.startsWith("~/")) {
+			return join(homedir(), path.slice(1));
+		}
+		return isAbsolute(path) ? path : resolve(this.sources.baseDir, path);
+	}
+}
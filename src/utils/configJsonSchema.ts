@@ -0,0 +1,120 @@
+import { z } from "zod";
+import { SCHEMA_VERSION_KEY } from "./configMigrations";
+import { isPlainObject, splitKeyPath } from "./keyPath";
+import { ENCRYPTED_PREFIX } from "./secrets";
+
+/** Key of stored files pointing editors at the JSON Schema describing them */
+export const JSON_SCHEMA_KEY = "$schema";
+
+/**
+ * Name of the JSON Schema file kept in the configuration directory
+ * A dotfile, so it can never take the name of a configuration
+ */
+export const JSON_SCHEMA_FILE_NAME = ".schema.json";
+
+/** Name earlier versions gave the JSON Schema file, which a configuration named `schema` uses */
+export const LEGACY_JSON_SCHEMA_FILE_NAME = "schema.json";
+
+/**
+ * Checks whether the contents of a file are a JSON Schema rather than a configuration
+ * @param content - File contents
+ * @returns True if the file declares a json-schema.org dialect
+ */
+export function isJsonSchemaDocument(content: string): boolean {
+	try {
+		const parsed: unknown = JSON.parse(content);
+		return (
+			isPlainObject(parsed) &&
+			typeof parsed[JSON_SCHEMA_KEY] === "string" &&
+			/^https?:\/\/json-schema\.org\//.test(parsed[JSON_SCHEMA_KEY])
+		);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Options for converting a configuration schema to JSON Schema
+ */
+export interface ConfigJsonSchemaOptions {
+	/** Title shown by editors */
+	title?: string;
+	/** Dotted paths of secret fields, which are stored encrypted */
+	secretPaths?: readonly string[];
+}
+
+/**
+ * Finds the JSON Schema describing a property by its dotted path
+ */
+function getPropertySchema(
+	jsonSchema: Record<string, unknown>,
+	path: string,
+): { parent: Record<string, unknown>; key: string } | null {
+	let current = jsonSchema;
+	const segments = splitKeyPath(path);
+
+	for (const [index, segment] of segments.entries()) {
+		const properties = current.properties;
+		if (!isPlainObject(properties) || !(segment in properties)) {
+			return null;
+		}
+		if (index === segments.length - 1) {
+			return { parent: properties, key: segment };
+		}
+		const next = properties[segment];
+		if (!isPlainObject(next)) {
+			return null;
+		}
+		current = next;
+	}
+
+	return null;
+}
+
+/**
+ * Converts a configuration schema to a JSON Schema describing stored configuration files
+ * Besides the schema's own fields, the file may hold the `$schema` reference and the schema
+ * version stamp, and secret fields may hold their encrypted form. Values are described as
+ * they are written (defaults are optional); refinements JSON Schema cannot express are left
+ * to the manager's validation
+ * @param schema - Configuration schema
+ * @param options - Title and secret fields
+ * @returns A draft-07 JSON Schema
+ */
+export function toConfigJsonSchema(
+	schema: z.ZodType,
+	options: ConfigJsonSchemaOptions = {},
+): Record<string, unknown> {
+	const jsonSchema = z.toJSONSchema(schema, {
+		io: "input",
+		target: "draft-7",
+		unrepresentable: "any",
+	}) as Record<string, unknown>;
+
+	for (const path of options.secretPaths ?? []) {
+		const property = getPropertySchema(jsonSchema, path);
+		if (property) {
+			property.parent[property.key] = {
+				anyOf: [
+					property.parent[property.key],
+					{ type: "string", pattern: `^${ENCRYPTED_PREFIX}`, description: "Encrypted value" },
+				],
+			};
+		}
+	}
+
+	const properties = isPlainObject(jsonSchema.properties) ? jsonSchema.properties : {};
+	return {
+		...jsonSchema,
+		...(options.title && { title: options.title }),
+		properties: {
+			[JSON_SCHEMA_KEY]: { type: "string", description: "JSON Schema of this file" },
+			[SCHEMA_VERSION_KEY]: {
+				type: "integer",
+				minimum: 1,
+				description: "Schema version the file was written with, used to migrate it",
+			},
+			...properties,
+		},
+	};
+}
@@ -1,27 +1,111 @@
+import { EventEmitter } from "node:events";
 import {
+	chmodSync,
+	copyFileSync,
 	existsSync,
 	mkdirSync,
 	readdirSync,
 	readFileSync,
+	renameSync,
+	rmSync,
+	statSync,
 	unlinkSync,
-	writeFileSync,
 } from "node:fs";
-import { homedir } from "node:os";
-import { join } from "node:path";
+import { access, readdir, readFile, stat } from "node:fs/promises";
+import { basename, join, resolve } from "node:path";
+import { isDeepStrictEqual } from "node:util";
 import { z } from "zod";
+import { withFileLock, withFileLockAsync, writeFileAtomic } from "./atomicFile";
 import config from "./config";
+import {
+	type ConfigRevision,
+	type ConfigRevisionAction,
+	DEFAULT_HISTORY_LIMIT,
+	listRevisions,
+	readRevisions,
+	recordRevision,
+	writeRevision,
+} from "./configHistory";
+import { hasPlaceholders, interpolateConfig, listConfigReferences } from "./configInterpolation";
+import {
+	isJsonSchemaDocument,
+	JSON_SCHEMA_FILE_NAME,
+	JSON_SCHEMA_KEY,
+	LEGACY_JSON_SCHEMA_FILE_NAME,
+	toConfigJsonSchema,
+} from "./configJsonSchema";
+import {
+	assertValidMigrationChain,
+	type ConfigMigration,
+	getSchemaVersion,
+	INITIAL_SCHEMA_VERSION,
+	migrateConfigData,
+	SCHEMA_VERSION_KEY,
+} from "./configMigrations";
+import {
+	getConfigNameProblem,
+	isConfigSlug,
+	MAX_CONFIG_NAME_LENGTH,
+	toConfigSlug,
+} from "./configNames";
+import { getDefaultConfigLocation, migrateLegacyConfigDir } from "./configPaths";
+import { type ConfigPin, findConfigPin, findConfigPinAsync } from "./configPin";
+import { ConfigDirectoryWatcher } from "./configWatcher";
+import {
+	ConfigConflictError,
+	ConfigError,
+	ConfigInheritanceError,
+	type ConfigIssue,
+	ConfigSecretError,
+	ConfigValidationError,
+	InvalidConfigNameError,
+} from "./errors";
+import { deepMerge, flattenObject, getValueAtPath, isPlainObject, setValueAtPath } from "./keyPath";
 import { Logger } from "./Logger";
+import {
+	getSecretKeySourceFromEnv,
+	getSecretPaths,
+	hasValuesAtPaths,
+	maskPaths,
+	SecretCipher,
+	type SecretKeySource,
+} from "./secrets";
 
 /**
  * Zod schema for base configuration validation
- * Extend this schema when adding custom properties to your config
+ * Extend this schema when adding custom properties to your config and pass it to
+ * `createConfigManager` so every read and write is validated against it
  */
 export const AppConfigSchema = z.object({
-	name: z.string().min(1, "Configuration name is required").max(50, "Name too long"),
-	description: z.string().optional(),
+	name: z
+		.string()
+		.min(1, "Configuration name is required")
+		.max(MAX_CONFIG_NAME_LENGTH, "Name too long")
+		.superRefine((name, ctx) => {
+			const problem = getConfigNameProblem(name);
+			// Length problems are already reported by min/max
+			if (problem && name.length > 0 && name.length <= MAX_CONFIG_NAME_LENGTH) {
+				ctx.addIssue({ code: "custom", message: problem });
+			}
+		})
+		.describe("Configuration name"),
+	description: z.string().describe("What the configuration is for").optional(),
+	/** Free-form labels used to find configurations, e.g. with `config list --tag` */
+	tags: z
+		.array(z.string().min(1, "Tags cannot be empty"))
+		.describe("Labels to find the configuration by")
+		.optional(),
+	/** Configuration whose values this one inherits, overriding them where it sets its own */
+	extends: z
+		.string()
+		.refine((parent) => getConfigNameProblem(parent) === null, "Not a valid configuration name")
+		.describe("Configuration whose values this one inherits")
+		.optional(),
 	// TEMPLATE: Add your custom config property validations here
+	// `config create` prompts for them and the config commands display them, labelled with
+	// their `.meta({ title })` or their key
 	// Example:
-	// apiUrl: z.string().url().optional(),
+	// apiUrl: z.string().url().meta({ title: "API URL" }).optional(),
 	// apiKey: z.string().min(1).optional(),
 	// timeout: z.number().positive().optional(),
 });
@@ -31,146 +115,1695 @@ export const AppConfigSchema = z.object({
  * Add your custom properties when implementing your CLI
  * @property {string} name - Unique configuration name (required)
  * @property {string} [description] - Optional description of the configuration
+ * @property {string[]} [tags] - Optional labels to find the configuration by
  */
 export type AppConfig = z.infer<typeof AppConfigSchema>;
 
+/**
+ * Any Zod schema whose parsed output is a valid base configuration
+ */
+export type ConfigSchema = z.ZodType<AppConfig>;
+
+/**
+ * Options for creating a configuration manager
+ * @template S - Schema used to validate configurations
+ */
+export interface ConfigManagerOptions<S extends ConfigSchema = typeof AppConfigSchema> {
+	/** Schema used to validate every configuration read or written (defaults to AppConfigSchema) */
+	schema?: S;
+	/** Application name used to derive the default configuration directory */
+	appName?: string;
+	/**
+	 * Directory where configurations are stored (defaults to `<PREFIX>_HOME/configs`, then
+	 * `$XDG_CONFIG_HOME/<app-name>/configs` on Linux and `~/.<app-name>/configs` elsewhere)
+	 * The directory is located and created on first use, not when the manager is created
+	 */
+	configDir?: string;
+	/** Current schema version stamped into saved files (defaults to 1) */
+	schemaVersion?: number;
+	/** Ordered upgrade steps applied to files stamped with an older schema version */
+	migrations?: ConfigMigration[];
+	/**
+	 * Key used to encrypt fields marked with `secret()` (defaults to the
+	 * DEMO_CLI_SECRET_PASSPHRASE / DEMO_CLI_SECRET_KEY_FILE environment variables, then to a
+	 * generated key file in the config directory)
+	 */
+	secretKey?: SecretKeySource;
+	/** Number of revisions kept per configuration for `rollbackConfig` (defaults to 10, 0 disables) */
+	historyLimit?: number;
+	/** Quiet period in milliseconds before file changes are reported to listeners (defaults to 100) */
+	watchDebounceMs?: number;
+	/**
+	 * Name of the file pinning a configuration to a directory tree (defaults to the CLI's pin
+	 * file name, null disables pinning)
+	 */
+	pinFileName?: string | null;
+	/** Directory the pin file lookup starts from (defaults to process.cwd()) */
+	cwd?: string;
+}
+
+/**
+ * Events emitted by a configuration manager, with their listener arguments
+ */
+export interface ConfigEventMap {
+	/** A configuration was created or its file changed */
+	change: [name: string];
+	/** Another configuration was activated (`name` is null when none is active anymore) */
+	switch: [name: string | null, previous: string | null];
+	/** A configuration was deleted */
+	delete: [name: string];
+}
+
+/**
+ * Listener for a configuration manager event
+ */
+export type ConfigEventListener<E extends keyof ConfigEventMap> = (
+	...args: ConfigEventMap[E]
+) => void;
+
+/**
+ * Options for `getConfig` and `getCurrentConfigData`
+ */
+export interface GetConfigOptions {
+	/** Return values as stored, without expanding `${env:...}`, `${file:...}` or `${config:...}` */
+	raw?: boolean;
+}
+
+/**
+ * Timestamps the manager keeps for each configuration, as ISO 8601 strings
+ * They are stored next to the configurations rather than in them, so they never show up in
+ * the configuration data, its history or diffs
+ */
+export interface ConfigMetadata {
+	/** When the configuration was created; unknown for configurations created by older versions */
+	createdAt?: string;
+	/** When the configuration was last written; the file's modification time if not recorded */
+	updatedAt?: string;
+	/** When the configuration was last made the active one */
+	lastUsedAt?: string;
+}
+
+/**
+ * What selected the active configuration, from highest to lowest precedence: the `--config`
+ * override, the nearest pin file, or the global pointer in `current.json`
+ */
+export type CurrentConfigSource = "override" | "pin" | "pointer";
+
+/**
+ * The active configuration and what selected it
+ */
+export interface CurrentConfigInfo {
+	/** Slug of the active configuration (or the name as given if it is not a valid name) */
+	name: string;
+	/** What selected it */
+	source: CurrentConfigSource;
+	/** Pin file that selected it, when `source` is "pin" */
+	pinFile?: string;
+}
+
+/**
+ * Options for `saveConfig`
+ */
+export interface SaveConfigOptions {
+	/**
+	 * The configuration as read before it was changed (`getConfig` with `raw`); the save fails
+	 * with a ConfigConflictError if the stored configuration no longer matches it
+	 */
+	expected?: AppConfig;
+}
+
+/**
+ * Options for `deleteConfig`
+ */
+export interface DeleteConfigOptions {
+	/**
+	 * Delete a configuration other configurations extend; they keep their effective values by
+	 * absorbing the deleted configuration's values and extending its parent instead
+	 */
+	force?: boolean;
+}
+
+/**
+ * Options for `migrateConfigs`
+ */
+export interface MigrateConfigsOptions {
+	/** Report what would change without writing anything */
+	dryRun?: boolean;
+}
+
+/**
+ * Outcome of migrating one stored configuration
+ */
+export interface ConfigMigrationResult {
+	/** Configuration name */
+	name: string;
+	/** Schema version found in the stored file */
+	fromVersion: number;
+	/** Schema version after migration */
+	toVersion: number;
+	/** What happened (or, in a dry run, what would happen) */
+	status: "up-to-date" | "migrated" | "would-migrate" | "failed";
+	/** Where the pre-migration file was copied to */
+	backupPath?: string;
+	/** Why the migration failed */
+	error?: string;
+}
+
+/**
+ * Kind of problem found by `checkConfigDirectory`
+ */
+export type ConfigProblemCode =
+	| "unreadable-file"
+	| "invalid-config"
+	| "name-mismatch"
+	| "invalid-file-name"
+	| "broken-extends"
+	| "migration-failed"
+	| "decryption-failed"
+	| "invalid-current"
+	| "dangling-current"
+	| "stale-pin"
+	| "bad-permissions"
+	| "leftover-temp-file"
+	| "unexpected-file";
+
+/**
+ * A problem found in the configuration directory
+ */
+export interface ConfigDiagnostic {
+	/**
+	 * File the problem was found in, relative to the configuration directory (absolute for
+	 * pin files, which live outside it)
+	 */
+	file: string;
+	code: ConfigProblemCode;
+	/** Errors break commands; warnings are worth fixing but harmless */
+	severity: "error" | "warning";
+	/** Human readable description of the problem */
+	message: string;
+	/** Field-level details for schema violations */
+	issues?: ConfigIssue[];
+	/** What was done to repair the problem, when fixing was requested and possible */
+	fix?: string;
+}
+
+/**
+ * Options for `checkConfigDirectory`
+ */
+export interface CheckConfigDirectoryOptions {
+	/** Repair what can be repaired and quarantine files that cannot */
+	fix?: boolean;
+}
+
 /**
  * Configuration manager interface for handling CLI configurations
  * @template T - Configuration type that extends AppConfig
  */
 export interface ConfigManager<T extends AppConfig = AppConfig> {
 	/**
-	 * Lists all available configuration names
-	 * @returns Array of configuration names
+	 * Lists all available configurations by the slug they are stored under
+	 * Any name mapping to a slug (see `toConfigSlug`) can be passed to the other methods
+	 * @returns Array of configuration slugs
 	 */
 	listConfigs(): string[];
 
 	/**
 	 * Retrieves a configuration by name
+	 * Placeholders in string values are expanded (see `configInterpolation.ts`) unless
+	 * `raw` is set; a placeholder that cannot be resolved is logged and null is returned
 	 * @param name - Configuration name
+	 * @param options - Read options
 	 * @returns Configuration object or null if not found
 	 */
-	getConfig(name: string): T | null;
+	getConfig(name: string, options?: GetConfigOptions): T | null;
+
+	/**
+	 * Retrieves a configuration and the chain of configurations it extends, as stored
+	 * Placeholders are left unexpanded and secrets are decrypted
+	 * @param name - Configuration name
+	 * @returns The configurations from the farthest parent to the named one, or null if it is
+	 * not found or the chain cannot be read
+	 */
+	getConfigChain(name: string): T[] | null;
 
 	/**
 	 * Saves a configuration
 	 * @param config - Configuration object to save
+	 * @param options - Save options
 	 * @returns True if saved successfully
 	 */
-	saveConfig(config: T): boolean;
+	saveConfig(config: T, options?: SaveConfigOptions): boolean;
+
+	/**
+	 * Deletes a configuration by name
+	 * Configurations other configurations extend are only deleted with `force`
+	 * @param name - Configuration name to delete
+	 * @param options - Delete options
+	 * @returns True if deleted successfully
+	 */
+	deleteConfig(name: string, options?: DeleteConfigOptions): boolean;
+
+	/**
+	 * Lists the configurations that directly extend a configuration
+	 * @param name - Configuration name
+	 * @returns Slugs of the configurations whose `extends` names it
+	 */
+	listDependentConfigs(name: string): string[];
+
+	/**
+	 * Renames a configuration, rewriting its `name` field, the active pointer and the
+	 * `extends` field of configurations extending it if needed
+	 * @param oldName - Current configuration name
+	 * @param newName - New configuration name (must not exist yet)
+	 * @returns True if renamed successfully
+	 */
+	renameConfig(oldName: string, newName: string): boolean;
+
+	/**
+	 * Copies a configuration under a new name
+	 * @param sourceName - Configuration to copy
+	 * @param targetName - Name of the new configuration (must not exist yet)
+	 * @param overrides - Values deep-merged over the copy before it is validated
+	 * @returns True if copied successfully
+	 */
+	copyConfig(sourceName: string, targetName: string, overrides?: Record<string, unknown>): boolean;
+
+	/**
+	 * Gets the name of the currently active configuration
+	 * A name set with `setConfigOverride()` takes precedence over the nearest pin file, which
+	 * takes precedence over the persisted one
+	 * @returns Slug of the current configuration or null if none is active
+	 */
+	getCurrentConfig(): string | null;
+
+	/**
+	 * Gets the currently active configuration along with what selected it
+	 * @returns The active configuration, or null if none is active
+	 */
+	getCurrentConfigInfo(): CurrentConfigInfo | null;
+
+	/**
+	 * Gets the data of the currently active configuration
+	 * @param options - Read options, as for `getConfig`
+	 * @returns Current configuration object or null if none is active
+	 */
+	getCurrentConfigData(options?: GetConfigOptions): T | null;
+
+	/**
+	 * Sets a configuration as the currently active one
+	 * @param name - Configuration name to set as current
+	 * @returns True if set successfully
+	 */
+	setCurrentConfig(name: string): boolean;
+
+	/**
+	 * Pins a configuration to a directory tree by writing a pin file holding its slug
+	 * Inside that directory and below, it is active instead of the one in `current.json`
+	 * @param name - Configuration to pin
+	 * @param dir - Directory to write the pin file to (defaults to the working directory)
+	 * @returns Path of the pin file
+	 * @throws ConfigError if the configuration does not exist or pinning is disabled
+	 */
+	pinConfig(name: string, dir?: string): string;
+
+	/**
+	 * Removes the pin file that applies to a directory: the nearest one found walking up
+	 * @param dir - Directory to start from (defaults to the working directory)
+	 * @returns Path of the removed pin file, or null if no pin applies
+	 */
+	unpinConfig(dir?: string): string | null;
+
+	/**
+	 * Overrides the active configuration for this process only, without touching `current.json`
+	 * @param name - Configuration to treat as active, or null to use the persisted one again
+	 */
+	setConfigOverride(name: string | null): void;
+
+	/**
+	 * Gets the configuration set with `setConfigOverride()`
+	 * @returns Overriding configuration name or null if none is set
+	 */
+	getConfigOverride(): string | null;
+
+	/**
+	 * Gets the configuration directory path, creating the directory if needed
+	 * @returns Absolute path to configuration directory
+	 */
+	getConfigDir(): string;
+
+	/**
+	 * Moves this manager to another configuration directory, created on first use
+	 * Used for the global `--config-dir` option; listeners keep listening, to the new directory
+	 * @param configDir - Directory where configurations are stored
+	 */
+	setConfigDir(configDir: string): void;
+
+	/**
+	 * Checks if a configuration exists
+	 * @param name - Configuration name to check
+	 * @returns True if configuration exists
+	 */
+	configExists(name: string): boolean;
+
+	/**
+	 * Gets the timestamps kept for a configuration
+	 * They are maintained by the methods that write configurations and by `setCurrentConfig`
+	 * @param name - Configuration name
+	 * @returns The configuration's timestamps, or null if it does not exist
+	 */
+	getConfigMetadata(name: string): ConfigMetadata | null;
+
+	/**
+	 * Gets the schema configurations are validated against
+	 * @returns The Zod schema
+	 */
+	getSchema(): z.ZodType<T>;
+
+	/**
+	 * Converts the schema to JSON Schema describing the stored configuration files
+	 * Saved files reference a copy kept in the configuration directory (`schema.json`) through
+	 * their `$schema` key, so editors validate and autocomplete them
+	 * @returns A draft-07 JSON Schema
+	 */
+	getJsonSchema(): Record<string, unknown>;
+
+	/**
+	 * Validates configuration data against the schema
+	 * String values holding placeholders are validated once expanded, so problems reported
+	 * for them are ignored; data with such problems is returned unparsed.
+	 * Data with an `extends` field is validated merged over the configurations it extends, since
+	 * on its own it may lack required fields; only the values it sets itself are returned
+	 * @param data - Data to validate
+	 * @param name - Configuration name used in error messages
+	 * @returns The schema's parsed output, with defaults and transforms applied
+	 * @throws ConfigValidationError describing every field that failed
+	 */
+	validateConfig(data: unknown, name?: string): T;
+
+	/**
+	 * Upgrades every stored configuration to the current schema version
+	 * The original file of each migrated configuration is kept as a backup
+	 * @param options - Migration options
+	 * @returns One result per stored configuration
+	 */
+	migrateConfigs(options?: MigrateConfigsOptions): ConfigMigrationResult[];
+
+	/**
+	 * Lists the dotted paths of fields marked as secret in the schema
+	 * @returns Secret field paths
+	 */
+	getSecretPaths(): string[];
+
+	/**
+	 * Returns a copy of a configuration with every secret field masked, for display
+	 * @param config - Configuration to mask
+	 * @returns Masked copy
+	 */
+	maskSecrets(config: T): T;
+
+	/**
+	 * Re-encrypts the secret fields of every stored configuration with a new key
+	 * @param newKey - New key source; when omitted a new random default key file is generated
+	 * @returns Number of configurations that were re-encrypted
+	 * @throws ConfigSecretError if an existing secret cannot be decrypted (nothing is written)
+	 */
+	rekeySecrets(newKey?: SecretKeySource): number;
+
+	/**
+	 * Lists the recorded revisions of a configuration, including one that was deleted
+	 * Revision data is upgraded to the current schema version and has its secrets decrypted
+	 * @param name - Configuration name
+	 * @returns Revisions, newest first
+	 */
+	getConfigHistory(name: string): ConfigRevision[];
+
+	/**
+	 * Restores a configuration from its history
+	 * @param name - Configuration name
+	 * @param revision - Revision to restore (defaults to the one before the current state)
+	 * @returns The revision that was restored
+	 * @throws ConfigError if there is no such revision or it holds no data
+	 * @throws ConfigValidationError if the revision no longer matches the schema
+	 */
+	rollbackConfig(name: string, revision?: number): ConfigRevision;
+
+	/**
+	 * Scans the configuration directory for unreadable or invalid files, `name` fields that
+	 * do not match the file name, a dangling active pointer, loose permissions and stray files
+	 * With `fix`, repairable problems are repaired and broken files are moved to `quarantine/`
+	 * @param options - Whether to repair the problems found
+	 * @returns Every problem found, with the repair applied to it
+	 */
+	checkConfigDirectory(options?: CheckConfigDirectoryOptions): ConfigDiagnostic[];
+
+	/**
+	 * Subscribes to changes made to the configuration directory, by this or any other process
+	 * The directory is watched with `fs.watch` while at least one listener is subscribed;
+	 * events are reported once the directory has been quiet for `watchDebounceMs`
+	 * @param event - Event to listen to
+	 * @param listener - Called with the configuration slug(s) concerned
+	 * @returns The manager, for chaining
+	 */
+	on<E extends keyof ConfigEventMap>(event: E, listener: ConfigEventListener<E>): this;
+
+	/**
+	 * Removes a listener added with `on`; watching stops with the last listener
+	 * @param event - Event the listener was added to
+	 * @param listener - Listener to remove
+	 * @returns The manager, for chaining
+	 */
+	off<E extends keyof ConfigEventMap>(event: E, listener: ConfigEventListener<E>): this;
+
+	/**
+	 * Calls `listener` whenever the active configuration's data changes: another configuration
+	 * is activated, or the active one (or one it extends or references) is edited or deleted
+	 * Intended for long-running processes that hot-reload their configuration
+	 * @param listener - Receives the new data (null if nothing is active or it cannot be
+	 *   loaded) and the slug of the active configuration
+	 * @returns Function that unsubscribes
+	 */
+	watchActiveConfig(listener: (config: T | null, name: string | null) => void): () => void;
+
+	/**
+	 * Removes every listener and stops watching the configuration directory
+	 */
+	close(): void;
+
+	/**
+	 * Promise-based variant of the methods that read or write the configuration directory
+	 */
+	readonly promises: AsyncConfigManager<T>;
+}
+
+/**
+ * Promise-based configuration manager, available as `manager.promises`
+ * Files are read with `fs/promises`, in parallel where several are needed. Changes, and reads
+ * that upgrade an outdated file, wait for the directory lock without blocking the event loop;
+ * once they hold it they write synchronously, so the event loop only waits for the writes
+ * themselves. Methods behave as their synchronous counterparts on `ConfigManager`
+ * @template T - Configuration type that extends AppConfig
+ */
+export interface AsyncConfigManager<T extends AppConfig = AppConfig> {
+	listConfigs(): Promise<string[]>;
+
+	getConfig(name: string, options?: GetConfigOptions): Promise<T | null>;
+
+	/**
+	 * Loads every configuration, reading their files in parallel
+	 * @param options - Read options, as for `getConfig`
+	 * @returns Configurations by slug, null for those that cannot be loaded
+	 */
+	getConfigs(options?: GetConfigOptions): Promise<Map<string, T | null>>;
+
+	getConfigChain(name: string): Promise<T[] | null>;
+
+	saveConfig(config: T, options?: SaveConfigOptions): Promise<boolean>;
+
+	deleteConfig(name: string, options?: DeleteConfigOptions): Promise<boolean>;
+
+	listDependentConfigs(name: string): Promise<string[]>;
+
+	renameConfig(oldName: string, newName: string): Promise<boolean>;
+
+	copyConfig(
+		sourceName: string,
+		targetName: string,
+		overrides?: Record<string, unknown>,
+	): Promise<boolean>;
+
+	getCurrentConfig(): Promise<string | null>;
+
+	getCurrentConfigInfo(): Promise<CurrentConfigInfo | null>;
+
+	pinConfig(name: string, dir?: string): Promise<string>;
+
+	unpinConfig(dir?: string): Promise<string | null>;
+
+	getCurrentConfigData(options?: GetConfigOptions): Promise<T | null>;
+
+	setCurrentConfig(name: string): Promise<boolean>;
+
+	configExists(name: string): Promise<boolean>;
+
+	getConfigMetadata(name: string): Promise<ConfigMetadata | null>;
+
+	validateConfig(data: unknown, name?: string): Promise<T>;
+
+	migrateConfigs(options?: MigrateConfigsOptions): Promise<ConfigMigrationResult[]>;
+
+	rekeySecrets(newKey?: SecretKeySource): Promise<number>;
+
+	getConfigHistory(name: string): Promise<ConfigRevision[]>;
+
+	rollbackConfig(name: string, revision?: number): Promise<ConfigRevision>;
+
+	checkConfigDirectory(options?: CheckConfigDirectoryOptions): Promise<ConfigDiagnostic[]>;
+}
+
+/**
+ * Fully resolved options used to construct a FileConfigManager
+ */
+interface FileConfigManagerOptions<T extends AppConfig> {
+	schema: z.ZodType<T>;
+	appName?: string | undefined;
+	configDir?: string | undefined;
+	schemaVersion: number;
+	migrations: ConfigMigration[];
+	secretKey?: SecretKeySource | undefined;
+	historyLimit: number;
+	watchDebounceMs: number;
+	pinFileName: string | null;
+	cwd?: string | undefined;
+}
+
+const DEFAULT_WATCH_DEBOUNCE_MS = 100;
+
+/** Events a configuration manager emits */
+const CONFIG_EVENTS: (keyof ConfigEventMap)[] = ["change", "switch", "delete"];
+
+/** Configurations may hold credentials, so only the owner can read them */
+const FILE_MODE = 0o600;
+const DIR_MODE = 0o700;
+
+/** Entries of the configuration directory that are not configuration files */
+const RESERVED_ENTRIES = new Set([
+	"current.json",
+	".metadata.json",
+	JSON_SCHEMA_FILE_NAME,
+	"backups",
+	"history",
+	"quarantine",
+	"templates",
+	".lock",
+	".secret.key",
+]);
+
+/**
+ * Shape of `.metadata.json`: the timestamps of each configuration, keyed by slug
+ */
+const ConfigMetadataFileSchema = z.record(
+	z.string(),
+	z.object({
+		createdAt: z.string().optional(),
+		updatedAt: z.string().optional(),
+		lastUsedAt: z.string().optional(),
+	}),
+);
+
+type ConfigMetadataEntries = Record<string, ConfigMetadata>;
+
+/**
+ * Records a problem found by `checkConfigDirectory`; `repair` runs only when fixing and
+ * returns a description of what it did
+ */
+type ReportProblem = (diagnostic: ConfigDiagnostic, repair?: () => string) => void;
+
+/**
+ * Reads the input value a validation issue refers to
+ */
+function getValueAtIssuePath(data: unknown, path: PropertyKey[]): unknown {
+	let current = data;
+	for (const segment of path) {
+		if (typeof current !== "object" || current === null) {
+			return undefined;
+		}
+		current = (current as Record<PropertyKey, unknown>)[segment];
+	}
+	return current;
+}
+
+/**
+ * Picks the configuration files out of the configuration directory's entries
+ * Files whose name is not a valid slug are reported by `checkConfigDirectory`
+ * @returns Slugs of the stored configurations
+ */
+function getConfigSlugs(entries: string[]): string[] {
+	return entries
+		.filter((file) => file.endsWith(".json"))
+		.map((file) => file.slice(0, -".json".length))
+		.filter(isConfigSlug);
+}
+
+/**
+ * Parses `current.json`
+ * @returns The active configuration name, or null if none is set
+ * @throws Error if the content is not valid JSON
+ */
+function parseCurrentPointer(content: string): string | null {
+	const current = JSON.parse(content);
+	if (typeof current.name !== "string" || !current.name) {
+		return null;
+	}
+	// Pointers written before names were slugged may hold a display name
+	return toConfigReference(current.name);
+}
+
+/**
+ * Gets the slug of a configuration named in a pointer or pin file
+ * Invalid names are kept as given so commands can report them
+ */
+function toConfigReference(name: string): string {
+	return getConfigNameProblem(name) === null ? toConfigSlug(name) : name;
+}
+
+/**
+ * Parses `.metadata.json`
+ * A damaged file only loses timestamps, so it is read as holding none
+ */
+function parseMetadataFile(content: string | null): ConfigMetadataEntries {
+	if (content === null) {
+		return {};
+	}
+	try {
+		return ConfigMetadataFileSchema.parse(JSON.parse(content)) as ConfigMetadataEntries;
+	} catch (error) {
+		Logger.debug("Ignoring unreadable configuration metadata:", error);
+		return {};
+	}
+}
+
+/**
+ * Combines the recorded timestamps of a configuration with its file's modification time
+ */
+function toConfigMetadata(entry: ConfigMetadata | undefined, modifiedAt: Date): ConfigMetadata {
+	return { ...entry, updatedAt: entry?.updatedAt ?? modifiedAt.toISOString() };
+}
+
+/**
+ * Creates a rejection handler that logs a failure and resolves to false (or the given result),
+ * as the synchronous methods do when they fail
+ */
+function reportFailure(context: string): (error: unknown) => false;
+function reportFailure<R>(context: string, result: R): (error: unknown) => R;
+function reportFailure(context: string, result: unknown = false): (error: unknown) => unknown {
+	return (error) => {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		Logger.error(`${context}:`, errorMessage);
+		return result;
+	};
+}
+
+class FileConfigManager<T extends AppConfig = AppConfig> implements ConfigManager<T> {
+	/** Directory given in the options or with `setConfigDir`; the default one when unset */
+	private configDirOption: string | undefined;
+	/** Directory in use, located and created on first use (see `configDir`) */
+	private resolvedConfigDir: string | null = null;
+	private readonly historyLimit: number;
+	/** Whether `schema.json` was brought up to date since the directory was set */
+	private jsonSchemaFileChecked = false;
+	private readonly appName: string;
+	private readonly schema: z.ZodType<T>;
+	private readonly schemaVersion: number;
+	private readonly migrations: ConfigMigration[];
+	private readonly secretPaths: string[];
+	private readonly secretKeyOption: SecretKeySource | undefined;
+	/** Key source in use; the key file in the configuration directory when null */
+	private secretKey: SecretKeySource | null;
+	private cipher: SecretCipher | null = null;
+	private readonly events = new EventEmitter();
+	private readonly watchDebounceMs: number;
+	private watcher: ConfigDirectoryWatcher | null = null;
+	private configOverride: string | null = null;
+	private readonly pinFileName: string | null;
+	private readonly cwd: string | undefined;
+	/** File contents read ahead by the promise-based API, keyed by path */
+	private prefetched: Map<string, string> | null = null;
+	readonly promises: AsyncConfigManager<T> = this.createPromisesApi();
+
+	constructor(options: FileConfigManagerOptions<T>) {
+		assertValidMigrationChain(options.migrations, options.schemaVersion);
+		this.schema = options.schema;
+		this.schemaVersion = options.schemaVersion;
+		this.migrations = options.migrations;
+		this.appName = options.appName || config.appName;
+		this.historyLimit = options.historyLimit;
+		this.watchDebounceMs = options.watchDebounceMs;
+		this.pinFileName = options.pinFileName;
+		this.cwd = options.cwd;
+		this.secretPaths = getSecretPaths(this.schema);
+		this.secretKeyOption = options.secretKey;
+		this.secretKey = options.secretKey ?? null;
+		// Nothing is created yet: `--config-dir` may still point the manager elsewhere
+		this.configDirOption = options.configDir || undefined;
+	}
+
+	/**
+	 * Gets the default configuration directory, moving the configurations of earlier
+	 * versions there the first time it is used
+	 * If they cannot be moved, the legacy directory keeps being used
+	 */
+	private getDefaultConfigDir(): string {
+		const { configDir, legacyDir } = getDefaultConfigLocation({
+			appName: this.appName,
+			envPrefix: config.envPrefix,
+		});
+
+		if (!legacyDir) {
+			return configDir;
+		}
+
+		try {
+			migrateLegacyConfigDir(legacyDir, configDir);
+			return configDir;
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			Logger.warn(`Could not move configurations from ${legacyDir} to ${configDir}:`, errorMessage);
+			return legacyDir;
+		}
+	}
+
+	/**
+	 * Points the manager at another configuration directory, which is created on first use
+	 */
+	private useConfigDir(configDir: string): void {
+		this.configDirOption = configDir;
+		this.resolvedConfigDir = null;
+		this.jsonSchemaFileChecked = false;
+		this.secretKey = this.secretKeyOption ?? null;
+		this.cipher = null;
+	}
+
+	/**
+	 * Directory holding the configurations
+	 * The first access locates the default directory (moving legacy configurations there) unless
+	 * one was given, and creates it along with `current.json`
+	 */
+	private get configDir(): string {
+		if (this.resolvedConfigDir === null) {
+			const configDir = resolve(this.configDirOption ?? this.getDefaultConfigDir());
+			this.prepareConfigDir(configDir);
+			this.resolvedConfigDir = configDir;
+		}
+		return this.resolvedConfigDir;
+	}
+
+	private get currentConfigFile(): string {
+		return join(this.configDir, "current.json");
+	}
+
+	private get backupDir(): string {
+		return join(this.configDir, "backups");
+	}
+
+	private get historyDir(): string {
+		return join(this.configDir, "history");
+	}
+
+	private get quarantineDir(): string {
+		return join(this.configDir, "quarantine");
+	}
+
+	private get lockFile(): string {
+		return join(this.configDir, ".lock");
+	}
+
+	private get metadataFile(): string {
+		return join(this.configDir, ".metadata.json");
+	}
+
+	private get jsonSchemaFile(): string {
+		return join(this.configDir, JSON_SCHEMA_FILE_NAME);
+	}
+
+	private get defaultKeyFile(): string {
+		return join(this.configDir, ".secret.key");
+	}
+
+	/**
+	 * Creates a configuration directory and its `current.json` if they do not exist, and
+	 * removes the JSON Schema file of earlier versions
+	 */
+	private prepareConfigDir(configDir: string): void {
+		if (!existsSync(configDir)) {
+			mkdirSync(configDir, { recursive: true, mode: DIR_MODE });
+			Logger.debug(`Config directory created: ${configDir}`);
+		}
+
+		const currentConfigFile = join(configDir, "current.json");
+		if (!existsSync(currentConfigFile)) {
+			writeFileAtomic(currentConfigFile, JSON.stringify({ name: "" }), FILE_MODE);
+			Logger.debug(`Current config file created: ${currentConfigFile}`);
+		}
+
+		// It would be taken for a configuration named `schema`; files referencing it point at
+		// the new one the next time they are written
+		const legacySchemaFile = join(configDir, LEGACY_JSON_SCHEMA_FILE_NAME);
+		try {
+			if (isJsonSchemaDocument(readFileSync(legacySchemaFile, "utf-8"))) {
+				rmSync(legacySchemaFile, { force: true });
+				Logger.debug(`Removed the JSON Schema file of an earlier version: ${legacySchemaFile}`);
+			}
+		} catch {
+			// There is none, or it is a configuration
+		}
+	}
+
+	/**
+	 * Runs a read-modify-write sequence while holding the config directory lock,
+	 * so parallel CLI invocations cannot interleave their changes
+	 */
+	private withLock<R>(fn: () => R): R {
+		// Prefetched files may have changed before the lock was taken
+		return withFileLock(this.lockFile, () => this.withPrefetched(null, fn));
+	}
+
+	/**
+	 * Runs a synchronous read against files prefetched by the promise-based API
+	 * Files that were not prefetched are read from disk as usual
+	 */
+	private withPrefetched<R>(files: Map<string, string> | null, fn: () => R): R {
+		const previous = this.prefetched;
+		this.prefetched = files;
+		try {
+			return fn();
+		} finally {
+			this.prefetched = previous;
+		}
+	}
+
+	private readFileContent(filePath: string): string {
+		return this.prefetched?.get(filePath) ?? readFileSync(filePath, "utf-8");
+	}
+
+	private fileExists(filePath: string): boolean {
+		return this.prefetched?.has(filePath) || existsSync(filePath);
+	}
+
+	/**
+	 * Reads the files of configurations in parallel, along with the files of the configurations
+	 * they extend and, unless `raw`, the ones their placeholders reference
+	 * @param names - Configurations to read
+	 * @param raw - Whether placeholders are left unexpanded
+	 * @returns File contents keyed by path; missing and unreadable files are left out
+	 */
+	private async prefetchConfigs(names: string[], raw: boolean): Promise<Map<string, string>> {
+		const files = new Map<string, string>();
+		const visited = new Set<string>();
+		let pending = names;
+
+		while (pending.length > 0) {
+			const keys = new Set(
+				pending
+					.filter((name) => getConfigNameProblem(name) === null)
+					.map(toConfigSlug)
+					.filter((key) => !visited.has(key)),
+			);
+			pending = [];
+
+			await Promise.all(
+				[...keys].map(async (key) => {
+					visited.add(key);
+					const filePath = join(this.configDir, `${key}.json`);
+					const content = await readFile(filePath, "utf-8").catch(() => null);
+					if (content === null) {
+						return;
+					}
+
+					files.set(filePath, content);
+					try {
+						const parsed: unknown = JSON.parse(content);
+						if (isPlainObject(parsed)) {
+							if (typeof parsed.extends === "string") {
+								pending.push(parsed.extends);
+							}
+							if (!raw) {
+								pending.push(...listConfigReferences(parsed));
+							}
+						}
+					} catch {
+						// Reported when the configuration is read
+					}
+				}),
+			);
+		}
+
+		return files;
+	}
+
+	/**
+	 * Gets the slug a configuration is stored under
+	 * @throws InvalidConfigNameError if the name violates the naming policy
+	 */
+	private getConfigKey(name: string): string {
+		const problem = getConfigNameProblem(name);
+		if (problem) {
+			throw new InvalidConfigNameError(name, problem);
+		}
+		return toConfigSlug(name);
+	}
+
+	private getConfigFilePath(name: string): string {
+		return join(this.configDir, `${this.getConfigKey(name)}.json`);
+	}
+
+	getConfigDir(): string {
+		return this.configDir;
+	}
+
+	setConfigDir(configDir: string): void {
+		this.useConfigDir(configDir);
+		// Listeners follow the manager to the new directory
+		if (this.watcher) {
+			this.watcher.close();
+			this.watcher = null;
+			this.updateWatcher();
+		}
+		Logger.debug(`Config directory set: ${resolve(configDir)}`);
+	}
+
+	getSchema(): z.ZodType<T> {
+		return this.schema;
+	}
+
+	getJsonSchema(): Record<string, unknown> {
+		return toConfigJsonSchema(this.schema, {
+			title: `${this.appName} configuration`,
+			secretPaths: this.secretPaths,
+		});
+	}
+
+	validateConfig(data: unknown, name?: string): T {
+		if (isPlainObject(data) && data.extends !== undefined) {
+			const parsed = this.parseConfig(this.mergeParents(data, name), name);
+			return this.pickOwnValues(parsed, data);
+		}
+
+		return this.parseConfig(data, name);
+	}
+
+	/**
+	 * Keeps, from the parsed result of a configuration merged over its parents, the values the
+	 * configuration sets itself; keys the schema does not describe are dropped
+	 */
+	private pickOwnValues(parsed: T, data: Record<string, unknown>): T {
+		const own: Record<string, unknown> = {};
+
+		for (const [path, value] of flattenObject(data)) {
+			const parsedValue = getValueAtPath(parsed, path);
+			if (parsedValue !== undefined) {
+				// An empty object merged over a parent's would otherwise pick up the parent's values
+				setValueAtPath(own, path, isPlainObject(value) ? {} : parsedValue);
+			}
+		}
+
+		return own as T;
+	}
+
+	/**
+	 * Parses data with the schema, ignoring problems with values that hold placeholders
+	 * @throws ConfigValidationError describing every other field that failed
+	 */
+	private parseConfig(data: unknown, name?: string): T {
+		const validationResult = this.schema.safeParse(data);
+
+		if (!validationResult.success) {
+			const issues = validationResult.error.issues.filter(
+				(issue) => !hasPlaceholders(getValueAtIssuePath(data, issue.path)),
+			);
+			if (issues.length === 0) {
+				return data as T;
+			}
+			throw ConfigValidationError.fromZodError(new z.ZodError(issues), name);
+		}
+
+		return validationResult.data;
+	}
+
+	/**
+	 * Merges a configuration over the chain of configurations it extends
+	 * @param data - Configuration, possibly declaring `extends`
+	 * @param name - Configuration name used in error messages (defaults to `data.name`)
+	 * @returns The merged values, keeping the configuration's own `name` and `extends`
+	 * @throws ConfigInheritanceError if a parent is missing, unreadable or the chain is circular
+	 */
+	private mergeParents(
+		data: Record<string, unknown>,
+		name: string = String(data.name),
+	): Record<string, unknown> {
+		const layers = [...this.readParents(data, name), data];
+
+		if (layers.length === 1) {
+			return data;
+		}
+
+		const merged = layers.reduce((base, layer) => deepMerge(base, layer), {});
+		return { ...merged, name: data.name, extends: data.extends };
+	}
+
+	/**
+	 * Reads the chain of configurations a configuration extends
+	 * @param data - Configuration, possibly declaring `extends`
+	 * @param name - Configuration name used in error messages
+	 * @returns The parents, decrypted, from the farthest to the nearest
+	 * @throws ConfigInheritanceError if a parent is missing, unreadable or the chain is circular
+	 */
+	private readParents(data: Record<string, unknown>, name: string): Record<string, unknown>[] {
+		const parents: Record<string, unknown>[] = [];
+		const chain = getConfigNameProblem(name) === null ? [toConfigSlug(name)] : [name];
+		let parentName = data.extends;
+
+		while (parentName !== undefined) {
+			if (typeof parentName !== "string" || getConfigNameProblem(parentName) !== null) {
+				throw new ConfigInheritanceError(name, `'${String(parentName)}' is not a valid name`);
+			}
+
+			const parentKey = toConfigSlug(parentName);
+			if (chain.includes(parentKey)) {
+				throw new ConfigInheritanceError(name, `circular: ${[...chain, parentKey].join(" -> ")}`);
+			}
+			if (!this.configExists(parentName)) {
+				throw new ConfigInheritanceError(name, `'${parentName}' does not exist`);
+			}
+
+			let parent: Record<string, unknown>;
+			try {
+				parent = this.readDecryptedConfig(parentName);
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				throw new ConfigInheritanceError(name, `'${parentName}' cannot be read: ${errorMessage}`);
+			}
+
+			parents.unshift(parent);
+			chain.push(parentKey);
+			parentName = parent.extends;
+		}
+
+		return parents;
+	}
+
+	/**
+	 * Reads a stored configuration, upgraded in memory and with its secrets decrypted,
+	 * without validating it
+	 */
+	private readDecryptedConfig(name: string): Record<string, unknown> {
+		const { data } = migrateConfigData(
+			this.readConfigFile(name),
+			this.migrations,
+			this.schemaVersion,
+			name,
+		);
+		return this.decryptSecrets(data, name);
+	}
+
+	/**
+	 * Reads and parses a stored configuration file
+	 * @throws Error if the file cannot be read or does not contain a JSON object
+	 */
+	private readConfigFile(name: string): Record<string, unknown> {
+		const parsed: unknown = JSON.parse(this.readFileContent(this.getConfigFilePath(name)));
+
+		if (!isPlainObject(parsed)) {
+			throw new Error(`Config file for '${name}' does not contain a JSON object`);
+		}
+
+		// The reference only helps editors, so it never reaches validation or history
+		const { [JSON_SCHEMA_KEY]: _schemaReference, ...data } = parsed;
+		return data;
+	}
+
+	/**
+	 * Gets the cipher for secret fields, loading (or generating) the key on first use
+	 */
+	private getCipher(): SecretCipher {
+		this.cipher ??= new SecretCipher(this.secretKey ?? { keyFile: this.defaultKeyFile });
+		return this.cipher;
+	}
+
+	/**
+	 * Encrypts secret fields before data is written to disk
+	 */
+	private encryptSecrets(data: Record<string, unknown>): Record<string, unknown> {
+		if (!hasValuesAtPaths(data, this.secretPaths)) {
+			return data;
+		}
+		return this.getCipher().encryptPaths(data, this.secretPaths);
+	}
+
+	/**
+	 * Decrypts secret fields read from disk
+	 * @throws ConfigSecretError naming the configuration and field that failed
+	 */
+	private decryptSecrets(data: Record<string, unknown>, name: string): Record<string, unknown> {
+		if (!hasValuesAtPaths(data, this.secretPaths)) {
+			return data;
+		}
+
+		try {
+			return this.getCipher().decryptPaths(data, this.secretPaths);
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			throw new ConfigSecretError(`Cannot decrypt configuration '${name}': ${errorMessage}`);
+		}
+	}
+
+	getSecretPaths(): string[] {
+		return [...this.secretPaths];
+	}
+
+	maskSecrets(config: T): T {
+		return maskPaths(config, this.secretPaths);
+	}
+
+	rekeySecrets(newKey?: SecretKeySource): number {
+		return this.withLock(() => {
+			const pendingKeyFile = `${this.defaultKeyFile}.new`;
+			const generated = newKey === undefined;
+
+			if (generated) {
+				rmSync(pendingKeyFile, { force: true });
+			}
+
+			const newCipher = new SecretCipher(generated ? { keyFile: pendingKeyFile } : newKey);
+
+			// Decrypt everything first so a wrong key aborts before any file is rewritten
+			const rewrites = this.listConfigs()
+				.map((name) => ({ name, stored: this.readConfigFile(name) }))
+				.filter(({ stored }) => hasValuesAtPaths(stored, this.secretPaths))
+				.map(({ name, stored }) => ({
+					name,
+					data: newCipher.encryptPaths(this.decryptSecrets(stored, name), this.secretPaths),
+				}));
+
+			// Revisions are re-encrypted too, otherwise they could no longer be rolled back to
+			const historyNames = existsSync(this.historyDir) ? readdirSync(this.historyDir) : [];
+			const revisionRewrites: { name: string; revision: ConfigRevision }[] = [];
+			for (const name of historyNames) {
+				for (const revision of listRevisions(this.historyDir, name)) {
+					if (revision.data && hasValuesAtPaths(revision.data, this.secretPaths)) {
+						const data = this.decryptSecrets(revision.data, name);
+						revisionRewrites.push({
+							name,
+							revision: { ...revision, data: newCipher.encryptPaths(data, this.secretPaths) },
+						});
+					}
+				}
+			}
+
+			for (const { name, data } of rewrites) {
+				writeFileAtomic(this.getConfigFilePath(name), this.serializeConfig(data), FILE_MODE);
+				Logger.debug(`Secrets re-encrypted: ${name}`);
+			}
+
+			for (const { name, revision } of revisionRewrites) {
+				writeRevision(this.historyDir, name, revision);
+			}
+
+			if (generated) {
+				if (existsSync(this.defaultKeyFile)) {
+					const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+					copyFileSync(this.defaultKeyFile, `${this.defaultKeyFile}.${timestamp}.bak`);
+				}
+				renameSync(pendingKeyFile, this.defaultKeyFile);
+			}
+
+			this.secretKey = generated ? null : newKey;
+			this.cipher = null;
+			return rewrites.length;
+		});
+	}
+
+	/**
+	 * Serializes configuration data stamped with the current schema version
+	 */
+	private serializeConfig(data: Record<string, unknown>): string {
+		this.ensureJsonSchemaFile();
+		return JSON.stringify(
+			{
+				[JSON_SCHEMA_KEY]: `./${JSON_SCHEMA_FILE_NAME}`,
+				[SCHEMA_VERSION_KEY]: this.schemaVersion,
+				...data,
+			},
+			null,
+			2,
+		);
+	}
+
+	/**
+	 * Writes `schema.json` for stored files to reference, unless it is already up to date
+	 * Failures are only logged, as the file is an editing aid
+	 */
+	private ensureJsonSchemaFile(): void {
+		if (this.jsonSchemaFileChecked) {
+			return;
+		}
+
+		try {
+			const content = JSON.stringify(this.getJsonSchema(), null, 2);
+			if (
+				!existsSync(this.jsonSchemaFile) ||
+				readFileSync(this.jsonSchemaFile, "utf-8") !== content
+			) {
+				writeFileAtomic(this.jsonSchemaFile, content, FILE_MODE);
+				Logger.debug(`JSON Schema written: ${this.jsonSchemaFile}`);
+			}
+			this.jsonSchemaFileChecked = true;
+		} catch (error) {
+			Logger.debug("JSON Schema not written:", error);
+		}
+	}
+
+	/**
+	 * Copies a stored configuration file into the backup directory
+	 * @returns Path of the backup file
+	 */
+	private backupConfigFile(name: string, fromVersion: number): string {
+		mkdirSync(this.backupDir, { recursive: true });
+		const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+		const backupPath = join(this.backupDir, `${name}.v${fromVersion}.${timestamp}.json`);
+		copyFileSync(this.getConfigFilePath(name), backupPath);
+		return backupPath;
+	}
+
+	/**
+	 * Loads a stored configuration, upgrading it in place if it has an older schema version
+	 * @returns The validated configuration
+	 * @throws ConfigMigrationError or ConfigValidationError
+	 */
+	private loadConfig(name: string): T {
+		const stored = this.readConfigFile(name);
+		const { data, fromVersion, applied } = migrateConfigData(
+			stored,
+			this.migrations,
+			this.schemaVersion,
+			name,
+		);
+		const validated = this.validateConfig(this.decryptSecrets(data, name), name);
+
+		if (applied.length > 0) {
+			this.withLock(() => {
+				// Another process may have migrated the file since it was read
+				const latest = migrateConfigData(
+					this.readConfigFile(name),
+					this.migrations,
+					this.schemaVersion,
+					name,
+				);
+				if (latest.applied.length === 0) {
+					return;
+				}
+
+				const backupPath = this.backupConfigFile(name, fromVersion);
+				writeFileAtomic(this.getConfigFilePath(name), this.serializeConfig(latest.data), FILE_MODE);
+				Logger.info(
+					`Configuration '${name}' migrated from schema version ${fromVersion} to ${this.schemaVersion}`,
+				);
+				Logger.debug(`Backup of the previous version: ${backupPath}`);
+			});
+		}
+
+		return validated;
+	}
+
+	migrateConfigs(options: MigrateConfigsOptions = {}): ConfigMigrationResult[] {
+		return this.withLock(() =>
+			this.listConfigs().map((name) => this.migrateStoredConfig(name, options)),
+		);
+	}
+
+	/**
+	 * Migrates a single stored configuration; the caller must hold the lock
+	 */
+	private migrateStoredConfig(name: string, options: MigrateConfigsOptions): ConfigMigrationResult {
+		let fromVersion = INITIAL_SCHEMA_VERSION;
+
+		try {
+			const stored = this.readConfigFile(name);
+			const migrated = migrateConfigData(stored, this.migrations, this.schemaVersion, name);
+			fromVersion = migrated.fromVersion;
+			const result = { name, fromVersion, toVersion: this.schemaVersion };
+
+			// Never write data the current schema would reject
+			this.validateConfig(migrated.data, name);
+
+			if (migrated.applied.length === 0) {
+				return { ...result, status: "up-to-date" };
+			}
+
+			if (options.dryRun) {
+				return { ...result, status: "would-migrate" };
+			}
+
+			const backupPath = this.backupConfigFile(name, fromVersion);
+			writeFileAtomic(this.getConfigFilePath(name), this.serializeConfig(migrated.data), FILE_MODE);
+			Logger.debug(`Config migrated: ${name} (backup: ${backupPath})`);
+			return { ...result, status: "migrated", backupPath };
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			return {
+				name,
+				fromVersion,
+				toVersion: this.schemaVersion,
+				status: "failed",
+				error: errorMessage,
+			};
+		}
+	}
+
+	checkConfigDirectory(options: CheckConfigDirectoryOptions = {}): ConfigDiagnostic[] {
+		return this.withLock(() => {
+			const diagnostics: ConfigDiagnostic[] = [];
+			const report: ReportProblem = (diagnostic, repair) => {
+				if (options.fix && repair) {
+					diagnostic.fix = repair();
+				}
+				diagnostics.push(diagnostic);
+			};
+
+			// Quarantining a configuration can leave the active pointer dangling, so the
+			// pointer and permissions are checked after the configuration files
+			this.checkStrayEntries(report);
+			for (const name of this.listConfigs()) {
+				this.checkStoredConfig(name, report);
+			}
+			this.checkCurrentPointer(report);
+			this.checkConfigPin(report);
+			this.checkPermissions(report);
+
+			return diagnostics;
+		});
+	}
 
 	/**
-	 * Deletes a configuration by name
-	 * @param name - Configuration name to delete
-	 * @returns True if deleted successfully
+	 * Moves a file out of the way into `quarantine/`
+	 * @returns Description of the move
 	 */
-	deleteConfig(name: string): boolean;
+	private quarantineFile(file: string): string {
+		mkdirSync(this.quarantineDir, { recursive: true, mode: DIR_MODE });
+		const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+		const target = join(this.quarantineDir, `${file}.${timestamp}`);
+		renameSync(join(this.configDir, file), target);
+		return `Moved to ${target}`;
+	}
 
 	/**
-	 * Gets the name of the currently active configuration
-	 * @returns Current configuration name or null if none is active
+	 * Reports leftover temporary files and entries that do not belong in the directory
 	 */
-	getCurrentConfig(): string | null;
+	private checkStrayEntries(report: ReportProblem): void {
+		for (const entry of readdirSync(this.configDir)) {
+			if (RESERVED_ENTRIES.has(entry) || entry.startsWith(".secret.key.")) {
+				continue;
+			}
 
-	/**
-	 * Gets the data of the currently active configuration
-	 * @returns Current configuration object or null if none is active
-	 */
-	getCurrentConfigData(): T | null;
+			if (entry.endsWith(".json")) {
+				this.checkConfigFileName(entry, report);
+				continue;
+			}
+
+			if (/^\..+\.tmp$/.test(entry)) {
+				report(
+					{
+						file: entry,
+						code: "leftover-temp-file",
+						severity: "warning",
+						message: "Temporary file left behind by an interrupted write",
+					},
+					() => {
+						rmSync(join(this.configDir, entry), { force: true });
+						return "Removed";
+					},
+				);
+			} else {
+				report(
+					{
+						file: entry,
+						code: "unexpected-file",
+						severity: "warning",
+						message: "Not a configuration file",
+					},
+					() => this.quarantineFile(entry),
+				);
+			}
+		}
+	}
 
 	/**
-	 * Sets a configuration as the currently active one
-	 * @param name - Configuration name to set as current
-	 * @returns True if set successfully
+	 * Reports `.json` files whose name is not the slug of a valid configuration name
+	 * (e.g. written before names were slugged); fixing renames them to their slug
 	 */
-	setCurrentConfig(name: string): boolean;
+	private checkConfigFileName(file: string, report: ReportProblem): void {
+		const baseName = file.slice(0, -".json".length);
+
+		if (isConfigSlug(baseName)) {
+			return;
+		}
+
+		const problem = getConfigNameProblem(baseName);
+		const target = problem === null ? `${toConfigSlug(baseName)}.json` : null;
+
+		report(
+			{
+				file,
+				code: "invalid-file-name",
+				severity: "error",
+				message: target
+					? `File name is not a configuration slug (expected '${target}')`
+					: `File name is not a valid configuration name: ${problem}`,
+			},
+			() => {
+				if (!target || existsSync(join(this.configDir, target))) {
+					return this.quarantineFile(file);
+				}
+				renameSync(join(this.configDir, file), join(this.configDir, target));
+				return `Renamed to ${target}`;
+			},
+		);
+	}
 
 	/**
-	 * Gets the configuration directory path
-	 * @returns Absolute path to configuration directory
+	 * Checks that a stored configuration can be read, migrated, decrypted and validated,
+	 * and that its `name` field matches its file name
 	 */
-	getConfigDir(): string;
+	private checkStoredConfig(name: string, report: ReportProblem): void {
+		const file = `${name}.json`;
+		let data: Record<string, unknown>;
+
+		try {
+			data = this.readConfigFile(name);
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			report({ file, code: "unreadable-file", severity: "error", message: errorMessage }, () =>
+				this.quarantineFile(file),
+			);
+			return;
+		}
+
+		try {
+			data = migrateConfigData(data, this.migrations, this.schemaVersion, name).data;
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			report({ file, code: "migration-failed", severity: "error", message: errorMessage });
+			return;
+		}
+
+		try {
+			data = this.decryptSecrets(data, name);
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			report({ file, code: "decryption-failed", severity: "error", message: errorMessage });
+			return;
+		}
+
+		let validated: T;
+		try {
+			validated = this.validateConfig({ ...data, name }, name);
+		} catch (error) {
+			if (error instanceof ConfigInheritanceError) {
+				report({ file, code: "broken-extends", severity: "error", message: error.message });
+				return;
+			}
+			if (!(error instanceof ConfigValidationError)) {
+				throw error;
+			}
+			report(
+				{
+					file,
+					code: "invalid-config",
+					severity: "error",
+					message: "Does not match the configuration schema",
+					issues: error.issues,
+				},
+				() => this.quarantineFile(file),
+			);
+			return;
+		}
+
+		if (
+			typeof data.name !== "string" ||
+			getConfigNameProblem(data.name) !== null ||
+			toConfigSlug(data.name) !== name
+		) {
+			report(
+				{
+					file,
+					code: "name-mismatch",
+					severity: "error",
+					message: `Field 'name' is ${JSON.stringify(data.name)} but the file is named '${file}'`,
+				},
+				() => {
+					this.trackExistingConfig(name);
+					this.recordRevision(name, "save", this.writeConfigFile(validated));
+					return `Set 'name' to '${name}'`;
+				},
+			);
+		}
+	}
 
 	/**
-	 * Checks if a configuration exists
-	 * @param name - Configuration name to check
-	 * @returns True if configuration exists
+	 * Checks that `current.json` is readable and points at an existing configuration
 	 */
-	configExists(name: string): boolean;
-}
+	private checkCurrentPointer(report: ReportProblem): void {
+		const file = "current.json";
+		const reset = () => {
+			writeFileAtomic(this.currentConfigFile, JSON.stringify({ name: "" }), FILE_MODE);
+			return "Cleared the active configuration";
+		};
+		let pointer: unknown;
 
-class FileConfigManager<T extends AppConfig = AppConfig> implements ConfigManager<T> {
-	private readonly configDir: string;
-	private readonly currentConfigFile: string;
-	private readonly appName: string;
+		try {
+			pointer = JSON.parse(readFileSync(this.currentConfigFile, "utf-8"));
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			report({ file, code: "invalid-current", severity: "error", message: errorMessage }, reset);
+			return;
+		}
 
-	constructor(appName?: string, configDir?: string) {
-		this.appName = appName || config.appName;
-		const configDirName = this.appName.toLowerCase().replace(/\s+/g, "-");
-		this.configDir = configDir || join(homedir(), `.${configDirName}`, "configs");
-		this.currentConfigFile = join(this.configDir, "current.json");
-		this.ensureConfigDirExists();
-		this.ensureCurrentConfigFileExists();
-	}
+		if (!isPlainObject(pointer) || typeof pointer.name !== "string") {
+			report(
+				{
+					file,
+					code: "invalid-current",
+					severity: "error",
+					message: 'Expected an object like { "name": "<config>" }',
+				},
+				reset,
+			);
+			return;
+		}
 
-	private ensureConfigDirExists(): void {
-		if (!existsSync(this.configDir)) {
-			mkdirSync(this.configDir, { recursive: true });
-			Logger.debug(`Config directory created: ${this.configDir}`);
+		if (pointer.name && !this.configExists(pointer.name)) {
+			report(
+				{
+					file,
+					code: "dangling-current",
+					severity: "error",
+					message: `Active configuration '${pointer.name}' does not exist`,
+				},
+				reset,
+			);
 		}
 	}
 
-	private ensureCurrentConfigFileExists(): void {
-		if (!existsSync(this.currentConfigFile)) {
-			writeFileSync(this.currentConfigFile, JSON.stringify({ name: "" }), "utf-8");
-			Logger.debug(`Current config file created: ${this.currentConfigFile}`);
+	/**
+	 * Checks that the pin file applying to the working directory names an existing configuration
+	 * Renaming or deleting a configuration leaves pin files as they are. They are only reported:
+	 * a pin file may be shared with machines where the configuration exists.
+	 */
+	private checkConfigPin(report: ReportProblem): void {
+		const pin = this.readConfigPin();
+
+		if (pin && !this.configExists(pin.name)) {
+			report({
+				file: pin.file,
+				code: "stale-pin",
+				severity: "error",
+				message: `Pinned configuration '${pin.name}' does not exist`,
+			});
 		}
 	}
 
-	private getConfigFilePath(name: string): string {
-		return join(this.configDir, `${name}.json`);
-	}
+	/**
+	 * Checks that the directory, configuration files and key file are private to the owner
+	 * Skipped on Windows, where POSIX permission bits are not meaningful
+	 */
+	private checkPermissions(report: ReportProblem): void {
+		if (process.platform === "win32") {
+			return;
+		}
 
-	getConfigDir(): string {
-		return this.configDir;
+		const entries = [
+			{ file: ".", path: this.configDir, mode: DIR_MODE },
+			{ file: "current.json", path: this.currentConfigFile, mode: FILE_MODE },
+			{ file: ".secret.key", path: this.defaultKeyFile, mode: FILE_MODE },
+			...this.listConfigs().map((name) => ({
+				file: `${name}.json`,
+				path: this.getConfigFilePath(name),
+				mode: FILE_MODE,
+			})),
+		];
+
+		for (const { file, path, mode } of entries) {
+			if (!existsSync(path)) {
+				continue;
+			}
+
+			const actual = statSync(path).mode & 0o777;
+			if ((actual & 0o077) === 0) {
+				continue;
+			}
+
+			report(
+				{
+					file,
+					code: "bad-permissions",
+					severity: "warning",
+					message: `Mode ${actual.toString(8)} lets other users access it (expected ${mode.toString(8)})`,
+				},
+				() => {
+					chmodSync(path, mode);
+					return `Changed mode to ${mode.toString(8)}`;
+				},
+			);
+		}
 	}
 
 	configExists(name: string): boolean {
-		return existsSync(this.getConfigFilePath(name));
+		return getConfigNameProblem(name) === null && this.fileExists(this.getConfigFilePath(name));
 	}
 
 	listConfigs(): string[] {
 		try {
-			return readdirSync(this.configDir)
-				.filter((file) => file.endsWith(".json") && file !== "current.json")
-				.map((file) => file.replace(".json", ""));
+			return getConfigSlugs(readdirSync(this.configDir));
 		} catch (error) {
 			Logger.error("Error listing configs:", error);
 			return [];
 		}
 	}
 
-	getConfig(name: string): T | null {
+	getConfig(name: string, options: GetConfigOptions = {}): T | null {
 		try {
-			const filePath = this.getConfigFilePath(name);
-
-			if (!existsSync(filePath)) {
+			if (!this.fileExists(this.getConfigFilePath(name))) {
 				Logger.debug(`Config not found: ${name}`);
 				return null;
 			}
 
-			const content = readFileSync(filePath, "utf-8");
-			const parsed = JSON.parse(content);
+			const stored = this.loadConfig(name);
+
+			if (options.raw) {
+				return stored;
+			}
 
-			// Validate config structure with Zod
-			const validationResult = AppConfigSchema.safeParse(parsed);
+			const expanded = interpolateConfig(this.mergeParents(stored, name), name, {
+				baseDir: this.configDir,
+				loadConfig: (referenced) =>
+					this.configExists(referenced) ? this.mergeParents(this.loadConfig(referenced)) : null,
+			});
+			return this.parseConfig(expanded, name);
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			Logger.error(`Error getting config '${name}':`, errorMessage);
+			return null;
+		}
+	}
 
-			if (!validationResult.success) {
-				Logger.error(`Invalid config format for '${name}':`, validationResult.error.issues);
+	getConfigChain(name: string): T[] | null {
+		try {
+			if (!this.fileExists(this.getConfigFilePath(name))) {
+				Logger.debug(`Config not found: ${name}`);
 				return null;
 			}
 
-			return parsed as T;
+			const stored = this.loadConfig(name);
+			return [...(this.readParents(stored, name) as T[]), stored];
 		} catch (error) {
 			const errorMessage = error instanceof Error ? error.message : String(error);
 			Logger.error(`Error getting config '${name}':`, errorMessage);
@@ -178,18 +1811,159 @@ class FileConfigManager<T extends AppConfig = AppConfig> implements ConfigManage
 		}
 	}
 
-	saveConfig(config: T): boolean {
+	/**
+	 * Writes a validated configuration to `{name}.json`, encrypting its secret fields
+	 * @returns The data as stored, stamped with the schema version, without the `$schema` reference
+	 */
+	private writeConfigFile(config: T): Record<string, unknown> {
+		const stored = {
+			[SCHEMA_VERSION_KEY]: this.schemaVersion,
+			...this.encryptSecrets(config),
+		};
+		const filePath = this.getConfigFilePath(config.name);
+		const created = !existsSync(filePath);
+		writeFileAtomic(filePath, this.serializeConfig(stored), FILE_MODE);
+
+		const now = new Date().toISOString();
+		this.updateMetadata((entries) => {
+			const key = this.getConfigKey(config.name);
+			entries[key] = created
+				? { createdAt: now, updatedAt: now }
+				: { ...entries[key], updatedAt: now };
+		});
+		return stored;
+	}
+
+	/**
+	 * Changes the timestamps recorded in `.metadata.json`; the caller must hold the lock
+	 * Failures are only logged, as losing a timestamp must not fail the change it describes
+	 */
+	private updateMetadata(update: (entries: ConfigMetadataEntries) => void): void {
+		try {
+			const entries = parseMetadataFile(
+				existsSync(this.metadataFile) ? readFileSync(this.metadataFile, "utf-8") : null,
+			);
+			update(entries);
+			writeFileAtomic(this.metadataFile, JSON.stringify(entries, null, 2), FILE_MODE);
+		} catch (error) {
+			Logger.debug("Configuration metadata not updated:", error);
+		}
+	}
+
+	getConfigMetadata(name: string): ConfigMetadata | null {
+		const filePath = this.getConfigFilePath(name);
+		if (!existsSync(filePath)) {
+			return null;
+		}
+
+		const entries = parseMetadataFile(
+			this.fileExists(this.metadataFile) ? this.readFileContent(this.metadataFile) : null,
+		);
+		return toConfigMetadata(entries[this.getConfigKey(name)], statSync(filePath).mtime);
+	}
+
+	/**
+	 * Records a revision of a configuration; the caller must hold the lock
+	 * Call `trackExistingConfig` before changing the file so its previous state is kept
+	 */
+	private recordRevision(
+		name: string,
+		action: ConfigRevisionAction,
+		stored: Record<string, unknown> | null,
+	): void {
+		if (this.historyLimit > 0) {
+			recordRevision(this.historyDir, this.getConfigKey(name), action, stored, this.historyLimit);
+		}
+	}
+
+	/**
+	 * Records the current file of a configuration that has no history yet (e.g. one written
+	 * before history was kept), so the change about to be made can be rolled back
+	 */
+	private trackExistingConfig(name: string): void {
+		if (
+			this.historyLimit === 0 ||
+			!this.configExists(name) ||
+			listRevisions(this.historyDir, this.getConfigKey(name)).length > 0
+		) {
+			return;
+		}
+
 		try {
-			// Validate config before saving
-			const validationResult = AppConfigSchema.safeParse(config);
+			this.recordRevision(name, "save", this.readConfigFile(name));
+		} catch (error) {
+			Logger.debug(`Previous version of '${name}' not recorded:`, error);
+		}
+	}
 
-			if (!validationResult.success) {
-				Logger.error("Invalid config data:", validationResult.error.issues);
-				return false;
+	getConfigHistory(name: string): ConfigRevision[] {
+		return listRevisions(this.historyDir, this.getConfigKey(name))
+			.reverse()
+			.map((revision) => this.decodeRevision(revision, name));
+	}
+
+	/**
+	 * Upgrades the data of a revision to the current schema version and decrypts its secrets
+	 */
+	private decodeRevision(revision: ConfigRevision, name: string): ConfigRevision {
+		if (!revision.data) {
+			return revision;
+		}
+		const { data } = migrateConfigData(revision.data, this.migrations, this.schemaVersion, name);
+		return { ...revision, data: this.decryptSecrets(data, name) };
+	}
+
+	rollbackConfig(name: string, revision?: number): ConfigRevision {
+		return this.withLock(() => {
+			const revisions = listRevisions(this.historyDir, this.getConfigKey(name)).reverse();
+			// Unless the file is gone, the newest revision is the current state
+			const candidates = this.configExists(name) ? revisions.slice(1) : revisions;
+			const target =
+				revision === undefined
+					? candidates.find((candidate) => candidate.data !== null)
+					: revisions.find((candidate) => candidate.revision === revision);
+
+			if (!target) {
+				throw new ConfigError(
+					revision === undefined
+						? `No earlier revision of '${name}' to roll back to`
+						: `Revision ${revision} of '${name}' not found`,
+				);
+			}
+
+			if (!target.data) {
+				throw new ConfigError(
+					`Revision ${target.revision} of '${name}' records a deletion and holds no data`,
+				);
 			}
 
-			const filePath = this.getConfigFilePath(config.name);
-			writeFileSync(filePath, JSON.stringify(config, null, 2), "utf-8");
+			const { data } = migrateConfigData(target.data, this.migrations, this.schemaVersion, name);
+			const restored = this.validateConfig({ ...this.decryptSecrets(data, name), name }, name);
+			this.trackExistingConfig(name);
+			this.recordRevision(name, "rollback", this.writeConfigFile(restored));
+			Logger.debug(`Config rolled back: ${name} (revision ${target.revision})`);
+			return target;
+		});
+	}
+
+	saveConfig(config: T, options: SaveConfigOptions = {}): boolean {
+		try {
+			// Validate config before saving; the parsed output drops unknown keys
+			const validated = this.validateConfig(config, config.name);
+
+			this.withLock(() => {
+				// Compared under the lock, so no change can land between the check and the write
+				if (options.expected) {
+					const stored = this.fileExists(this.getConfigFilePath(validated.name))
+						? this.loadConfig(validated.name)
+						: null;
+					if (!isDeepStrictEqual(stored, options.expected)) {
+						throw new ConfigConflictError(validated.name);
+					}
+				}
+				this.trackExistingConfig(validated.name);
+				this.recordRevision(validated.name, "save", this.writeConfigFile(validated));
+			});
 			Logger.debug(`Config saved: ${config.name}`);
 			return true;
 		} catch (error) {
@@ -199,60 +1973,290 @@ class FileConfigManager<T extends AppConfig = AppConfig> implements ConfigManage
 		}
 	}
 
-	deleteConfig(name: string): boolean {
+	deleteConfig(name: string, options: DeleteConfigOptions = {}): boolean {
 		try {
 			const filePath = this.getConfigFilePath(name);
 
-			if (!existsSync(filePath)) {
-				Logger.warn(`Config not found: ${name}`);
+			return this.withLock(() => {
+				if (!existsSync(filePath)) {
+					Logger.warn(`Config not found: ${name}`);
+					return false;
+				}
+
+				const dependents = this.listDependentConfigs(name);
+				if (dependents.length > 0 && !options.force) {
+					Logger.warn(`Config '${name}' is extended by: ${dependents.join(", ")}`);
+					return false;
+				}
+
+				if (dependents.length > 0) {
+					const {
+						name: _name,
+						extends: grandparent,
+						...inherited
+					} = this.readDecryptedConfig(name);
+					for (const dependent of dependents) {
+						const child = this.loadConfig(dependent) as Record<string, unknown>;
+						const detached = { ...deepMerge(inherited, child), extends: grandparent };
+						if (grandparent === undefined) {
+							delete detached.extends;
+						}
+						this.trackExistingConfig(dependent);
+						this.recordRevision(
+							dependent,
+							"save",
+							this.writeConfigFile(this.validateConfig(detached, dependent)),
+						);
+					}
+				}
+
+				this.trackExistingConfig(name);
+				unlinkSync(filePath);
+				this.recordRevision(name, "delete", null);
+				Logger.debug(`Config deleted: ${name}`);
+
+				const key = this.getConfigKey(name);
+				this.updateMetadata((entries) => {
+					delete entries[key];
+				});
+
+				// If deleted config was the current one, clear current config
+				if (this.readPersistedCurrentConfig() === key) {
+					this.clearCurrentConfig();
+				}
+				if (this.configOverride === key) {
+					this.configOverride = null;
+				}
+
+				return true;
+			});
+		} catch (error) {
+			Logger.error(`Error deleting config '${name}':`, error);
+			return false;
+		}
+	}
+
+	listDependentConfigs(name: string): string[] {
+		const key = this.getConfigKey(name);
+
+		return this.listConfigs().filter((candidate) => {
+			try {
+				const parent = this.readConfigFile(candidate).extends;
+				return typeof parent === "string" && toConfigSlug(parent) === key && candidate !== key;
+			} catch {
 				return false;
 			}
+		});
+	}
 
-			unlinkSync(filePath);
-			Logger.debug(`Config deleted: ${name}`);
+	renameConfig(oldName: string, newName: string): boolean {
+		try {
+			return this.withLock(() => {
+				if (!this.configExists(oldName)) {
+					Logger.warn(`Config not found: ${oldName}`);
+					return false;
+				}
 
-			// If deleted config was the current one, clear current config
-			const currentConfig = this.getCurrentConfig();
-			if (currentConfig === name) {
-				this.clearCurrentConfig();
-			}
+				const oldKey = this.getConfigKey(oldName);
+				const newKey = this.getConfigKey(newName);
+				// Names sharing a slug (e.g. differing only by case) just change the display name
+				const sameFile = oldKey === newKey;
 
-			return true;
+				if (!sameFile && this.configExists(newName)) {
+					Logger.warn(`Config already exists: ${newName}`);
+					return false;
+				}
+
+				const renamed = this.validateConfig(
+					{ ...this.loadConfig(oldName), name: newName },
+					newName,
+				);
+				this.trackExistingConfig(oldName);
+				this.recordRevision(newName, "save", this.writeConfigFile(renamed));
+
+				if (sameFile) {
+					Logger.debug(`Config renamed: ${oldName} -> ${newName}`);
+					return true;
+				}
+
+				for (const dependent of this.listDependentConfigs(oldName)) {
+					const child = { ...this.loadConfig(dependent), extends: newName };
+					this.trackExistingConfig(dependent);
+					this.recordRevision(dependent, "save", this.writeConfigFile(child));
+				}
+
+				unlinkSync(this.getConfigFilePath(oldName));
+				this.recordRevision(oldName, "delete", null);
+				// The configuration keeps its creation and usage times under its new name
+				this.updateMetadata((entries) => {
+					const { updatedAt } = entries[newKey] ?? {};
+					entries[newKey] = { ...entries[oldKey], ...(updatedAt && { updatedAt }) };
+					delete entries[oldKey];
+				});
+
+				if (this.readPersistedCurrentConfig() === oldKey) {
+					writeFileAtomic(this.currentConfigFile, JSON.stringify({ name: newKey }), FILE_MODE);
+				}
+				if (this.configOverride === oldKey) {
+					this.configOverride = newKey;
+				}
+
+				Logger.debug(`Config renamed: ${oldName} -> ${newName}`);
+				return true;
+			});
 		} catch (error) {
-			Logger.error(`Error deleting config '${name}':`, error);
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			Logger.error(`Error renaming config '${oldName}':`, errorMessage);
+			return false;
+		}
+	}
+
+	copyConfig(
+		sourceName: string,
+		targetName: string,
+		overrides: Record<string, unknown> = {},
+	): boolean {
+		try {
+			return this.withLock(() => {
+				if (!this.configExists(sourceName)) {
+					Logger.warn(`Config not found: ${sourceName}`);
+					return false;
+				}
+
+				if (this.configExists(targetName)) {
+					Logger.warn(`Config already exists: ${targetName}`);
+					return false;
+				}
+
+				const source = this.loadConfig(sourceName) as Record<string, unknown>;
+				const copied = this.validateConfig(
+					deepMerge(source, { ...overrides, name: targetName }),
+					targetName,
+				);
+				this.recordRevision(targetName, "save", this.writeConfigFile(copied));
+
+				Logger.debug(`Config copied: ${sourceName} -> ${targetName}`);
+				return true;
+			});
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			Logger.error(`Error copying config '${sourceName}':`, errorMessage);
 			return false;
 		}
 	}
 
 	getCurrentConfig(): string | null {
+		return this.getCurrentConfigInfo()?.name ?? null;
+	}
+
+	getCurrentConfigInfo(): CurrentConfigInfo | null {
+		if (this.configOverride) {
+			return { name: this.configOverride, source: "override" };
+		}
+
+		const pin = this.readConfigPin();
+		if (pin) {
+			return { name: toConfigReference(pin.name), source: "pin", pinFile: pin.file };
+		}
+
+		const name = this.readPersistedCurrentConfig();
+		return name ? { name, source: "pointer" } : null;
+	}
+
+	/**
+	 * Finds the pin file applying to the working directory
+	 * An unreadable pin file is reported and ignored, so the global pointer still applies
+	 */
+	private readConfigPin(): ConfigPin | null {
+		if (!this.pinFileName) {
+			return null;
+		}
+
+		try {
+			return findConfigPin(this.cwd ?? process.cwd(), this.pinFileName);
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			Logger.warn("Ignoring unreadable pin file:", errorMessage);
+			return null;
+		}
+	}
+
+	pinConfig(name: string, dir: string = this.cwd ?? process.cwd()): string {
+		if (!this.pinFileName) {
+			throw new ConfigError("Pinning configurations is disabled");
+		}
+		if (!this.configExists(name)) {
+			throw new ConfigError(`Config not found: ${name}`);
+		}
+
+		const pinFile = join(resolve(dir), this.pinFileName);
+		writeFileAtomic(pinFile, `${this.getConfigKey(name)}\n`);
+		Logger.debug(`Config pinned: ${name} (${pinFile})`);
+		return pinFile;
+	}
+
+	unpinConfig(dir: string = this.cwd ?? process.cwd()): string | null {
+		const pin = this.pinFileName ? findConfigPin(dir, this.pinFileName) : null;
+		if (!pin) {
+			return null;
+		}
+
+		unlinkSync(pin.file);
+		Logger.debug(`Config unpinned: ${pin.name} (${pin.file})`);
+		return pin.file;
+	}
+
+	setConfigOverride(name: string | null): void {
+		const trimmed = name?.trim() || null;
+		// Invalid names are kept as given so commands can report them
+		this.configOverride = trimmed && toConfigReference(trimmed);
+		Logger.debug(
+			this.configOverride
+				? `Config override set: ${this.configOverride}`
+				: "Config override cleared",
+		);
+	}
+
+	getConfigOverride(): string | null {
+		return this.configOverride;
+	}
+
+	/**
+	 * Reads the active configuration name stored in `current.json`
+	 */
+	private readPersistedCurrentConfig(): string | null {
 		try {
-			const content = readFileSync(this.currentConfigFile, "utf-8");
-			const current = JSON.parse(content);
-			return current.name || null;
+			return parseCurrentPointer(readFileSync(this.currentConfigFile, "utf-8"));
 		} catch (error) {
 			Logger.error("Error getting current config:", error);
 			return null;
 		}
 	}
 
-	getCurrentConfigData(): T | null {
+	getCurrentConfigData(options: GetConfigOptions = {}): T | null {
 		const currentName = this.getCurrentConfig();
 		if (!currentName) {
 			return null;
 		}
-		return this.getConfig(currentName);
+		return this.getConfig(currentName, options);
 	}
 
 	setCurrentConfig(name: string): boolean {
 		try {
-			if (!this.configExists(name)) {
-				Logger.warn(`Config not found: ${name}`);
-				return false;
-			}
+			return this.withLock(() => {
+				if (!this.configExists(name)) {
+					Logger.warn(`Config not found: ${name}`);
+					return false;
+				}
 
-			writeFileSync(this.currentConfigFile, JSON.stringify({ name }), "utf-8");
-			Logger.debug(`Current config set: ${name}`);
-			return true;
+				const key = this.getConfigKey(name);
+				writeFileAtomic(this.currentConfigFile, JSON.stringify({ name: key }), FILE_MODE);
+				this.updateMetadata((entries) => {
+					entries[key] = { ...entries[key], lastUsedAt: new Date().toISOString() };
+				});
+				Logger.debug(`Current config set: ${name}`);
+				return true;
+			});
 		} catch (error) {
 			Logger.error(`Error setting current config '${name}':`, error);
 			return false;
@@ -261,12 +2265,281 @@ class FileConfigManager<T extends AppConfig = AppConfig> implements ConfigManage
 
 	private clearCurrentConfig(): void {
 		try {
-			writeFileSync(this.currentConfigFile, JSON.stringify({ name: "" }), "utf-8");
+			this.withLock(() =>
+				writeFileAtomic(this.currentConfigFile, JSON.stringify({ name: "" }), FILE_MODE),
+			);
 			Logger.debug("Current config cleared");
 		} catch (error) {
 			Logger.error("Error clearing current config:", error);
 		}
 	}
+
+	on<E extends keyof ConfigEventMap>(event: E, listener: ConfigEventListener<E>): this {
+		this.events.on(event, listener as (...args: unknown[]) => void);
+		this.updateWatcher();
+		return this;
+	}
+
+	off<E extends keyof ConfigEventMap>(event: E, listener: ConfigEventListener<E>): this {
+		this.events.off(event, listener as (...args: unknown[]) => void);
+		this.updateWatcher();
+		return this;
+	}
+
+	watchActiveConfig(listener: (config: T | null, name: string | null) => void): () => void {
+		const readActive = () => {
+			const name = this.getCurrentConfig();
+			return { name, config: name ? this.getConfig(name) : null };
+		};
+		let last = JSON.stringify(readActive());
+
+		// A single flush may emit several events; only a changed result is reported
+		const onEvent = () => {
+			const active = readActive();
+			const serialized = JSON.stringify(active);
+			if (serialized !== last) {
+				last = serialized;
+				listener(active.config, active.name);
+			}
+		};
+
+		for (const event of CONFIG_EVENTS) {
+			this.on(event, onEvent);
+		}
+		return () => {
+			for (const event of CONFIG_EVENTS) {
+				this.off(event, onEvent);
+			}
+		};
+	}
+
+	close(): void {
+		this.events.removeAllListeners();
+		this.updateWatcher();
+	}
+
+	/**
+	 * Watches the configuration directory while anyone listens
+	 */
+	private updateWatcher(): void {
+		const listening = CONFIG_EVENTS.some((event) => this.events.listenerCount(event) > 0);
+
+		if (listening && !this.watcher) {
+			this.watcher = new ConfigDirectoryWatcher({
+				configDir: this.configDir,
+				currentFile: basename(this.currentConfigFile),
+				debounceMs: this.watchDebounceMs,
+				readCurrent: () => this.readPersistedCurrentConfig(),
+				onEvents: (events) => {
+					for (const event of events) {
+						if (event.type === "switch") {
+							this.events.emit("switch", event.name, event.previous);
+						} else {
+							this.events.emit(event.type, event.name);
+						}
+					}
+				},
+			});
+			this.watcher.start();
+		} else if (!listening && this.watcher) {
+			this.watcher.close();
+			this.watcher = null;
+		}
+	}
+
+	/**
+	 * Checks whether reading files migrates one of them, which takes the directory lock
+	 * @param files - Contents of configuration files, keyed by path
+	 */
+	private hasPendingMigrations(files: Map<string, string>): boolean {
+		return [...files.values()].some((content) => {
+			try {
+				const parsed: unknown = JSON.parse(content);
+				return isPlainObject(parsed) && getSchemaVersion(parsed) < this.schemaVersion;
+			} catch {
+				// Reported when the configuration is read
+				return false;
+			}
+		});
+	}
+
+	/**
+	 * Builds the promise-based API
+	 * Reads prefetch every file they need in parallel and then run the synchronous method
+	 * against those contents; changes wait for the lock and then run the synchronous method,
+	 * which re-enters the lock. Reads that migrate a file wait for the lock the same way.
+	 */
+	private createPromisesApi(): AsyncConfigManager<T> {
+		const whenUnlocked = <R>(fn: () => R): Promise<R> => withFileLockAsync(this.lockFile, fn);
+
+		/** Runs a read against prefetched files, taking the lock first if it migrates one */
+		const readPrefetched = async <R>(files: Map<string, string>, fn: () => R): Promise<R> =>
+			this.hasPendingMigrations(files)
+				? whenUnlocked(() => this.withPrefetched(files, fn))
+				: this.withPrefetched(files, fn);
+
+		const listConfigs = async (): Promise<string[]> => {
+			try {
+				return getConfigSlugs(await readdir(this.configDir));
+			} catch (error) {
+				Logger.error("Error listing configs:", error);
+				return [];
+			}
+		};
+
+		const getConfig = async (name: string, options: GetConfigOptions = {}): Promise<T | null> => {
+			const files = await this.prefetchConfigs([name], options.raw ?? false);
+			return readPrefetched(files, () => this.getConfig(name, options)).catch(
+				reportFailure(`Error getting config '${name}'`, null),
+			);
+		};
+
+		const getCurrentConfigInfo = async (): Promise<CurrentConfigInfo | null> => {
+			if (this.configOverride) {
+				return { name: this.configOverride, source: "override" };
+			}
+
+			const pin = this.pinFileName
+				? await findConfigPinAsync(this.cwd ?? process.cwd(), this.pinFileName).catch(
+						(error: unknown) => {
+							const errorMessage = error instanceof Error ? error.message : String(error);
+							Logger.warn("Ignoring unreadable pin file:", errorMessage);
+							return null;
+						},
+					)
+				: null;
+			if (pin) {
+				return { name: toConfigReference(pin.name), source: "pin", pinFile: pin.file };
+			}
+
+			try {
+				const name = parseCurrentPointer(await readFile(this.currentConfigFile, "utf-8"));
+				return name ? { name, source: "pointer" } : null;
+			} catch (error) {
+				Logger.error("Error getting current config:", error);
+				return null;
+			}
+		};
+
+		const getCurrentConfig = async (): Promise<string | null> =>
+			(await getCurrentConfigInfo())?.name ?? null;
+
+		return {
+			listConfigs,
+			getConfig,
+			getConfigs: async (options = {}) => {
+				const names = await listConfigs();
+				const files = await this.prefetchConfigs(names, options.raw ?? false);
+				return readPrefetched(
+					files,
+					() => new Map(names.map((name) => [name, this.getConfig(name, options)])),
+				).catch(reportFailure("Error getting configs", new Map(names.map((name) => [name, null]))));
+			},
+			getConfigChain: async (name) => {
+				const files = await this.prefetchConfigs([name], true);
+				return readPrefetched(files, () => this.getConfigChain(name)).catch(
+					reportFailure(`Error getting config '${name}'`, null),
+				);
+			},
+			saveConfig: (config, options) =>
+				whenUnlocked(() => this.saveConfig(config, options)).catch(
+					reportFailure(`Error saving config '${config.name}'`),
+				),
+			deleteConfig: (name, options) =>
+				whenUnlocked(() => this.deleteConfig(name, options)).catch(
+					reportFailure(`Error deleting config '${name}'`),
+				),
+			listDependentConfigs: async (name) => {
+				const files = await this.prefetchConfigs(await listConfigs(), true);
+				return this.withPrefetched(files, () => this.listDependentConfigs(name));
+			},
+			renameConfig: (oldName, newName) =>
+				whenUnlocked(() => this.renameConfig(oldName, newName)).catch(
+					reportFailure(`Error renaming config '${oldName}'`),
+				),
+			copyConfig: (sourceName, targetName, overrides) =>
+				whenUnlocked(() => this.copyConfig(sourceName, targetName, overrides)).catch(
+					reportFailure(`Error copying config '${sourceName}'`),
+				),
+			getCurrentConfig,
+			getCurrentConfigInfo,
+			pinConfig: async (name, dir) => this.pinConfig(name, dir),
+			unpinConfig: async (dir) => this.unpinConfig(dir),
+			getCurrentConfigData: async (options) => {
+				const currentName = await getCurrentConfig();
+				return currentName ? getConfig(currentName, options) : null;
+			},
+			setCurrentConfig: (name) =>
+				whenUnlocked(() => this.setCurrentConfig(name)).catch(
+					reportFailure(`Error setting current config '${name}'`),
+				),
+			configExists: async (name) =>
+				getConfigNameProblem(name) === null &&
+				access(this.getConfigFilePath(name)).then(
+					() => true,
+					() => false,
+				),
+			getConfigMetadata: async (name) => {
+				const filePath = this.getConfigFilePath(name);
+				const [stats, content] = await Promise.all([
+					stat(filePath).catch(() => null),
+					readFile(this.metadataFile, "utf-8").catch(() => null),
+				]);
+				if (!stats) {
+					return null;
+				}
+				return toConfigMetadata(parseMetadataFile(content)[this.getConfigKey(name)], stats.mtime);
+			},
+			validateConfig: async (data, name) => {
+				const parent = isPlainObject(data) ? data.extends : undefined;
+				const files =
+					typeof parent === "string" ? await this.prefetchConfigs([parent], true) : null;
+				return this.withPrefetched(files, () => this.validateConfig(data, name));
+			},
+			migrateConfigs: (options) => whenUnlocked(() => this.migrateConfigs(options)),
+			rekeySecrets: (newKey) => whenUnlocked(() => this.rekeySecrets(newKey)),
+			getConfigHistory: async (name) => {
+				const revisions = await readRevisions(this.historyDir, this.getConfigKey(name));
+				return revisions.reverse().map((revision) => this.decodeRevision(revision, name));
+			},
+			rollbackConfig: (name, revision) => whenUnlocked(() => this.rollbackConfig(name, revision)),
+			checkConfigDirectory: (options) => whenUnlocked(() => this.checkConfigDirectory(options)),
+		};
+	}
+}
+
+/**
+ * Creates a file-based configuration manager validated against a caller-supplied schema
+ * @template S - Schema type; the manager returns its parsed output type
+ * @param options - Schema, application name, storage directory and schema migrations
+ * @returns A configuration manager
+ * @example
+ * ```typescript
+ * const ExtendedConfigSchema = AppConfigSchema.extend({
+ *   apiUrl: z.url(),
+ *   timeout: z.number().positive().default(5000),
+ * });
+ * const manager = createConfigManager({ schema: ExtendedConfigSchema });
+ * const config = manager.getCurrentConfigData(); // typed, with defaults applied
+ * ```
+ */
+export function createConfigManager<S extends ConfigSchema = typeof AppConfigSchema>(
+	options: ConfigManagerOptions<S> = {},
+): ConfigManager<z.output<S>> {
+	const schema: ConfigSchema = options.schema ?? AppConfigSchema;
+	return new FileConfigManager({
+		schema: schema as z.ZodType<z.output<S>>,
+		appName: options.appName,
+		configDir: options.configDir,
+		schemaVersion: options.schemaVersion ?? INITIAL_SCHEMA_VERSION,
+		migrations: options.migrations ?? [],
+		secretKey: options.secretKey ?? getSecretKeySourceFromEnv(config.envPrefix),
+		historyLimit: options.historyLimit ?? DEFAULT_HISTORY_LIMIT,
+		watchDebounceMs: options.watchDebounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS,
+		pinFileName: options.pinFileName === undefined ? config.pinFileName : options.pinFileName,
+		cwd: options.cwd,
+	});
 }
 
-export const configManager = new FileConfigManager();
+// TEMPLATE: Pass your extended schema here to validate your custom properties
+export const configManager = createConfigManager({ schema: AppConfigSchema });
@@ -0,0 +1,177 @@
+import { ConfigMigrationError } from "./errors";
+import { isPlainObject } from "./keyPath";
+
+/**
+ * Key used to stamp stored configuration files with their schema version
+ */
+export const SCHEMA_VERSION_KEY = "schemaVersion";
+
+/**
+ * Schema version assumed for files written before version stamping existed
+ */
+export const INITIAL_SCHEMA_VERSION = 1;
+
+/**
+ * A single upgrade step between two consecutive schema versions
+ * @example
+ * ```typescript
+ * const renameUrl: ConfigMigration = {
+ *   from: 1,
+ *   to: 2,
+ *   description: "Rename url to apiUrl",
+ *   migrate: ({ url, ...rest }) => ({ ...rest, apiUrl: url }),
+ * };
+ * ```
+ */
+export interface ConfigMigration {
+	/** Version the migration upgrades from */
+	from: number;
+	/** Version the migration produces (must be `from + 1`) */
+	to: number;
+	/** Optional human readable summary shown by `config migrate` */
+	description?: string;
+	/**
+	 * Transforms stored data from the `from` shape to the `to` shape
+	 * The schema version stamp is removed before and re-applied after this call
+	 */
+	migrate(config: Record<string, unknown>): Record<string, unknown>;
+}
+
+/**
+ * Outcome of upgrading one stored configuration
+ */
+export interface MigratedConfigData {
+	/** Upgraded data, without the schema version stamp */
+	data: Record<string, unknown>;
+	/** Version found in the stored data */
+	fromVersion: number;
+	/** Migrations that were applied, in order */
+	applied: ConfigMigration[];
+}
+
+/**
+ * Checks that migrations form an ordered chain from the initial version up to the target
+ * @param migrations - Registered migrations
+ * @param targetVersion - Current schema version
+ * @throws Error if a step is missing, duplicated or skips a version
+ */
+export function assertValidMigrationChain(
+	migrations: readonly ConfigMigration[],
+	targetVersion: number,
+): void {
+	if (!Number.isInteger(targetVersion) || targetVersion < INITIAL_SCHEMA_VERSION) {
+		throw new Error(`Invalid schema version: ${targetVersion}`);
+	}
+
+	for (let version = INITIAL_SCHEMA_VERSION; version < targetVersion; version++) {
+		const steps = migrations.filter((migration) => migration.from === version);
+
+		if (steps.length !== 1) {
+			throw new Error(
+				steps.length === 0
+					? `Missing migration from schema version ${version}`
+					: `Duplicate migrations from schema version ${version}`,
+			);
+		}
+
+		if (steps[0]?.to !== version + 1) {
+			throw new Error(`Migration from schema version ${version} must target ${version + 1}`);
+		}
+	}
+
+	const beyondTarget = migrations.find((migration) => migration.to > targetVersion);
+	if (beyondTarget) {
+		throw new Error(
+			`Migration ${beyondTarget.from} -> ${beyondTarget.to} goes beyond schema version ${targetVersion}`,
+		);
+	}
+}
+
+/**
+ * Reads the schema version stamped in stored data
+ * @param data - Parsed file contents
+ * @returns The stamped version, or the initial version for unstamped files
+ * @throws ConfigMigrationError if the stamp is not a positive integer
+ */
+export function getSchemaVersion(data: Record<string, unknown>, configName?: string): number {
+	const version = data[SCHEMA_VERSION_KEY];
+
+	if (version === undefined) {
+		return INITIAL_SCHEMA_VERSION;
+	}
+
+	if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+		throw new ConfigMigrationError(
+			`invalid ${SCHEMA_VERSION_KEY} '${String(version)}'`,
+			INITIAL_SCHEMA_VERSION,
+			configName,
+		);
+	}
+
+	return version;
+}
+
+/**
+ * Upgrades stored data to the target schema version
+ * @param data - Parsed file contents, possibly stamped with a schema version
+ * @param migrations - Registered migrations
+ * @param targetVersion - Current schema version
+ * @param configName - Configuration name used in error messages
+ * @returns The upgraded data without the version stamp, and the migrations applied
+ * @throws ConfigMigrationError if the data is newer than supported or a migration fails
+ */
+export function migrateConfigData(
+	data: Record<string, unknown>,
+	migrations: readonly ConfigMigration[],
+	targetVersion: number,
+	configName?: string,
+): MigratedConfigData {
+	const fromVersion = getSchemaVersion(data, configName);
+
+	if (fromVersion > targetVersion) {
+		throw new ConfigMigrationError(
+			`schema version ${fromVersion} is newer than the supported version ${targetVersion}`,
+			fromVersion,
+			configName,
+		);
+	}
+
+	const { [SCHEMA_VERSION_KEY]: _version, ...unstamped } = data;
+	let current: Record<string, unknown> = unstamped;
+	const applied: ConfigMigration[] = [];
+
+	for (let version = fromVersion; version < targetVersion; version++) {
+		const migration = migrations.find((candidate) => candidate.from === version);
+
+		if (!migration) {
+			throw new ConfigMigrationError(
+				`no migration registered from schema version ${version}`,
+				fromVersion,
+				configName,
+			);
+		}
+
+		try {
+			current = migration.migrate(structuredClone(current));
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			throw new ConfigMigrationError(
+				`migration ${migration.from} -> ${migration.to} failed: ${errorMessage}`,
+				fromVersion,
+				configName,
+			);
+		}
+
+		if (!isPlainObject(current)) {
+			throw new ConfigMigrationError(
+				`migration ${migration.from} -> ${migration.to} did not return an object`,
+				fromVersion,
+				configName,
+			);
+		}
+
+		applied.push(migration);
+	}
+
+	return { data: current, fromVersion, applied };
+}
@@ -0,0 +1,97 @@
+/**
+ * Naming policy for configurations
+ * A configuration keeps the display name the user chose (spaces, unicode and mixed case are
+ * fine) and is stored under a slug derived from it, so names can never escape the
+ * configuration directory and names differing only by case or spacing map to the same file
+ */
+
+/** Longest accepted configuration name */
+export const MAX_CONFIG_NAME_LENGTH = 50;
+
+/**
+ * Slugs that cannot be used: the pointer file the manager keeps next to the configurations,
+ * and device names Windows refuses to create files for
+ */
+const RESERVED_SLUGS = new Set([
+	"current",
+	"con",
+	"prn",
+	"aux",
+	"nul",
+	...Array.from({ length: 9 }, (_, index) => `com${index + 1}`),
+	...Array.from({ length: 9 }, (_, index) => `lpt${index + 1}`),
+]);
+
+/**
+ * Checks whether a name holds characters with no place in it (C0 controls and DEL)
+ */
+function hasControlCharacters(name: string): boolean {
+	return [...name].some((char) => {
+		const code = char.codePointAt(0) ?? 0;
+		return code < 0x20 || code === 0x7f;
+	});
+}
+
+/**
+ * Derives the file slug for a configuration name
+ * The name is NFKC-normalized and lower-cased; runs of anything other than letters, digits,
+ * `_` and `-` become a single `-`, and leading or trailing `-` are dropped
+ * @param name - Display name
+ * @returns Slug used as the file name (empty if the name has no letters or digits)
+ * @example
+ * ```typescript
+ * toConfigSlug("My Staging (EU)"); // "my-staging-eu"
+ * ```
+ */
+export function toConfigSlug(name: string): string {
+	return name
+		.normalize("NFKC")
+		.toLowerCase()
+		.replace(/[^\p{L}\p{M}\p{N}_-]+/gu, "-")
+		.replace(/-{2,}/g, "-")
+		.replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Checks a configuration name against the naming policy
+ * @param name - Name to check
+ * @returns Description of the problem, or null if the name is acceptable
+ */
+export function getConfigNameProblem(name: string): string | null {
+	if (name.trim() === "") {
+		return "Configuration name is required";
+	}
+
+	if (name.length > MAX_CONFIG_NAME_LENGTH) {
+		return "Name too long";
+	}
+
+	if (hasControlCharacters(name)) {
+		return "Name must not contain control characters";
+	}
+
+	if (/[/\\]/.test(name)) {
+		return "Name must not contain slashes";
+	}
+
+	const slug = toConfigSlug(name);
+
+	if (!slug) {
+		return "Name must contain at least one letter or digit";
+	}
+
+	if (RESERVED_SLUGS.has(slug)) {
+		return `'${name}' is a reserved name`;
+	}
+
+	return null;
+}
+
+/**
+ * Checks whether a file base name is the canonical slug of a valid name
+ * @param baseName - File name without the `.json` extension
+ * @returns True if a configuration can be stored under that base name
+ */
+export function isConfigSlug(baseName: string): boolean {
+	return getConfigNameProblem(baseName) === null && toConfigSlug(baseName) === baseName;
+}
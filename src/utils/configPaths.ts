@@ -0,0 +1,118 @@
+import { cpSync, existsSync, mkdirSync, renameSync, rmdirSync, rmSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, isAbsolute, join, resolve } from "node:path";
+import { Logger } from "./Logger";
+
+/**
+ * Inputs used to locate the configuration directory
+ */
+export interface ConfigLocationOptions {
+	/** Application name the directory is named after */
+	appName: string;
+	/** Prefix of the `<PREFIX>_HOME` environment variable */
+	envPrefix: string;
+	/** Environment to read `<PREFIX>_HOME` and `XDG_CONFIG_HOME` from (defaults to process.env) */
+	env?: NodeJS.ProcessEnv;
+	/** Platform whose conventions are followed (defaults to process.platform) */
+	platform?: NodeJS.Platform;
+	/** User home directory (defaults to os.homedir()) */
+	homeDir?: string;
+}
+
+/**
+ * Where configurations are stored by default
+ */
+export interface ConfigLocation {
+	/** Directory holding the configuration files */
+	configDir: string;
+	/** Directory used by earlier versions that should be moved to `configDir`, if any */
+	legacyDir: string | null;
+}
+
+/**
+ * Gets the name of the application's directory: the application name in kebab case
+ */
+function toAppDirName(appName: string): string {
+	return appName.toLowerCase().replace(/\s+/g, "-");
+}
+
+/**
+ * Locates the default configuration directory
+ * In order of precedence: `<PREFIX>_HOME/configs`, then on Linux
+ * `$XDG_CONFIG_HOME/<app-name>/configs` (`~/.config/<app-name>/configs` when unset),
+ * and `~/.<app-name>/configs` on other platforms
+ * @param options - Application name, environment and platform
+ * @returns The configuration directory and the legacy directory to migrate from
+ */
+export function getDefaultConfigLocation(options: ConfigLocationOptions): ConfigLocation {
+	const env = options.env ?? process.env;
+	const platform = options.platform ?? process.platform;
+	const homeDir = options.homeDir ?? homedir();
+	const appDirName = toAppDirName(options.appName);
+	const legacyDir = join(homeDir, `.${appDirName}`, "configs");
+
+	// An explicit home is meant to isolate the CLI, so nothing is migrated into it
+	const appHome = env[`${options.envPrefix}_HOME`];
+	if (appHome) {
+		return { configDir: join(resolve(appHome), "configs"), legacyDir: null };
+	}
+
+	if (platform !== "linux") {
+		return { configDir: legacyDir, legacyDir: null };
+	}
+
+	// The specification requires an absolute path and says to ignore anything else
+	const xdgConfigHome = env.XDG_CONFIG_HOME;
+	const configHome =
+		xdgConfigHome && isAbsolute(xdgConfigHome) ? xdgConfigHome : join(homeDir, ".config");
+
+	return { configDir: join(configHome, appDirName, "configs"), legacyDir };
+}
+
+/**
+ * Moves the configuration directory of an earlier version to its new location, with the
+ * active pointer, history, backups and secret key it holds
+ * Nothing is moved if there is no legacy directory or the new one already exists
+ * @param legacyDir - Directory used by earlier versions
+ * @param configDir - Directory to move it to
+ * @returns True if the directory was moved
+ * @throws Error if the directory cannot be moved
+ */
+export function migrateLegacyConfigDir(legacyDir: string, configDir: string): boolean {
+	if (
+		resolve(legacyDir) === resolve(configDir) ||
+		!existsSync(legacyDir) ||
+		existsSync(configDir)
+	) {
+		return false;
+	}
+
+	mkdirSync(dirname(configDir), { recursive: true, mode: 0o700 });
+
+	try {
+		renameSync(legacyDir, configDir);
+	} catch (error) {
+		// Directories cannot be renamed across file systems
+		if ((error as NodeJS.ErrnoException).code !== "EXDEV") {
+			throw error;
+		}
+		try {
+			cpSync(legacyDir, configDir, { recursive: true, preserveTimestamps: true });
+		} catch (copyError) {
+			// A partial copy would stop the migration from being retried
+			rmSync(configDir, { recursive: true, force: true });
+			throw copyError;
+		}
+		rmSync(legacyDir, { recursive: true, force: true });
+	}
+
+	try {
+		// Remove the application directory too if the configurations were all it held
+		rmdirSync(dirname(legacyDir));
+	} catch {
+		// It still holds other files
+	}
+
+	Logger.info(`Moved configurations from ${legacyDir} to ${configDir}`);
+	return true;
+}
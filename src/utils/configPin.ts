@@ -0,0 +1,96 @@
+import { readFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+
+/**
+ * A pin file naming the configuration to use inside a directory tree
+ */
+export interface ConfigPin {
+	/** Configuration named by the file, as written */
+	name: string;
+	/** Absolute path of the pin file */
+	file: string;
+}
+
+/**
+ * Reads the configuration name out of a pin file's contents
+ * Like `.nvmrc`, the file holds just the name; only its first non-empty line is read
+ * @param content - Contents of the pin file
+ * @returns The pinned name, or null if the file is empty
+ */
+export function parsePinFile(content: string): string | null {
+	const line = content.split(/\r?\n/).find((candidate) => candidate.trim() !== "");
+	return line?.trim() ?? null;
+}
+
+/**
+ * Lists the paths a pin file may have, from the start directory up to the root
+ */
+function listPinFileCandidates(startDir: string, fileName: string): string[] {
+	const candidates: string[] = [];
+	let current = resolve(startDir);
+
+	for (;;) {
+		candidates.push(join(current, fileName));
+		const parent = dirname(current);
+		if (parent === current) {
+			return candidates;
+		}
+		current = parent;
+	}
+}
+
+/**
+ * Treats a pin file that does not exist as empty
+ */
+function ignoreMissing(error: unknown): null {
+	const { code } = error as NodeJS.ErrnoException;
+	if (code === "ENOENT" || code === "ENOTDIR") {
+		return null;
+	}
+	throw error;
+}
+
+/**
+ * Finds the nearest pin file by walking up from a directory
+ * Empty pin files are skipped, so an empty file does not hide one further up
+ * @param startDir - Directory to start from
+ * @param fileName - Name of the pin file
+ * @returns The nearest pin, or null if none was found
+ * @throws Error if a pin file exists but cannot be read
+ */
+export function findConfigPin(startDir: string, fileName: string): ConfigPin | null {
+	for (const file of listPinFileCandidates(startDir, fileName)) {
+		let content: string | null;
+		try {
+			content = readFileSync(file, "utf-8");
+		} catch (error) {
+			content = ignoreMissing(error);
+		}
+
+		const name = content === null ? null : parsePinFile(content);
+		if (name) {
+			return { name, file };
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Asynchronous variant of `findConfigPin`
+ */
+export async function findConfigPinAsync(
+	startDir: string,
+	fileName: string,
+): Promise<ConfigPin | null> {
+	for (const file of listPinFileCandidates(startDir, fileName)) {
+		const content = await readFile(file, "utf-8").catch(ignoreMissing);
+		const name = content === null ? null : parsePinFile(content);
+		if (name) {
+			return { name, file };
+		}
+	}
+
+	return null;
+}
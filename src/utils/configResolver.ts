@@ -0,0 +1,253 @@
+import { existsSync } from "node:fs";
+import { access, readFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import config from "./config";
+import type { AppConfig, ConfigManager } from "./configManager";
+import { toConfigSlug } from "./configNames";
+import { deepMerge, flattenObject, getValueAtPath, isPlainObject, setValueAtPath } from "./keyPath";
+import {
+	coerceValue,
+	getSchemaAtPath,
+	getSchemaDefaults,
+	getSchemaLeafPaths,
+} from "./schemaIntrospection";
+
+/**
+ * Configuration layers, from lowest to highest precedence
+ */
+export type ConfigLayer = "default" | "stored" | "project" | "env" | "flag";
+
+/**
+ * Where an effective value came from
+ */
+export interface ConfigOrigin {
+	/** Layer that supplied the value */
+	layer: ConfigLayer;
+	/** Specific source within the layer (file path, variable name, flag) */
+	source: string;
+}
+
+/**
+ * Options for resolving the effective configuration
+ */
+export interface ResolveConfigOptions {
+	/** Built-in defaults merged on top of the schema's own `.default()` values */
+	defaults?: Record<string, unknown>;
+	/** Values given as command line flags, keyed by dotted path */
+	flags?: Record<string, unknown>;
+	/** Directory the project rc file lookup starts from (defaults to process.cwd()) */
+	cwd?: string;
+	/** Environment to read `<PREFIX>_VAR_*` variables from (defaults to process.env) */
+	env?: NodeJS.ProcessEnv;
+	/** Environment variable prefix (defaults to the CLI's prefix) */
+	envPrefix?: string;
+	/** Name of the project rc file (defaults to the CLI's rc file name) */
+	rcFileName?: string;
+}
+
+/**
+ * The merged configuration and the origin of each of its values
+ */
+export interface ResolvedConfig {
+	/** Effective values after merging every layer */
+	values: Record<string, unknown>;
+	/** Origin of every leaf value, keyed by dotted path */
+	origins: Map<string, ConfigOrigin>;
+}
+
+/**
+ * Converts a camelCase path segment to UPPER_SNAKE_CASE
+ */
+function toEnvSegment(segment: string): string {
+	return segment
+		.replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+		.replace(/[^A-Za-z0-9]+/g, "_")
+		.toUpperCase();
+}
+
+/**
+ * Gets the environment variable name for a dotted key path
+ * Values live below `<PREFIX>_VAR_` so that a field such as `home` or `config` cannot be
+ * mistaken for the CLI's own `<PREFIX>_HOME` or `<PREFIX>_CONFIG`. Nested segments are
+ * separated by a double underscore: `features.enableCache` → `DEMO_CLI_VAR_FEATURES__ENABLE_CACHE`
+ * @param keyPath - Dotted key path
+ * @param envPrefix - Environment variable prefix
+ * @returns Environment variable name
+ */
+export function toEnvVarName(keyPath: string, envPrefix: string = config.envPrefix): string {
+	return `${envPrefix}_VAR_${keyPath.split(".").map(toEnvSegment).join("__")}`;
+}
+
+/**
+ * Finds the nearest project rc file by walking up from a directory
+ * @param startDir - Directory to start from
+ * @param fileName - Name of the rc file
+ * @returns Absolute path of the file, or null if none was found
+ */
+export function findProjectFile(startDir: string, fileName: string): string | null {
+	return listProjectFileCandidates(startDir, fileName).find((file) => existsSync(file)) ?? null;
+}
+
+/**
+ * Asynchronous variant of `findProjectFile`
+ */
+export async function findProjectFileAsync(
+	startDir: string,
+	fileName: string,
+): Promise<string | null> {
+	for (const file of listProjectFileCandidates(startDir, fileName)) {
+		if (
+			await access(file).then(
+				() => true,
+				() => false,
+			)
+		) {
+			return file;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Lists where a project rc file may be, from a directory up to the file system root
+ */
+function listProjectFileCandidates(startDir: string, fileName: string): string[] {
+	const candidates: string[] = [];
+	let current = resolve(startDir);
+
+	for (;;) {
+		candidates.push(join(current, fileName));
+		const parent = dirname(current);
+		if (parent === current) {
+			return candidates;
+		}
+		current = parent;
+	}
+}
+
+/**
+ * Reads a project rc file, which must contain a JSON object
+ */
+async function readProjectFile(filePath: string): Promise<Record<string, unknown>> {
+	const content = await readFile(filePath, "utf-8");
+	let parsed: unknown;
+
+	try {
+		parsed = JSON.parse(content);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		throw new Error(`Invalid JSON in ${filePath}: ${errorMessage}`);
+	}
+
+	if (!isPlainObject(parsed)) {
+		throw new Error(`Expected a JSON object in ${filePath}`);
+	}
+
+	return parsed;
+}
+
+/**
+ * Merges a layer into the resolved configuration, recording the origin of each value
+ */
+function applyLayer(
+	resolved: ResolvedConfig,
+	layerValues: Record<string, unknown>,
+	origin: ConfigOrigin | ((path: string) => ConfigOrigin),
+): void {
+	resolved.values = deepMerge(resolved.values, layerValues);
+
+	for (const path of flattenObject(layerValues).keys()) {
+		// A leaf replacing an object (or vice versa) invalidates origins below/above it
+		for (const existing of [...resolved.origins.keys()]) {
+			if (existing.startsWith(`${path}.`) || path.startsWith(`${existing}.`)) {
+				resolved.origins.delete(existing);
+			}
+		}
+		resolved.origins.set(path, typeof origin === "function" ? origin(path) : origin);
+	}
+}
+
+/**
+ * Resolves the effective configuration by merging, in increasing precedence:
+ * schema and built-in defaults, the configurations the active one extends, the active stored
+ * configuration, the nearest project rc file, `<PREFIX>_VAR_*` environment variables and command
+ * line flags
+ * Files are read through the manager's promise-based API, so the lock is waited for without
+ * blocking the event loop
+ * @param manager - Configuration manager providing the schema and the active configuration
+ * @param options - Layer inputs
+ * @returns Merged values and the origin of each value
+ * @throws Error if the project rc file is not valid JSON or an env value has the wrong type
+ */
+export async function resolveConfig<T extends AppConfig>(
+	manager: ConfigManager<T>,
+	options: ResolveConfigOptions = {},
+): Promise<ResolvedConfig> {
+	const schema = manager.getSchema();
+	const envPrefix = options.envPrefix ?? config.envPrefix;
+	const env = options.env ?? process.env;
+	const resolved: ResolvedConfig = { values: {}, origins: new Map() };
+
+	applyLayer(resolved, getSchemaDefaults(schema), { layer: "default", source: "schema" });
+	applyLayer(resolved, options.defaults ?? {}, { layer: "default", source: "built-in" });
+
+	const currentName = await manager.promises.getCurrentConfig();
+	const chain = currentName ? await manager.promises.getConfigChain(currentName) : null;
+	// Expanded values only for the fields the chain sets: schema defaults filled in on
+	// parsing stay in the default layer
+	const expanded = currentName && chain ? await manager.promises.getConfig(currentName) : null;
+	if (chain && expanded) {
+		for (const stored of chain) {
+			const layerValues: Record<string, unknown> = {};
+			for (const path of flattenObject(stored).keys()) {
+				setValueAtPath(layerValues, path, getValueAtPath(expanded, path));
+			}
+			applyLayer(resolved, layerValues, {
+				layer: "stored",
+				source: join(manager.getConfigDir(), `${toConfigSlug(stored.name)}.json`),
+			});
+		}
+	}
+
+	const projectFile = await findProjectFileAsync(
+		options.cwd ?? process.cwd(),
+		options.rcFileName ?? config.rcFileName,
+	);
+	if (projectFile) {
+		applyLayer(resolved, await readProjectFile(projectFile), {
+			layer: "project",
+			source: projectFile,
+		});
+	}
+
+	// Only variables naming a field of the schema are considered
+	const envValues: Record<string, unknown> = {};
+	for (const path of getSchemaLeafPaths(schema)) {
+		const raw = env[toEnvVarName(path, envPrefix)];
+		if (raw !== undefined) {
+			try {
+				setValueAtPath(envValues, path, coerceValue(getSchemaAtPath(schema, path), raw));
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				throw new Error(`${toEnvVarName(path, envPrefix)}: ${errorMessage}`);
+			}
+		}
+	}
+	applyLayer(resolved, envValues, (path) => ({
+		layer: "env",
+		source: toEnvVarName(path, envPrefix),
+	}));
+
+	const flags = options.flags ?? {};
+	const flagValues: Record<string, unknown> = {};
+	for (const [path, value] of Object.entries(flags)) {
+		setValueAtPath(flagValues, path, value);
+	}
+	applyLayer(resolved, flagValues, (path) => {
+		const flag = Object.keys(flags).find((key) => path === key || path.startsWith(`${key}.`));
+		return { layer: "flag", source: `--set ${flag ?? path}` };
+	});
+
+	return resolved;
+}
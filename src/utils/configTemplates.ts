@@ -0,0 +1,226 @@
+import { readdirSync, readFileSync, realpathSync } from "node:fs";
+import { dirname, extname, join } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { ConfigTemplateError } from "./errors";
+import { flattenObject, getValueAtPath, splitKeyPath, unsetValueAtPath } from "./keyPath";
+import { Logger } from "./Logger";
+
+/** File extensions templates can be written in */
+export const TEMPLATE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+/**
+ * Where a template was found
+ */
+export type ConfigTemplateSource = "built-in" | "user";
+
+/**
+ * A directory templates are loaded from
+ */
+export interface TemplateDirectory {
+	path: string;
+	source: ConfigTemplateSource;
+}
+
+/**
+ * A preset used by `config create --template` to prefill a new configuration
+ */
+export interface ConfigTemplate {
+	/** Template name: the file name without its extension */
+	name: string;
+	/** What the template is for */
+	description?: string;
+	/** Values the new configuration starts with; blank values are left out */
+	values: Record<string, unknown>;
+	/**
+	 * Dotted paths the user is asked for when creating a configuration: values the template
+	 * leaves blank (null or an empty string) and the ones it lists as `required`
+	 */
+	promptPaths: string[];
+	/** Whether the template ships with the CLI or was added by the user */
+	source: ConfigTemplateSource;
+	/** File the template was read from */
+	filePath: string;
+}
+
+/**
+ * Shape of a template file
+ */
+const ConfigTemplateFileSchema = z.object({
+	description: z.string().optional(),
+	values: z.record(z.string(), z.unknown()).default({}),
+	required: z.array(z.string()).default([]),
+});
+
+/**
+ * Gets the directory holding the templates shipped with the CLI
+ */
+export function getBuiltInTemplatesDir(): string {
+	// `__dirname` only exists in the CommonJS build; otherwise start from the entry script,
+	// which lives next to this directory (`src/index.ts` or `dist/index.js`)
+	const sourceDir =
+		typeof __dirname === "undefined"
+			? dirname(realpathSync(process.argv[1] ?? "."))
+			: dirname(__dirname);
+	return join(sourceDir, "../templates");
+}
+
+/**
+ * Checks whether a value counts as left blank by a template
+ */
+function isBlank(value: unknown): boolean {
+	return value === null || value === "";
+}
+
+/**
+ * Parses the contents of a template file
+ * @param name - Template name used in error messages
+ * @param content - File contents, as JSON or YAML
+ * @param format - File extension selecting the parser
+ * @returns The template values and the paths to prompt for
+ * @throws ConfigTemplateError if the file cannot be parsed or has an unexpected shape
+ */
+export function parseTemplate(
+	name: string,
+	content: string,
+	format: string,
+): Pick<ConfigTemplate, "description" | "values" | "promptPaths"> {
+	let parsed: unknown;
+
+	try {
+		parsed = format === ".json" ? JSON.parse(content) : parseYaml(content);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		throw new ConfigTemplateError(name, errorMessage);
+	}
+
+	const result = ConfigTemplateFileSchema.safeParse(parsed ?? {});
+	if (!result.success) {
+		const details = result.error.issues.map(
+			(issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+		);
+		throw new ConfigTemplateError(name, details.join("; "));
+	}
+
+	const { description, values, required } = result.data;
+	if (values.name !== undefined) {
+		throw new ConfigTemplateError(name, "'name' is given when the configuration is created");
+	}
+	for (const path of required) {
+		try {
+			splitKeyPath(path);
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			throw new ConfigTemplateError(name, `required: ${errorMessage}`);
+		}
+	}
+
+	const blankPaths = [...flattenObject(values)]
+		.filter(([, value]) => isBlank(value))
+		.map(([path]) => path);
+	const prefilled = structuredClone(values);
+	for (const path of blankPaths) {
+		unsetValueAtPath(prefilled, path);
+	}
+
+	return {
+		...(description === undefined ? {} : { description }),
+		values: prefilled,
+		promptPaths: [...new Set([...blankPaths, ...required])],
+	};
+}
+
+/**
+ * Lists the template files of a directory
+ */
+function listTemplateFiles(dir: string): string[] {
+	try {
+		return readdirSync(dir)
+			.filter((file) => TEMPLATE_EXTENSIONS.includes(extname(file)))
+			.sort();
+	} catch {
+		// Directories that do not exist simply hold no templates
+		return [];
+	}
+}
+
+/**
+ * Reads a template file
+ * @throws ConfigTemplateError if the file cannot be read or parsed
+ */
+function readTemplate(directory: TemplateDirectory, file: string): ConfigTemplate {
+	const extension = extname(file);
+	const name = file.slice(0, -extension.length);
+	const filePath = join(directory.path, file);
+	let content: string;
+
+	try {
+		content = readFileSync(filePath, "utf-8");
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		throw new ConfigTemplateError(name, errorMessage);
+	}
+
+	return { name, ...parseTemplate(name, content, extension), source: directory.source, filePath };
+}
+
+/**
+ * Lists the templates of every directory
+ * A template overrides one with the same name from an earlier directory; unreadable templates
+ * are logged and skipped
+ * @param directories - Directories to search, from lowest to highest precedence
+ * @returns Templates sorted by name
+ */
+export function listTemplates(directories: TemplateDirectory[]): ConfigTemplate[] {
+	const templates = new Map<string, ConfigTemplate>();
+
+	for (const directory of directories) {
+		for (const file of listTemplateFiles(directory.path)) {
+			try {
+				const template = readTemplate(directory, file);
+				templates.set(template.name, template);
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				Logger.warn(`Skipping template ${join(directory.path, file)}:`, errorMessage);
+			}
+		}
+	}
+
+	return [...templates.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Loads a template by name
+ * @param name - Template name
+ * @param directories - Directories to search, from lowest to highest precedence
+ * @returns The template, or null if no directory holds one with that name
+ * @throws ConfigTemplateError if the template cannot be read or parsed
+ */
+export function loadTemplate(
+	name: string,
+	directories: TemplateDirectory[],
+): ConfigTemplate | null {
+	for (const directory of [...directories].reverse()) {
+		const file = listTemplateFiles(directory.path).find(
+			(candidate) => candidate.slice(0, -extname(candidate).length) === name,
+		);
+		if (file) {
+			return readTemplate(directory, file);
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Lists the values a template leaves to the user that were not given on the command line
+ * @param template - Template used to create the configuration
+ * @param given - Values given explicitly for the new configuration
+ * @returns Dotted paths that still need a value
+ */
+export function getMissingTemplatePaths(
+	template: Pick<ConfigTemplate, "promptPaths">,
+	given: Record<string, unknown>,
+): string[] {
+	return template.promptPaths.filter((path) => getValueAtPath(given, path) === undefined);
+}
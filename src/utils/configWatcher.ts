@@ -0,0 +1,155 @@
+import { type FSWatcher, readdirSync, readFileSync, watch } from "node:fs";
+import { join } from "node:path";
+import { isConfigSlug } from "./configNames";
+import { Logger } from "./Logger";
+
+/**
+ * A change to the configuration directory, as reported by `ConfigDirectoryWatcher`
+ */
+export type ConfigWatchEvent =
+	| { type: "change"; name: string }
+	| { type: "delete"; name: string }
+	| { type: "switch"; name: string | null; previous: string | null };
+
+/**
+ * Options for watching a configuration directory
+ */
+export interface ConfigWatcherOptions {
+	/** Directory holding the configuration files */
+	configDir: string;
+	/** File holding the active configuration pointer, relative to the directory */
+	currentFile: string;
+	/** Quiet period after the last file system event before changes are reported */
+	debounceMs: number;
+	/** Reads the persisted active configuration */
+	readCurrent: () => string | null;
+	/** Receives the changes found after each quiet period, in file name order */
+	onEvents: (events: ConfigWatchEvent[]) => void;
+}
+
+/**
+ * Watches a configuration directory with `fs.watch` and reports which configurations changed
+ * File system events are coalesced: after `debounceMs` without events the touched files are
+ * compared with their last known contents, so atomic writes (a temporary file renamed over
+ * the target) and writes that leave the contents unchanged produce at most one event
+ */
+export class ConfigDirectoryWatcher {
+	private watcher: FSWatcher | null = null;
+	private timer: NodeJS.Timeout | null = null;
+	/** Files touched since the last flush; null when every file must be rescanned */
+	private pending: Set<string> | null = new Set();
+	private readonly contents = new Map<string, string>();
+	private current: string | null = null;
+
+	constructor(private readonly options: ConfigWatcherOptions) {}
+
+	/**
+	 * Starts watching, recording the current state of the directory as the baseline
+	 */
+	start(): void {
+		if (this.watcher) {
+			return;
+		}
+
+		for (const file of this.listConfigFiles()) {
+			const content = this.readContent(file);
+			if (content !== null) {
+				this.contents.set(file, content);
+			}
+		}
+		this.current = this.options.readCurrent();
+
+		this.watcher = watch(this.options.configDir, (_eventType, fileName) => {
+			this.schedule(fileName);
+		});
+		this.watcher.on("error", (error) => {
+			Logger.warn(`Stopped watching ${this.options.configDir}:`, error.message);
+			this.close();
+		});
+	}
+
+	/**
+	 * Stops watching; pending changes are dropped
+	 */
+	close(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+		this.watcher?.close();
+		this.watcher = null;
+		this.pending = new Set();
+		this.contents.clear();
+	}
+
+	private schedule(fileName: string | null): void {
+		if (fileName === null) {
+			// Some platforms do not report which file changed
+			this.pending = null;
+		} else {
+			this.pending?.add(fileName);
+		}
+
+		if (this.timer) {
+			clearTimeout(this.timer);
+		}
+		this.timer = setTimeout(() => this.flush(), this.options.debounceMs);
+	}
+
+	private flush(): void {
+		const rescan = this.pending === null;
+		const touched = this.pending ?? new Set([...this.contents.keys(), ...this.listConfigFiles()]);
+		this.timer = null;
+		this.pending = new Set();
+
+		const events: ConfigWatchEvent[] = [];
+
+		for (const file of [...touched].sort()) {
+			if (!file.endsWith(".json") || !isConfigSlug(file.slice(0, -".json".length))) {
+				continue;
+			}
+
+			const name = file.slice(0, -".json".length);
+			const previous = this.contents.get(file);
+			const content = this.readContent(file);
+
+			if (content === null) {
+				if (previous !== undefined) {
+					this.contents.delete(file);
+					events.push({ type: "delete", name });
+				}
+			} else if (content !== previous) {
+				this.contents.set(file, content);
+				events.push({ type: "change", name });
+			}
+		}
+
+		if (rescan || touched.has(this.options.currentFile)) {
+			const current = this.options.readCurrent();
+			if (current !== this.current) {
+				events.push({ type: "switch", name: current, previous: this.current });
+				this.current = current;
+			}
+		}
+
+		if (events.length > 0) {
+			this.options.onEvents(events);
+		}
+	}
+
+	private listConfigFiles(): string[] {
+		try {
+			return readdirSync(this.options.configDir).filter((file) => file.endsWith(".json"));
+		} catch {
+			return [];
+		}
+	}
+
+	private readContent(file: string): string | null {
+		try {
+			return readFileSync(join(this.options.configDir, file), "utf-8");
+		} catch {
+			return null;
+		}
+	}
+}
@@ -0,0 +1,164 @@
+import type { z } from "zod";
+
+/**
+ * A single validation problem, located by its dotted field path
+ */
+export interface ConfigIssue {
+	/** Dotted path of the offending field (empty for the root object) */
+	path: string;
+	/** Human readable description of the problem */
+	message: string;
+}
+
+/**
+ * Base class for errors raised by the configuration system
+ */
+export class ConfigError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = new.target.name;
+	}
+}
+
+/**
+ * Raised when configuration data does not match the configuration schema
+ */
+export class ConfigValidationError extends ConfigError {
+	/** Name of the configuration that failed validation, if known */
+	readonly configName: string | undefined;
+	/** Every field that failed validation */
+	readonly issues: ConfigIssue[];
+
+	constructor(issues: ConfigIssue[], configName?: string) {
+		const subject = configName ? `Invalid configuration '${configName}'` : "Invalid configuration";
+		const details = issues.map((issue) => `${issue.path || "(root)"}: ${issue.message}`);
+		super(`${subject}: ${details.join("; ")}`);
+		this.configName = configName;
+		this.issues = issues;
+	}
+
+	/**
+	 * Builds a validation error from a Zod error
+	 * @param error - Error returned by `safeParse`
+	 * @param configName - Name of the configuration being validated
+	 * @returns The corresponding ConfigValidationError
+	 */
+	static fromZodError(error: z.ZodError, configName?: string): ConfigValidationError {
+		const issues = error.issues.map((issue) => ({
+			path: issue.path.map(String).join("."),
+			message: issue.message,
+		}));
+		return new ConfigValidationError(issues, configName);
+	}
+}
+
+/**
+ * Raised when a stored configuration cannot be upgraded to the current schema version
+ */
+export class ConfigMigrationError extends ConfigError {
+	/** Name of the configuration being migrated, if known */
+	readonly configName: string | undefined;
+	/** Schema version found in the stored file */
+	readonly fromVersion: number;
+
+	constructor(message: string, fromVersion: number, configName?: string) {
+		super(configName ? `Cannot migrate configuration '${configName}': ${message}` : message);
+		this.configName = configName;
+		this.fromVersion = fromVersion;
+	}
+}
+
+/**
+ * Raised when the configuration directory lock cannot be acquired in time
+ */
+export class ConfigLockError extends ConfigError {
+	/** Path of the lock file */
+	readonly lockPath: string;
+
+	constructor(lockPath: string, timeoutMs: number) {
+		super(`Timed out after ${timeoutMs}ms waiting for lock '${lockPath}'`);
+		this.lockPath = lockPath;
+	}
+}
+
+/**
+ * Raised when a stored configuration no longer matches the one a change was based on
+ */
+export class ConfigConflictError extends ConfigError {
+	/** Name of the configuration that was changed */
+	readonly configName: string;
+
+	constructor(configName: string) {
+		super(`Configuration '${configName}' was changed since it was read`);
+		this.configName = configName;
+	}
+}
+
+/**
+ * Raised when secret fields cannot be encrypted or decrypted
+ */
+export class ConfigSecretError extends ConfigError {}
+
+/**
+ * Raised when a configuration name violates the naming policy
+ */
+export class InvalidConfigNameError extends ConfigError {
+	/** The rejected name */
+	readonly configName: string;
+
+	constructor(configName: string, reason: string) {
+		super(`Invalid configuration name '${configName}': ${reason}`);
+		this.configName = configName;
+	}
+}
+
+/**
+ * Raised when a `${...}` placeholder in a configuration value cannot be resolved
+ */
+export class ConfigInterpolationError extends ConfigError {
+	/** Name of the configuration holding the placeholder */
+	readonly configName: string;
+	/** Dotted path of the value holding the placeholder */
+	readonly keyPath: string;
+
+	constructor(configName: string, keyPath: string, message: string) {
+		super(`Cannot resolve '${keyPath}' in configuration '${configName}': ${message}`);
+		this.configName = configName;
+		this.keyPath = keyPath;
+	}
+}
+
+/**
+ * Raised when the configurations a configuration extends cannot be resolved
+ */
+export class ConfigInheritanceError extends ConfigError {
+	/** Name of the configuration whose parents could not be resolved */
+	readonly configName: string;
+
+	constructor(configName: string, reason: string) {
+		super(`Cannot resolve what configuration '${configName}' extends: ${reason}`);
+		this.configName = configName;
+	}
+}
+
+/**
+ * Raised when a configuration template cannot be read or is malformed
+ */
+export class ConfigTemplateError extends ConfigError {
+	/** Name of the template */
+	readonly templateName: string;
+
+	constructor(templateName: string, reason: string) {
+		super(`Invalid template '${templateName}': ${reason}`);
+		this.templateName = templateName;
+	}
+}
+
+/**
+ * Raised when a configuration bundle cannot be read or is malformed
+ */
+export class ConfigBundleError extends ConfigError {
+	constructor(reason: string) {
+		super(`Invalid configuration bundle: ${reason}`);
+	}
+}
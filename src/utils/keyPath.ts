@@ -0,0 +1,193 @@
+/**
+ * Helpers for reading and writing nested configuration values using dotted key paths
+ * (e.g. `features.enableCache`)
+ */
+
+type PlainObject = Record<string, unknown>;
+
+/** Segments that would reach into the object prototype chain */
+const FORBIDDEN_SEGMENTS = new Set(["__proto__", "prototype", "constructor"]);
+
+function hasOwn(target: PlainObject, key: string): boolean {
+	return Object.getOwnPropertyDescriptor(target, key) !== undefined;
+}
+
+/**
+ * Checks whether a value is a plain (non-array) object
+ * @param value - Value to check
+ * @returns True if the value is a plain object
+ */
+export function isPlainObject(value: unknown): value is PlainObject {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Splits a dotted key path into its segments
+ * @param keyPath - Dotted key path such as `features.enableCache`
+ * @returns Array of path segments
+ * @throws Error if the path is empty or contains empty or reserved segments
+ */
+export function splitKeyPath(keyPath: string): string[] {
+	const segments = keyPath.split(".").map((segment) => segment.trim());
+
+	if (segments.some((segment) => segment === "" || FORBIDDEN_SEGMENTS.has(segment))) {
+		throw new Error(`Invalid key path: '${keyPath}'`);
+	}
+
+	return segments;
+}
+
+/**
+ * Parses a `key=value` assignment as given to `--set`
+ * @param assignment - Assignment string
+ * @returns The key path and the raw (string) value
+ * @throws Error if the assignment has no `=` or an empty key
+ */
+export function parseAssignment(assignment: string): { key: string; value: string } {
+	const separatorIndex = assignment.indexOf("=");
+
+	if (separatorIndex <= 0) {
+		throw new Error(`Invalid assignment '${assignment}', expected key=value`);
+	}
+
+	const key = assignment.slice(0, separatorIndex).trim();
+	splitKeyPath(key);
+
+	return { key, value: assignment.slice(separatorIndex + 1) };
+}
+
+/**
+ * Reads the value at a dotted key path
+ * @param target - Object to read from
+ * @param keyPath - Dotted key path
+ * @returns The value, or undefined if any segment is missing
+ */
+export function getValueAtPath(target: unknown, keyPath: string): unknown {
+	let current: unknown = target;
+
+	for (const segment of splitKeyPath(keyPath)) {
+		if (!isPlainObject(current) || !hasOwn(current, segment)) {
+			return undefined;
+		}
+		current = current[segment];
+	}
+
+	return current;
+}
+
+/**
+ * Writes a value at a dotted key path, creating intermediate objects as needed
+ * @param target - Object to modify in place
+ * @param keyPath - Dotted key path
+ * @param value - Value to write
+ * @throws Error if an intermediate segment holds a non-object value
+ */
+export function setValueAtPath(target: PlainObject, keyPath: string, value: unknown): void {
+	const segments = splitKeyPath(keyPath);
+	const lastSegment = segments.pop() as string;
+	let current = target;
+
+	for (const segment of segments) {
+		const next = current[segment];
+
+		if (next === undefined) {
+			const created: PlainObject = {};
+			current[segment] = created;
+			current = created;
+		} else if (isPlainObject(next)) {
+			current = next;
+		} else {
+			throw new Error(`Cannot set '${keyPath}': '${segment}' is not an object`);
+		}
+	}
+
+	current[lastSegment] = value;
+}
+
+/**
+ * Removes the value at a dotted key path
+ * Parent objects left empty by the removal are removed as well
+ * @param target - Object to modify in place
+ * @param keyPath - Dotted key path
+ * @returns True if a value was removed
+ */
+export function unsetValueAtPath(target: PlainObject, keyPath: string): boolean {
+	const segments = splitKeyPath(keyPath);
+	const parents: PlainObject[] = [];
+	let current = target;
+
+	for (const segment of segments.slice(0, -1)) {
+		const next = current[segment];
+		if (!isPlainObject(next)) {
+			return false;
+		}
+		parents.push(current);
+		current = next;
+	}
+
+	const lastSegment = segments[segments.length - 1] as string;
+	if (!hasOwn(current, lastSegment)) {
+		return false;
+	}
+
+	delete current[lastSegment];
+
+	// Prune parents that became empty, deepest first
+	for (let index = parents.length - 1; index >= 0; index--) {
+		const child = current;
+		current = parents[index] as PlainObject;
+		if (Object.keys(child).length > 0) {
+			break;
+		}
+		delete current[segments[index] as string];
+	}
+
+	return true;
+}
+
+/**
+ * Flattens nested objects into dotted key paths
+ * Arrays and other non-object values are treated as leaves
+ * @param source - Object to flatten
+ * @param prefix - Path prefix for nested calls
+ * @returns Map of dotted key path to leaf value, in insertion order
+ */
+export function flattenObject(source: PlainObject, prefix = ""): Map<string, unknown> {
+	const leaves = new Map<string, unknown>();
+
+	for (const [key, value] of Object.entries(source)) {
+		const path = prefix ? `${prefix}.${key}` : key;
+		if (isPlainObject(value) && Object.keys(value).length > 0) {
+			for (const [childPath, childValue] of flattenObject(value, path)) {
+				leaves.set(childPath, childValue);
+			}
+		} else {
+			leaves.set(path, value);
+		}
+	}
+
+	return leaves;
+}
+
+/**
+ * Recursively merges plain objects; values from `override` win, arrays are replaced
+ * @param base - Lower-precedence object
+ * @param override - Higher-precedence object
+ * @returns A new merged object (inputs are not modified)
+ */
+export function deepMerge(base: PlainObject, override: PlainObject): PlainObject {
+	const merged: PlainObject = structuredClone(base);
+
+	for (const [key, value] of Object.entries(override)) {
+		if (FORBIDDEN_SEGMENTS.has(key) || value === undefined) {
+			continue;
+		}
+		const existing = merged[key];
+		merged[key] =
+			isPlainObject(existing) && isPlainObject(value)
+				? deepMerge(existing, value)
+				: structuredClone(value);
+	}
+
+	return merged;
+}
@@ -0,0 +1,315 @@
+import { z } from "zod";
+import { splitKeyPath } from "./keyPath";
+
+/**
+ * Removes a single wrapper schema (optional, nullable, default, readonly, catch, pipe input)
+ * @param schema - Schema to unwrap
+ * @returns The wrapped schema, or the schema itself if it is not a wrapper
+ */
+export function unwrapSchemaOnce(schema: z.ZodType): z.ZodType {
+	if (
+		schema instanceof z.ZodOptional ||
+		schema instanceof z.ZodNullable ||
+		schema instanceof z.ZodDefault ||
+		schema instanceof z.ZodPrefault ||
+		schema instanceof z.ZodReadonly ||
+		schema instanceof z.ZodCatch
+	) {
+		return schema.unwrap() as z.ZodType;
+	}
+
+	if (schema instanceof z.ZodPipe) {
+		return schema.in as z.ZodType;
+	}
+
+	return schema;
+}
+
+/**
+ * Removes every wrapper schema to reach the schema describing the actual value type
+ * @param schema - Schema to unwrap
+ * @returns The innermost value schema
+ */
+export function unwrapSchema(schema: z.ZodType): z.ZodType {
+	let current = schema;
+	let inner = unwrapSchemaOnce(current);
+
+	while (inner !== current) {
+		current = inner;
+		inner = unwrapSchemaOnce(current);
+	}
+
+	return current;
+}
+
+/**
+ * Checks whether a schema accepts `null`
+ * @param schema - Schema to check
+ * @returns True if `null` is a valid value
+ */
+function acceptsNull(schema: z.ZodType): boolean {
+	return schema.safeParse(null).success;
+}
+
+/**
+ * Finds the schema describing the value at a dotted key path
+ * @param schema - Root (object) schema
+ * @param keyPath - Dotted key path such as `features.enableCache`
+ * @returns The schema for that path, or undefined if the schema does not describe it
+ */
+export function getSchemaAtPath(schema: z.ZodType, keyPath: string): z.ZodType | undefined {
+	let current: z.ZodType = schema;
+
+	for (const segment of splitKeyPath(keyPath)) {
+		const unwrapped = unwrapSchema(current);
+
+		if (unwrapped instanceof z.ZodObject) {
+			const child = unwrapped.shape[segment] as z.ZodType | undefined;
+			if (!child) {
+				return undefined;
+			}
+			current = child;
+		} else if (unwrapped instanceof z.ZodRecord) {
+			current = unwrapped.valueType as z.ZodType;
+		} else {
+			return undefined;
+		}
+	}
+
+	return current;
+}
+
+/**
+ * Finds the default value declared with `.default()` on a schema or a schema it wraps
+ * @param schema - Schema to inspect
+ * @returns The default wrapped in an object (so `undefined` defaults are told apart), or
+ *   undefined if the schema declares none
+ */
+export function getSchemaDefault(schema: z.ZodType): { value: unknown } | undefined {
+	let current = schema;
+	let inner = unwrapSchemaOnce(current);
+
+	// Use the outermost default, as that is the one Zod applies
+	while (!(current instanceof z.ZodDefault) && inner !== current) {
+		current = inner;
+		inner = unwrapSchemaOnce(current);
+	}
+
+	return current instanceof z.ZodDefault
+		? { value: structuredClone(current.def.defaultValue) }
+		: undefined;
+}
+
+/**
+ * Reads the title and description given with `.meta()` or `.describe()` to a schema or a
+ * schema it wraps, the outermost winning
+ * @param schema - Schema to inspect
+ * @returns The title and description found
+ */
+export function getSchemaMetadata(schema: z.ZodType): { title?: string; description?: string } {
+	const metadata: { title?: string; description?: string } = {};
+	let current = schema;
+
+	for (;;) {
+		const meta = z.globalRegistry.get(current);
+		if (metadata.title === undefined && typeof meta?.title === "string") {
+			metadata.title = meta.title;
+		}
+		if (metadata.description === undefined && typeof meta?.description === "string") {
+			metadata.description = meta.description;
+		}
+
+		const inner = unwrapSchemaOnce(current);
+		if (inner === current) {
+			return metadata;
+		}
+		current = inner;
+	}
+}
+
+/**
+ * Turns an object key into a label, e.g. `apiUrl` or `api_url` into `Api url`
+ */
+function humanizeKey(key: string): string {
+	const words = key
+		.replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+		.replace(/[_-]+/g, " ")
+		.trim()
+		.toLowerCase();
+	return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Gets the label shown for a field when prompting for or displaying it
+ * @param key - Key of the field in its object
+ * @param schema - Schema of the field
+ * @returns The title given with `.meta({ title })`, or the key made readable
+ */
+export function getSchemaLabel(key: string, schema: z.ZodType): string {
+	return getSchemaMetadata(schema).title ?? humanizeKey(key);
+}
+
+/**
+ * Collects the default values declared with `.default()` in an object schema
+ * @param schema - Root (object) schema
+ * @returns Nested object holding every declared default
+ */
+export function getSchemaDefaults(schema: z.ZodType): Record<string, unknown> {
+	const defaults: Record<string, unknown> = {};
+	const unwrapped = unwrapSchema(schema);
+
+	if (!(unwrapped instanceof z.ZodObject)) {
+		return defaults;
+	}
+
+	for (const [key, child] of Object.entries(unwrapped.shape as Record<string, z.ZodType>)) {
+		const declared = getSchemaDefault(child);
+		if (declared) {
+			defaults[key] = declared.value;
+			continue;
+		}
+
+		// Zod leaves optional objects out entirely, so their nested defaults never apply
+		if (child.safeParse(undefined).success) {
+			continue;
+		}
+
+		const nested = getSchemaDefaults(child);
+		if (Object.keys(nested).length > 0) {
+			defaults[key] = nested;
+		}
+	}
+
+	return defaults;
+}
+
+/**
+ * Lists the dotted paths of every leaf field described by an object schema
+ * @param schema - Root (object) schema
+ * @returns Dotted key paths of non-object fields
+ */
+export function getSchemaLeafPaths(schema: z.ZodType): string[] {
+	const unwrapped = unwrapSchema(schema);
+
+	if (!(unwrapped instanceof z.ZodObject)) {
+		return [];
+	}
+
+	return Object.entries(unwrapped.shape as Record<string, z.ZodType>).flatMap(([key, child]) => {
+		const nested = getSchemaLeafPaths(child);
+		return nested.length > 0 ? nested.map((path) => `${key}.${path}`) : [key];
+	});
+}
+
+/**
+ * Parses a boolean from common command line spellings
+ */
+function parseBoolean(raw: string): boolean {
+	const normalized = raw.trim().toLowerCase();
+
+	if (["true", "yes", "y", "on", "1"].includes(normalized)) {
+		return true;
+	}
+
+	if (["false", "no", "n", "off", "0"].includes(normalized)) {
+		return false;
+	}
+
+	throw new Error(`Expected a boolean (true/false) but got '${raw}'`);
+}
+
+/**
+ * Parses a finite number
+ */
+function parseNumber(raw: string): number {
+	const value = Number(raw.trim());
+
+	if (raw.trim() === "" || !Number.isFinite(value)) {
+		throw new Error(`Expected a number but got '${raw}'`);
+	}
+
+	return value;
+}
+
+/**
+ * Parses JSON, describing the expected shape in the error message
+ */
+function parseJson(raw: string, expected: string): unknown {
+	try {
+		return JSON.parse(raw);
+	} catch {
+		throw new Error(`Expected ${expected} as JSON but got '${raw}'`);
+	}
+}
+
+/**
+ * Best-effort conversion for values the schema does not describe:
+ * JSON literals (numbers, booleans, null, objects, arrays) are parsed, anything else stays a string
+ */
+function inferValue(raw: string): unknown {
+	try {
+		return JSON.parse(raw);
+	} catch {
+		return raw;
+	}
+}
+
+/**
+ * Converts a string given on the command line to the type a schema expects
+ * @param schema - Schema for the target value, or undefined when unknown
+ * @param raw - Raw string value
+ * @returns The coerced value
+ * @throws Error if the string cannot be converted to the expected type
+ */
+export function coerceValue(schema: z.ZodType | undefined, raw: string): unknown {
+	if (!schema) {
+		return inferValue(raw);
+	}
+
+	if (raw === "null" && acceptsNull(schema)) {
+		return null;
+	}
+
+	const unwrapped = unwrapSchema(schema);
+
+	if (unwrapped instanceof z.ZodString || unwrapped instanceof z.ZodEnum) {
+		return raw;
+	}
+
+	if (unwrapped instanceof z.ZodNumber) {
+		return parseNumber(raw);
+	}
+
+	if (unwrapped instanceof z.ZodBoolean) {
+		return parseBoolean(raw);
+	}
+
+	if (unwrapped instanceof z.ZodObject || unwrapped instanceof z.ZodRecord) {
+		return parseJson(raw, "an object");
+	}
+
+	if (unwrapped instanceof z.ZodArray || unwrapped instanceof z.ZodTuple) {
+		return parseJson(raw, "an array");
+	}
+
+	if (unwrapped instanceof z.ZodLiteral) {
+		const match = [...unwrapped.values].find((value) => String(value) === raw);
+		return match === undefined ? raw : match;
+	}
+
+	if (unwrapped instanceof z.ZodUnion) {
+		for (const option of unwrapped.options as z.ZodType[]) {
+			try {
+				const candidate = coerceValue(option, raw);
+				if (option.safeParse(candidate).success) {
+					return candidate;
+				}
+			} catch {
+				// Try the next option
+			}
+		}
+		return raw;
+	}
+
+	return inferValue(raw);
+}
@@ -0,0 +1,327 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto";
+import { chmodSync, existsSync, readFileSync } from "node:fs";
+import { z } from "zod";
+import { writeFileAtomic } from "./atomicFile";
+import { ConfigSecretError } from "./errors";
+import { getValueAtPath, isPlainObject, setValueAtPath } from "./keyPath";
+import { unwrapSchema, unwrapSchemaOnce } from "./schemaIntrospection";
+
+/**
+ * Prefix identifying encrypted values in stored files
+ * Format: `enc:v1:<salt>:<iv>:<auth tag>:<ciphertext>` (base64url segments)
+ */
+export const ENCRYPTED_PREFIX = "enc:v1:";
+
+/** Placeholder shown instead of secret values */
+export const SECRET_MASK = "********";
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+
+/**
+ * Where the key material used to encrypt secret fields comes from
+ */
+export type SecretKeySource =
+	| { /** Passphrase the key is derived from */ passphrase: string }
+	| { /** File holding the key material (created with a random key if missing) */ keyFile: string };
+
+/**
+ * Registry of schemas marked as secret
+ */
+const secretRegistry = z.registry<{ secret: true }>();
+
+/**
+ * Marks a schema field as secret: it is encrypted at rest and masked when displayed
+ * @template S - Schema type
+ * @param schema - Schema of the secret field
+ * @returns The same schema, registered as secret
+ * @example
+ * ```typescript
+ * const MyConfigSchema = AppConfigSchema.extend({
+ *   apiKey: secret(z.string().min(1)).optional(),
+ * });
+ * ```
+ */
+export function secret<S extends z.ZodType>(schema: S): S {
+	secretRegistry.add(schema, { secret: true });
+	return schema;
+}
+
+/**
+ * Checks whether a schema, or any schema it wraps, was marked with `secret()`
+ * @param schema - Schema to check
+ * @returns True if the field is secret
+ */
+export function isSecretSchema(schema: z.ZodType): boolean {
+	let current = schema;
+
+	for (;;) {
+		// `get` (unlike `has`) follows the parent of clones made by `.describe()` and `.meta()`
+		if (secretRegistry.get(current)?.secret) {
+			return true;
+		}
+		const inner = unwrapSchemaOnce(current);
+		if (inner === current) {
+			return false;
+		}
+		current = inner;
+	}
+}
+
+/**
+ * Lists the dotted paths of every secret field described by an object schema
+ * @param schema - Root configuration schema
+ * @returns Dotted key paths of secret fields
+ */
+export function getSecretPaths(schema: z.ZodType): string[] {
+	const paths: string[] = [];
+
+	const visit = (current: z.ZodType, prefix: string): void => {
+		const unwrapped = unwrapSchema(current);
+		if (!(unwrapped instanceof z.ZodObject)) {
+			return;
+		}
+
+		for (const [key, child] of Object.entries(unwrapped.shape as Record<string, z.ZodType>)) {
+			const path = prefix ? `${prefix}.${key}` : key;
+			if (isSecretSchema(child)) {
+				paths.push(path);
+			} else {
+				visit(child, path);
+			}
+		}
+	};
+
+	visit(schema, "");
+	return paths;
+}
+
+/**
+ * Checks whether a stored value is an encrypted secret
+ * @param value - Value to check
+ * @returns True if the value was produced by SecretCipher.encrypt
+ */
+export function isEncryptedValue(value: unknown): value is string {
+	return typeof value === "string" && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/** Field names that usually hold credentials, matched against the last path segment */
+const SECRET_NAME_PATTERN = /secret|passw(or)?d|token|api[-_]?key|private[-_]?key|credential/i;
+
+/**
+ * Checks whether a value should be treated as secret when its schema is unknown,
+ * e.g. when comparing against an arbitrary JSON file
+ * @param keyPath - Dotted path of the field
+ * @param value - Field value
+ * @param secretPaths - Paths known to be secret from the schema
+ * @returns True if the path is (inside) a known secret, its name looks like a credential
+ * or the value is encrypted
+ */
+export function looksLikeSecret(
+	keyPath: string,
+	value: unknown,
+	secretPaths: readonly string[] = [],
+): boolean {
+	const lastSegment = keyPath.slice(keyPath.lastIndexOf(".") + 1);
+
+	return (
+		secretPaths.some((path) => keyPath === path || keyPath.startsWith(`${path}.`)) ||
+		SECRET_NAME_PATTERN.test(lastSegment) ||
+		isEncryptedValue(value)
+	);
+}
+
+/**
+ * Returns a copy of the data with the given paths replaced by a mask
+ * @param data - Configuration data
+ * @param paths - Dotted paths of secret fields
+ * @returns Masked copy
+ */
+export function maskPaths<T extends object>(data: T, paths: readonly string[]): T {
+	const masked = structuredClone(data) as Record<string, unknown>;
+
+	for (const path of paths) {
+		if (getValueAtPath(masked, path) !== undefined) {
+			setValueAtPath(masked, path, SECRET_MASK);
+		}
+	}
+
+	return masked as T;
+}
+
+/**
+ * Reads key material from a key file, generating a random key if the file does not exist
+ */
+function loadKeyFile(keyFile: string): Buffer {
+	if (!existsSync(keyFile)) {
+		writeFileAtomic(keyFile, randomBytes(KEY_LENGTH).toString("base64"), 0o600);
+		chmodSync(keyFile, 0o600);
+	}
+
+	const material = readFileSync(keyFile, "utf-8").trim();
+	if (!material) {
+		throw new ConfigSecretError(`Secret key file '${keyFile}' is empty`);
+	}
+
+	return Buffer.from(material, "utf-8");
+}
+
+/**
+ * AES-256-GCM encryption of secret values with a key derived (scrypt) from a passphrase
+ * or key file; every value carries its own salt, IV and authentication tag
+ */
+export class SecretCipher {
+	private readonly material: Buffer;
+	private readonly derivedKeys = new Map<string, Buffer>();
+	private readonly salt = randomBytes(SALT_LENGTH);
+
+	constructor(source: SecretKeySource) {
+		this.material =
+			"passphrase" in source
+				? Buffer.from(source.passphrase, "utf-8")
+				: loadKeyFile(source.keyFile);
+
+		if (this.material.length === 0) {
+			throw new ConfigSecretError("Secret passphrase must not be empty");
+		}
+	}
+
+	/**
+	 * Derives (and caches) the encryption key for a salt
+	 */
+	private deriveKey(salt: Buffer): Buffer {
+		const cacheKey = salt.toString("base64url");
+		let key = this.derivedKeys.get(cacheKey);
+
+		if (!key) {
+			key = scryptSync(this.material, salt, KEY_LENGTH);
+			this.derivedKeys.set(cacheKey, key);
+		}
+
+		return key;
+	}
+
+	/**
+	 * Encrypts any JSON-serializable value
+	 * @param value - Value to encrypt
+	 * @returns Encrypted string safe to store in JSON
+	 */
+	encrypt(value: unknown): string {
+		const iv = randomBytes(IV_LENGTH);
+		const cipher = createCipheriv("aes-256-gcm", this.deriveKey(this.salt), iv);
+		const ciphertext = Buffer.concat([
+			cipher.update(JSON.stringify(value), "utf-8"),
+			cipher.final(),
+		]);
+
+		return (
+			ENCRYPTED_PREFIX +
+			[this.salt, iv, cipher.getAuthTag(), ciphertext]
+				.map((part) => part.toString("base64url"))
+				.join(":")
+		);
+	}
+
+	/**
+	 * Decrypts a value produced by `encrypt`
+	 * @param value - Encrypted string
+	 * @returns The original value
+	 * @throws ConfigSecretError if the value is malformed or the key is wrong
+	 */
+	decrypt(value: string): unknown {
+		const parts = value.slice(ENCRYPTED_PREFIX.length).split(":");
+
+		if (!isEncryptedValue(value) || parts.length !== 4) {
+			throw new ConfigSecretError("Malformed encrypted value");
+		}
+
+		const [salt, iv, tag, ciphertext] = parts.map((part) => Buffer.from(part, "base64url")) as [
+			Buffer,
+			Buffer,
+			Buffer,
+			Buffer,
+		];
+
+		try {
+			const decipher = createDecipheriv("aes-256-gcm", this.deriveKey(salt), iv);
+			decipher.setAuthTag(tag);
+			const plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+			return JSON.parse(plaintext.toString("utf-8"));
+		} catch {
+			throw new ConfigSecretError("Unable to decrypt secret value (wrong key or corrupted data)");
+		}
+	}
+
+	/**
+	 * Returns a copy of the data with the given paths encrypted
+	 * Values that are already encrypted are left untouched
+	 */
+	encryptPaths(data: Record<string, unknown>, paths: readonly string[]): Record<string, unknown> {
+		const encrypted = structuredClone(data);
+
+		for (const path of paths) {
+			const value = getValueAtPath(encrypted, path);
+			if (value !== undefined && !isEncryptedValue(value)) {
+				setValueAtPath(encrypted, path, this.encrypt(value));
+			}
+		}
+
+		return encrypted;
+	}
+
+	/**
+	 * Returns a copy of the data with every encrypted value at the given paths decrypted
+	 * Plaintext values (e.g. written before the field was marked secret) are returned as-is
+	 * @throws ConfigSecretError naming the field that could not be decrypted
+	 */
+	decryptPaths(data: Record<string, unknown>, paths: readonly string[]): Record<string, unknown> {
+		const decrypted = structuredClone(data);
+
+		for (const path of paths) {
+			const value = getValueAtPath(decrypted, path);
+			if (!isEncryptedValue(value)) {
+				continue;
+			}
+			try {
+				setValueAtPath(decrypted, path, this.decrypt(value));
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				throw new ConfigSecretError(`${path}: ${errorMessage}`);
+			}
+		}
+
+		return decrypted;
+	}
+}
+
+/**
+ * Checks whether any of the given paths holds a value in the data
+ */
+export function hasValuesAtPaths(data: unknown, paths: readonly string[]): boolean {
+	return isPlainObject(data) && paths.some((path) => getValueAtPath(data, path) !== undefined);
+}
+
+/**
+ * Reads the secret key source configured through environment variables
+ * (`<PREFIX>_SECRET_PASSPHRASE` or `<PREFIX>_SECRET_KEY_FILE`)
+ * @param envPrefix - Environment variable prefix
+ * @param env - Environment to read from
+ * @returns The configured source, or undefined to use the default key file
+ */
+export function getSecretKeySourceFromEnv(
+	envPrefix: string,
+	env: NodeJS.ProcessEnv = process.env,
+): SecretKeySource | undefined {
+	const passphrase = env[`${envPrefix}_SECRET_PASSPHRASE`];
+	if (passphrase) {
+		return { passphrase };
+	}
+
+	const keyFile = env[`${envPrefix}_SECRET_KEY_FILE`];
+	if (keyFile) {
+		return { keyFile };
+	}
+
+	return undefined;
+}
@@ -1,3 +1,5 @@
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { defineConfig } from "vitest/config";
 
 export default defineConfig({
@@ -6,6 +8,8 @@ export default defineConfig({
 		environment: "node",
 		include: ["src/**/*.test.ts"],
 		exclude: ["node_modules/", "dist/", "**/*.config.ts"],
+		// Keep the default configuration directory out of the user's home
+		env: { DEMO_CLI_HOME: join(tmpdir(), "demo-cli-test-home") },
 		coverage: {
 			provider: "v8",
 			reporter: ["text", "json", "html"],